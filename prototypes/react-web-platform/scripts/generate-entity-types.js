@@ -0,0 +1,39 @@
+// Writes record interfaces for the definitions in src/domains/entities.ts
+// to src/types/entities.generated.ts. With --check, exits non-zero instead
+// when the file is out of date.
+import { readFile, writeFile } from 'node:fs/promises'
+import { relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { createServer } from 'vite'
+
+const root = fileURLToPath(new URL('..', import.meta.url))
+const outFile = fileURLToPath(new URL('../src/types/entities.generated.ts', import.meta.url))
+const check = process.argv.includes('--check')
+
+// Vite loads the TypeScript sources the same way the app does
+const server = await createServer({
+  root,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true }
+})
+
+try {
+  const { entityDefinitions } = await server.ssrLoadModule('/src/domains/entities.ts')
+  const { generateEntityTypes } = await server.ssrLoadModule('/src/core/entity/codegen.ts')
+  const source = generateEntityTypes(entityDefinitions)
+  const current = await readFile(outFile, 'utf8').catch(() => null)
+
+  if (current === source) {
+    console.log(`${relative(root, outFile)} is up to date`)
+  } else if (check) {
+    console.error(`${relative(root, outFile)} is out of date; run npm run codegen`)
+    process.exitCode = 1
+  } else {
+    await writeFile(outFile, source)
+    console.log(`Wrote ${relative(root, outFile)}`)
+  }
+} finally {
+  await server.close()
+}
@@ -1,4 +1,17 @@
 import React from 'react'
+import { toPlatformError } from '../core/errors'
+import type { ErrorKind } from '../core/errors'
+import { ValidationFailedError } from '../core/entity/errors'
+
+const KIND_COPY: Record<ErrorKind, { title: string; hint: string }> = {
+  not_found: { title: 'Not found', hint: 'It may have been deleted or renamed.' },
+  validation: { title: 'Some values are not valid', hint: 'Correct the values below and try again.' },
+  permission: { title: 'No access', hint: 'You do not have permission to do this. Ask an administrator if you need access.' },
+  conflict: { title: 'Changed by someone else', hint: 'Reload to get the latest version, then make your change again.' },
+  adapter: { title: 'The data service returned an error', hint: 'The service could not complete the request.' },
+  network: { title: 'Connection problem', hint: 'Check your connection, then try again.' },
+  internal: { title: 'Something went wrong', hint: 'This is a bug. The details below will help fix it.' }
+}
 
 interface ErrorBoundaryState {
   hasError: boolean
@@ -26,32 +39,72 @@ export class ErrorBoundary extends React.Component<
     this.setState({ error, errorInfo })
   }
 
+  reset = () => {
+    this.setState({ hasError: false, error: null, errorInfo: null })
+  }
+
   render() {
     if (this.state.hasError) {
+      const error = toPlatformError(this.state.error)
+      const copy = KIND_COPY[error.kind]
+
       return (
         <div className="p-6 border border-red-300 bg-red-50 rounded-lg">
-          <h2 className="text-lg font-semibold text-red-800 mb-4">
-            Error in {this.props.name || 'Component'}
+          <h2 className="text-lg font-semibold text-red-800 mb-1">
+            {copy.title}
           </h2>
+          <p className="text-sm text-red-700 mb-4">
+            {copy.hint}{error.retryable && error.kind !== 'network' && ' It may work if you try again.'}
+          </p>
           <div className="space-y-4">
-            <div>
-              <h3 className="font-medium text-red-700">Error Message:</h3>
+            {error instanceof ValidationFailedError ? (
+              <ul className="list-disc pl-5 text-sm text-red-700">
+                {error.errors.map((fieldError, index) => (
+                  <li key={index}>{fieldError.message}</li>
+                ))}
+              </ul>
+            ) : (
               <p className="text-sm text-red-600 font-mono bg-red-100 p-2 rounded">
-                {this.state.error?.message}
+                {error.message}
               </p>
+            )}
+            <div className="flex gap-2">
+              {error.retryable && (
+                <button
+                  onClick={this.reset}
+                  className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+                >
+                  Try again
+                </button>
+              )}
+              {error.kind === 'conflict' && (
+                <button
+                  onClick={() => window.location.reload()}
+                  className="px-3 py-1 text-sm border border-red-300 text-red-700 rounded hover:bg-red-100"
+                >
+                  Reload
+                </button>
+              )}
             </div>
-            <div>
-              <h3 className="font-medium text-red-700">Stack Trace:</h3>
-              <pre className="text-xs text-red-600 font-mono bg-red-100 p-2 rounded overflow-auto max-h-40">
-                {this.state.error?.stack}
-              </pre>
-            </div>
-            <div>
-              <h3 className="font-medium text-red-700">Component Stack:</h3>
-              <pre className="text-xs text-red-600 font-mono bg-red-100 p-2 rounded overflow-auto max-h-40">
-                {this.state.errorInfo?.componentStack}
-              </pre>
-            </div>
+            <details className="text-red-700">
+              <summary className="text-sm cursor-pointer">
+                Details ({this.props.name || 'Component'})
+              </summary>
+              <div className="mt-2 space-y-4">
+                <div>
+                  <h3 className="font-medium text-red-700">Stack Trace:</h3>
+                  <pre className="text-xs text-red-600 font-mono bg-red-100 p-2 rounded overflow-auto max-h-40">
+                    {this.state.error?.stack}
+                  </pre>
+                </div>
+                <div>
+                  <h3 className="font-medium text-red-700">Component Stack:</h3>
+                  <pre className="text-xs text-red-600 font-mono bg-red-100 p-2 rounded overflow-auto max-h-40">
+                    {this.state.errorInfo?.componentStack}
+                  </pre>
+                </div>
+              </div>
+            </details>
           </div>
         </div>
       )
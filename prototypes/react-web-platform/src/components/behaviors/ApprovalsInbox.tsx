@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { Badge, Button } from '../ui'
+import type { ApprovalItem, WorkflowTransitionDefinition } from '../../types/entity'
+
+interface ApprovalsInboxProps {
+  items: ApprovalItem[]
+  onTransition: (item: ApprovalItem, transition: WorkflowTransitionDefinition, comment?: string) => Promise<void> | void
+  /** Label for a record, defaults to its id */
+  getRecordLabel?: (item: ApprovalItem) => string
+  /** Label for a field, defaults to its name */
+  getFieldLabel?: (item: ApprovalItem, field: string) => string
+  emptyMessage?: string
+}
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value)
+
+const formatDue = (dueAt: Date) => {
+  const hours = Math.round((dueAt.getTime() - Date.now()) / (60 * 60 * 1000))
+  if (hours < 0) return `${-hours}h overdue`
+  if (hours < 24) return `due in ${hours}h`
+  return `due in ${Math.round(hours / 24)}d`
+}
+
+/**
+ * Records waiting on the current user, with the changes they would apply
+ * and a button per transition the user may take
+ */
+export function ApprovalsInbox({
+  items,
+  onTransition,
+  getRecordLabel = item => item.record.id,
+  getFieldLabel = (_, field) => field,
+  emptyMessage = 'Nothing waiting for your approval'
+}: ApprovalsInboxProps) {
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleTransition = async (item: ApprovalItem, transition: WorkflowTransitionDefinition) => {
+    let comment: string | undefined
+    if (transition.requireComment) {
+      const input = window.prompt(`${transition.displayName}: add a comment`)
+      if (!input?.trim()) return
+      comment = input.trim()
+    }
+
+    setBusy(item.record.id)
+    setError(null)
+    try {
+      await onTransition(item, transition, comment)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transition failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">{emptyMessage}</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2">{error}</div>
+      )}
+
+      {items.map(item => (
+        <div key={`${item.record.entity}:${item.record.id}`} className="border rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <div className="font-medium">{getRecordLabel(item)}</div>
+              <div className="text-xs text-muted-foreground">
+                {item.workflow.displayName} · {item.state.displayName}
+              </div>
+            </div>
+            {item.dueAt && (
+              <Badge variant={item.overdue ? 'error' : 'outline'} size="sm">
+                {formatDue(item.dueAt)}
+              </Badge>
+            )}
+          </div>
+
+          {item.changes.length > 0 && (
+            <table className="w-full text-sm">
+              <tbody>
+                {item.changes.map(change => (
+                  <tr key={change.field}>
+                    <td className="py-0.5 pr-2 text-muted-foreground">{getFieldLabel(item, change.field)}</td>
+                    <td className="py-0.5 pr-2 line-through text-muted-foreground">{formatValue(change.before)}</td>
+                    <td className="py-0.5 font-medium">{formatValue(change.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            {item.transitions.map(transition => (
+              <Button
+                key={transition.name}
+                size="sm"
+                variant={item.workflow.states.find(s => s.name === transition.to)?.outcome === 'approved' ? 'primary' : 'outline'}
+                loading={busy === item.record.id}
+                disabled={busy !== null}
+                onClick={() => handleTransition(item, transition)}
+              >
+                {transition.displayName}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -2,8 +2,13 @@ import { useState, useMemo, useRef, useCallback, useEffect } from 'react'
 import { Button } from '../ui/Button'
 import { Input } from '../ui/Input'
 import { Badge } from '../ui/Badge'
+import { Modal } from '../ui/Modal'
 import { InventoryBadge } from './InventoryBadge'
 import { UnifiedInlineEditor } from './UnifiedInlineEditor'
+import { ConflictError } from '../../core/entity/errors'
+import { stringifyCsv } from '../../core/entity/csv'
+import { nodeText, printReport } from '../../lib/print'
+import type { EntityAccess, FieldDefinition, PermissionAction, UserContext } from '../../types/entity'
 
 export interface Column<T> {
   key: keyof T
@@ -19,6 +24,12 @@ export interface Column<T> {
   maxWidth?: number
   // Multi-level header support
   groupHeader?: string
+  // Cell type and number format (currency, percentage, date) in Excel exports
+  field?: Pick<FieldDefinition, 'type' | 'displayOptions'>
+  // Printed reports: cell text (defaults to the cell's rendered text) and a
+  // page/report footer total; 'sum' adds up values and inventory badges
+  printValue?: (item: T) => string
+  total?: 'sum' | ((items: T[]) => string | number)
   subColumns?: Column<T>[]
   // Header spanning support
   colSpan?: number
@@ -52,6 +63,8 @@ export interface Column<T> {
     maxLength?: number
     onSave?: (item: T, newValue: T[keyof T]) => Promise<void>
     onValidate?: (value: T[keyof T], item: T) => { isValid: boolean; error?: string }
+    // Runs while typing, debounced; e.g. entityEngine.validateField for uniqueness
+    onValidateAsync?: (value: T[keyof T], item: T, signal: AbortSignal) => Promise<{ isValid: boolean; error?: string; warning?: string }>
     disabled?: (item: T) => boolean
   }
 }
@@ -62,6 +75,15 @@ export interface BulkAction<T> {
   icon?: React.ReactNode
   action: (selectedItems: T[]) => void
   variant?: 'default' | 'destructive'
+  permission?: PermissionAction // Hidden when `access` does not allow it
+}
+
+// A cell edit rejected because the row changed since it was rendered
+export interface CellEditConflict<T> {
+  item: T
+  column: Column<T>
+  value: T[keyof T]
+  error: ConflictError
 }
 
 export interface DataTableProps<T> {
@@ -83,6 +105,8 @@ export interface DataTableProps<T> {
   export?: {
     enabled: boolean
     filename?: string
+    formats?: Array<'csv' | 'xlsx' | 'pdf'> // Defaults to ['csv']; 'pdf' opens a print-ready report
+    title?: string // Heading of printed reports, defaults to the filename
   }
   columnControls?: {
     resizable?: boolean
@@ -98,6 +122,10 @@ export interface DataTableProps<T> {
   // Inline editing configuration
   onCellEdit?: (item: T, column: Column<T>, newValue: T[keyof T]) => Promise<void>
   cellValidation?: (item: T, column: Column<T>, value: T[keyof T]) => { isValid: boolean; error?: string }
+  // Saves an edit over overridable validation errors with the user's reason;
+  // editors offer it when every error is one `user` may override
+  onCellOverride?: (item: T, column: Column<T>, newValue: T[keyof T], reason: string) => Promise<void>
+  user?: UserContext
   // Column freezing
   frozenColumns?: number[]
   maxHeight?: string
@@ -114,6 +142,53 @@ export interface DataTableProps<T> {
     hideColumnsOnTablet?: (keyof T)[]   // Columns to hide on tablet
     compactOnMobile?: boolean           // Use compact spacing on mobile
   }
+  // What the current user may do (e.g. from entityEngine.getAccess): hides
+  // unreadable columns, locks read-only ones and drops bulk actions and
+  // export the user may not use
+  access?: EntityAccess
+}
+
+const EXPORT_LABELS = { csv: 'Export CSV', xlsx: 'Export Excel', pdf: 'Print / PDF' }
+
+function formatInventory<T>(column: Column<T>, available: number, total: number): string {
+  if (!column.dynamicBadge?.showPercentage) return `${available}/${total}`
+  return `${total === 0 ? 0 : Math.round((available / total) * 100)}%`
+}
+
+// A dynamic badge as the text it displays
+function getBadgeText<T>(column: Column<T>, item: T): string {
+  if (!column.dynamicBadge) return ''
+  const badge = column.dynamicBadge.getValue(item)
+  return 'available' in badge ? formatInventory(column, badge.available, badge.total) : String(badge.value)
+}
+
+// What a cell shows, as plain text for printing
+function getPrintText<T>(column: Column<T>, item: T): string {
+  if (column.printValue) return column.printValue(item)
+
+  const value = item[column.key]
+  const raw = value === null || value === undefined ? '' : value instanceof Date ? value.toLocaleDateString() : String(value)
+  if (!column.render && column.dynamicBadge?.position === 'replace') return getBadgeText(column, item)
+
+  const content = column.render ? nodeText(column.render(value, item)) || raw : raw
+  return column.dynamicBadge?.position === 'append' ? `${content} ${getBadgeText(column, item)}`.trim() : content
+}
+
+function getPrintTotal<T>(column: Column<T>, items: T[]): string {
+  if (!column.total) return ''
+  if (column.total !== 'sum') return String(column.total(items))
+
+  const sum = items.reduce((total, item) => total + (Number(item[column.key]) || 0), 0)
+  if (column.dynamicBadge?.type !== 'inventory') return String(sum)
+
+  const inventory = items.reduce((totals, item) => {
+    const badge = column.dynamicBadge!.getValue(item)
+    return 'available' in badge
+      ? { available: totals.available + badge.available, total: totals.total + badge.total }
+      : totals
+  }, { available: 0, total: 0 })
+  const badgeText = formatInventory(column, inventory.available, inventory.total)
+  return column.dynamicBadge.position === 'replace' ? badgeText : `${sum} ${badgeText}`
 }
 
 export function DataTable<T extends Record<string, unknown>>({
@@ -135,7 +210,10 @@ export function DataTable<T extends Record<string, unknown>>({
   frozenColumns = [],
   maxHeight,
   frozenHeader = false,
-  responsive = { enabled: false }
+  responsive = { enabled: false },
+  access,
+  onCellOverride,
+  user
 }: DataTableProps<T>) {
   const [sortConfig, setSortConfig] = useState<{
     key: keyof T
@@ -150,6 +228,8 @@ export function DataTable<T extends Record<string, unknown>>({
   const [resizingColumn, setResizingColumn] = useState<number | null>(null)
   const [selectedItems, setSelectedItems] = useState<Set<number>>(new Set())
   const [screenWidth, setScreenWidth] = useState<number>(typeof window !== 'undefined' ? window.innerWidth : 1024)
+  const [editConflict, setEditConflict] = useState<CellEditConflict<T> | null>(null)
+  const [resolvingConflict, setResolvingConflict] = useState(false)
   const tableRef = useRef<HTMLTableElement>(null)
   const resizeStartX = useRef<number>(0)
   const resizeStartWidth = useRef<number>(0)
@@ -188,11 +268,29 @@ export function DataTable<T extends Record<string, unknown>>({
     return 'desktop'
   }, [screenWidth, responsive])
   
+  // Columns the user may not read are never shown
+  const permittedColumns = useMemo(() => {
+    if (!access) return localColumns
+    return localColumns.filter(column => !access.hiddenFields.includes(String(column.key)))
+  }, [localColumns, access])
+
+  const isReadOnlyColumn = useCallback((column: Column<T>) => {
+    if (!access) return false
+    return !access.actions.includes('update') || access.readOnlyFields.includes(String(column.key))
+  }, [access])
+
+  const permittedBulkActions = useMemo(() => {
+    return selection.bulkActions?.filter(action => !action.permission || !access || access.actions.includes(action.permission))
+  }, [selection.bulkActions, access])
+
+  const canExport = exportConfig.enabled && (!access || access.actions.includes('export'))
+  const exportFormats = exportConfig.formats ?? ['csv']
+
   // Filter columns based on responsive settings
   const responsiveColumns = useMemo(() => {
-    if (!responsive.enabled) return localColumns
+    if (!responsive.enabled) return permittedColumns
     
-    return localColumns.filter(column => {
+    return permittedColumns.filter(column => {
       if (deviceType === 'mobile' && responsive.hideColumnsOnMobile?.includes(column.key)) {
         return false
       }
@@ -201,7 +299,7 @@ export function DataTable<T extends Record<string, unknown>>({
       }
       return true
     })
-  }, [localColumns, deviceType, responsive])
+  }, [permittedColumns, deviceType, responsive])
   
   // Calculate left offset for frozen columns
   const getFrozenLeft = useCallback((columnIndex: number) => {
@@ -416,32 +514,116 @@ export function DataTable<T extends Record<string, unknown>>({
     document.removeEventListener('mouseup', handleResizeEnd)
   }, [handleResizeMove])
 
-  const handleExport = () => {
-    if (!exportConfig.enabled) return
-
-    const headers = responsiveColumns.map(col => col.label).join(',')
-    const rows = sortedData.map(item => 
-      responsiveColumns.map(col => {
-        const value = item[col.key]
-        return typeof value === 'string' && value.includes(',') 
-          ? `"${value}"` 
-          : String(value)
-      }).join(',')
-    ).join('\n')
-    
-    const csv = `${headers}\n${rows}`
-    const blob = new Blob([csv], { type: 'text/csv' })
+  const downloadFile = (blob: Blob, extension: string) => {
     const url = URL.createObjectURL(blob)
-    
     const a = document.createElement('a')
     a.href = url
-    a.download = `${exportConfig.filename || 'data'}.csv`
+    a.download = `${exportConfig.filename || 'data'}.${extension}`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
   }
 
+  const handleExport = async (format: 'csv' | 'xlsx' | 'pdf' = 'csv') => {
+    if (!exportConfig.enabled) return
+
+    if (format === 'pdf') {
+      const sortColumn = sortConfig && responsiveColumns.find(col => col.key === sortConfig.key)
+      const subtitle = [
+        searchTerm && `Matching "${searchTerm}"`,
+        sortColumn && `Sorted by ${sortColumn.label} (${sortConfig.direction === 'asc' ? 'ascending' : 'descending'})`,
+        `${sortedData.length} ${sortedData.length === 1 ? 'row' : 'rows'}`
+      ].filter(Boolean).join(' · ')
+
+      printReport<T>({
+        title: exportConfig.title || exportConfig.filename || 'Report',
+        subtitle,
+        columns: responsiveColumns.map(col => ({
+          header: col.label,
+          group: col.groupHeader,
+          align: col.align,
+          text: item => getPrintText(col, item),
+          total: col.total ? items => getPrintTotal(col, items) : undefined
+        })),
+        items: sortedData
+      })
+      return
+    }
+
+    if (format === 'xlsx') {
+      // Loaded on demand to keep exceljs out of the main bundle
+      const { writeWorkbook } = await import('../../core/entity/xlsx')
+      // Excel freezes a leading block of columns only
+      let frozenCount = 0
+      while (frozenColumns.includes(frozenCount)) frozenCount++
+
+      const workbook = await writeWorkbook([{
+        name: exportConfig.filename || 'Data',
+        columns: responsiveColumns.map(col => ({
+          key: String(col.key),
+          header: col.label,
+          group: col.groupHeader,
+          field: col.field,
+          width: columnWidths[String(col.key)] || col.width
+        })),
+        rows: sortedData,
+        frozenColumns: frozenCount
+      }])
+      downloadFile(new Blob([workbook], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), 'xlsx')
+      return
+    }
+
+    // Quoting and formula-cell escaping as in entity CSV exports
+    const csv = stringifyCsv([
+      responsiveColumns.map(col => col.label),
+      ...sortedData.map(item => responsiveColumns.map(col => {
+        const value = item[col.key]
+        return value === null || value === undefined ? '' : String(value)
+      }))
+    ])
+    downloadFile(new Blob([csv], { type: 'text/csv' }), 'csv')
+  }
+
+  // Stale writes (ConflictError from onCellEdit) open the merge dialog instead of failing the editor
+  const saveCellEdit = useCallback(async (item: T, column: Column<T>, newValue: T[keyof T]) => {
+    if (!onCellEdit) return
+    try {
+      await onCellEdit(item, column, newValue)
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        setEditConflict({ item, column, value: newValue, error })
+        return
+      }
+      throw error
+    }
+  }, [onCellEdit])
+
+  // The conflicting row as now stored: the other user's data and version. The
+  // `data` prop still holds the stale row until the parent reloads it.
+  const conflictRow = editConflict
+    ? { ...editConflict.item, ...editConflict.error.current.data, version: editConflict.error.current.version } as T
+    : null
+
+  const resolveConflict = async (resolution: 'keep-theirs' | 'apply-mine') => {
+    if (!editConflict || !conflictRow) return
+    if (resolution === 'keep-theirs') {
+      setEditConflict(null)
+      return
+    }
+
+    setResolvingConflict(true)
+    setEditConflict(null)
+    try {
+      // Re-apply only this cell on top of the other user's changes
+      await saveCellEdit(conflictRow, editConflict.column, editConflict.value)
+    } catch (error) {
+      console.error('Failed to apply edit after conflict:', error)
+    } finally {
+      setResolvingConflict(false)
+    }
+  }
+
   // Cell rendering function with inline editing support
   const renderCell = useCallback((column: Column<T>, item: T, value: T[keyof T]) => {
     // Helper function to render dynamic badges
@@ -478,7 +660,11 @@ export function DataTable<T extends Record<string, unknown>>({
 
     // Check if cell has custom render function
     if (column.render) {
-      const renderedContent = column.render(value, item)
+      const rendered = column.render(value, item)
+      // Custom renderers may contain their own editors; disable them all for read-only columns
+      const renderedContent = column.editable?.enabled && isReadOnlyColumn(column)
+        ? <fieldset disabled className="contents">{rendered}</fieldset>
+        : rendered
       
       // If dynamicBadge position is 'append', wrap with badge
       if (column.dynamicBadge?.position === 'append') {
@@ -500,7 +686,7 @@ export function DataTable<T extends Record<string, unknown>>({
 
     // Check if cell is editable
     if (column.editable?.enabled) {
-      const isDisabled = column.editable.disabled?.(item) || false
+      const isDisabled = column.editable.disabled?.(item) || isReadOnlyColumn(column)
 
       // Handle different editable types
       if (column.editable.type === 'number') {
@@ -531,14 +717,17 @@ export function DataTable<T extends Record<string, unknown>>({
               if (column.editable?.onSave) {
                 await column.editable.onSave(item, newValue as T[keyof T])
               } else if (onCellEdit) {
-                await onCellEdit(item, column, newValue as T[keyof T])
+                await saveCellEdit(item, column, newValue as T[keyof T])
               }
             }}
             disabled={isDisabled}
+            user={user}
+            onOverrideSave={onCellOverride ? (newValue, reason) => onCellOverride(item, column, newValue as T[keyof T], reason) : undefined}
             validation={column.editable.onValidate ? (val) => {
               const result = column.editable!.onValidate!(val as T[keyof T], item)
               return { isValid: result.isValid, error: result.error }
             } : undefined}
+            asyncValidation={column.editable.onValidateAsync ? (val, signal) => column.editable!.onValidateAsync!(val as T[keyof T], item, signal) : undefined}
             className="text-center min-w-[2rem]"
           />
         )
@@ -583,7 +772,7 @@ export function DataTable<T extends Record<string, unknown>>({
               if (column.editable?.onSave) {
                 await column.editable.onSave(item, newValue as T[keyof T])
               } else if (onCellEdit) {
-                await onCellEdit(item, column, newValue as T[keyof T])
+                await saveCellEdit(item, column, newValue as T[keyof T])
               }
             }}
             className="w-full px-1 py-0.5 text-sm border border-muted rounded bg-background text-foreground focus:border-primary focus:outline-none"
@@ -632,15 +821,18 @@ export function DataTable<T extends Record<string, unknown>>({
             if (column.editable?.onSave) {
               await column.editable.onSave(item, newValue as T[keyof T])
             } else if (onCellEdit) {
-              await onCellEdit(item, column, newValue as T[keyof T])
+              await saveCellEdit(item, column, newValue as T[keyof T])
             }
           }}
           disabled={isDisabled}
           maxLength={column.editable.maxLength}
+          user={user}
+          onOverrideSave={onCellOverride ? (newValue, reason) => onCellOverride(item, column, newValue as T[keyof T], reason) : undefined}
           validation={column.editable.onValidate ? (val) => {
             const result = column.editable!.onValidate!(val as T[keyof T], item)
             return { isValid: result.isValid, error: result.error }
           } : undefined}
+          asyncValidation={column.editable.onValidateAsync ? (val, signal) => column.editable!.onValidateAsync!(val as T[keyof T], item, signal) : undefined}
           className="w-full"
         />
       )
@@ -671,7 +863,7 @@ export function DataTable<T extends Record<string, unknown>>({
     }
 
     return defaultContent
-  }, [onCellEdit])
+  }, [onCellEdit, saveCellEdit, isReadOnlyColumn, onCellOverride, user])
 
   if (loading) {
     return (
@@ -694,7 +886,7 @@ export function DataTable<T extends Record<string, unknown>>({
   return (
     <div className={`space-y-4 ${className}`}>
       {/* Search, Export, and Bulk Actions Controls */}
-      {(search.enabled || exportConfig.enabled || (selection.enabled && selectedItems.size > 0)) && (
+      {(search.enabled || canExport || (selection.enabled && selectedItems.size > 0)) && (
         <div className="flex items-center justify-between gap-4">
           <div className="flex items-center gap-4 flex-1">
             {search.enabled && (
@@ -713,12 +905,12 @@ export function DataTable<T extends Record<string, unknown>>({
             )}
             
             {/* Bulk Actions */}
-            {selection.enabled && selectedItems.size > 0 && selection.bulkActions && (
+            {selection.enabled && selectedItems.size > 0 && permittedBulkActions && (
               <div className="flex items-center gap-2">
                 <span className="text-sm text-muted-foreground">
                   {selectedItems.size} selected
                 </span>
-                {selection.bulkActions.map((action) => (
+                {permittedBulkActions.map((action) => (
                   <Button
                     key={action.id}
                     onClick={() => handleBulkAction(action)}
@@ -734,14 +926,19 @@ export function DataTable<T extends Record<string, unknown>>({
             )}
           </div>
           
-          {exportConfig.enabled && (
-            <Button
-              onClick={handleExport}
-              variant="outline"
-              size="sm"
-            >
-              Export CSV
-            </Button>
+          {canExport && (
+            <div className="flex items-center gap-2">
+              {exportFormats.map(format => (
+                <Button
+                  key={format}
+                  onClick={() => handleExport(format).catch(error => console.error('Export failed:', error))}
+                  variant="outline"
+                  size="sm"
+                >
+                  {EXPORT_LABELS[format]}
+                </Button>
+              ))}
+            </div>
           )}
         </div>
       )}
@@ -1075,6 +1272,39 @@ export function DataTable<T extends Record<string, unknown>>({
           )}
         </>
       )}
+
+      {/* Edit conflict dialog */}
+      <Modal
+        isOpen={editConflict !== null}
+        onClose={() => setEditConflict(null)}
+        title="Edit conflict"
+        size="sm"
+      >
+        {editConflict && conflictRow && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              <span className="font-medium text-foreground">{editConflict.column.label}</span> was changed by
+              someone else while you were editing (version {editConflict.error.expectedVersion} → {editConflict.error.actualVersion}).
+            </p>
+            <dl className="grid grid-cols-2 gap-2 text-sm">
+              <dt className="text-muted-foreground">Their value</dt>
+              <dd className="font-mono">
+                {String(editConflict.error.current.data[String(editConflict.column.key)] ?? conflictRow[editConflict.column.key] ?? '')}
+              </dd>
+              <dt className="text-muted-foreground">Your value</dt>
+              <dd className="font-mono">{String(editConflict.value ?? '')}</dd>
+            </dl>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => resolveConflict('keep-theirs')}>
+                Keep their value
+              </Button>
+              <Button size="sm" onClick={() => resolveConflict('apply-mine')} disabled={resolvingConflict}>
+                Apply my value
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,417 @@
+import { useMemo, useState } from 'react'
+import { Badge, Button } from '../ui'
+import {
+  getImportableFields,
+  mapImportRows,
+  readImportFile,
+  rejectedRowsToCsv,
+  suggestImportMapping
+} from '../../core/entity/importer'
+import type { ImportColumnSuggestion } from '../../core/entity/importer'
+import type {
+  EntityDefinition,
+  ImportMode,
+  ImportOptions,
+  ImportReport,
+  ImportRowResult,
+  ImportSource
+} from '../../types/entity'
+
+interface ImportWizardProps {
+  definition: EntityDefinition
+  /** Applies the rows, or only validates them when `options.dryRun` is set; usually `engine.importRecords` */
+  onImport: (source: ImportSource, options: ImportOptions) => Promise<ImportReport> | ImportReport
+  /** Called after a real import with its report */
+  onComplete?: (report: ImportReport) => void
+  /** Cancel before importing, or Done after */
+  onClose?: () => void
+  /** Rows shown while mapping columns (default 5) */
+  previewRows?: number
+}
+
+type Step = 'upload' | 'map' | 'review' | 'done'
+
+const MODES: Array<{ value: ImportMode; label: string; hint: string }> = [
+  { value: 'insert', label: 'Insert', hint: 'Create a record for every row' },
+  { value: 'upsert', label: 'Update or insert', hint: 'Update the record with the same key, otherwise create one' },
+  { value: 'skip_duplicates', label: 'Skip duplicates', hint: 'Only create records whose key is new' }
+]
+
+const ACTION_BADGES: Record<ImportRowResult['action'], { label: string; variant: 'success' | 'info' | 'secondary' }> = {
+  insert: { label: 'New', variant: 'success' },
+  update: { label: 'Update', variant: 'info' },
+  skip: { label: 'Skip', variant: 'secondary' }
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (value instanceof Date) return value.toLocaleDateString()
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
+
+const downloadCsv = (csv: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Import a CSV, JSON or Excel file into an entity: map the file's columns
+ * to fields (suggested from the headers), check every row in a dry run
+ * with errors shown inline, then import with the chosen duplicate handling.
+ * Rejected rows can be downloaded as CSV to fix and upload again.
+ */
+export function ImportWizard({
+  definition,
+  onImport,
+  onComplete,
+  onClose,
+  previewRows = 5
+}: ImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload')
+  const [sources, setSources] = useState<ImportSource[]>([])
+  const [sourceIndex, setSourceIndex] = useState(0)
+  const [suggestions, setSuggestions] = useState<ImportColumnSuggestion[]>([])
+  const [mapping, setMapping] = useState<Array<string | null>>([])
+  const [mode, setMode] = useState<ImportMode>('insert')
+  const [keyField, setKeyField] = useState('')
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [errorsOnly, setErrorsOnly] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const source = sources[sourceIndex]
+  const fields = useMemo(() => getImportableFields(definition), [definition])
+  const fieldLabel = (name: string) => definition.fields.find(field => field.name === name)?.displayName ?? name
+
+  const selectSource = (index: number, available = sources) => {
+    const suggested = suggestImportMapping(definition, available[index]?.headers ?? [])
+    setSourceIndex(index)
+    setSuggestions(suggested)
+    setMapping(suggested.map(suggestion => suggestion.field))
+    setReport(null)
+  }
+
+  const run = async (work: () => Promise<void>, fallback: string) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await work()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleFile = (file: File) => run(async () => {
+    const read = (await readImportFile(file, definition)).filter(sheet => sheet.headers.length > 0)
+    if (read.length === 0) {
+      throw new Error(`${file.name} has no header row`)
+    }
+    setSources(read)
+    selectSource(0, read)
+    setStep('map')
+  }, 'Could not read the file')
+
+  const options = (dryRun: boolean): ImportOptions => ({
+    mapping,
+    mode,
+    keyField: mode === 'insert' ? undefined : keyField,
+    dryRun
+  })
+
+  const handleDryRun = () => run(async () => {
+    setReport(await onImport(source, options(true)))
+    setErrorsOnly(false)
+    setStep('review')
+  }, 'Dry run failed')
+
+  const handleImport = () => run(async () => {
+    const result = await onImport(source, options(false))
+    setReport(result)
+    setStep('done')
+    onComplete?.(result)
+  }, 'Import failed')
+
+  const handleDownloadRejected = () => {
+    if (!source || !report) return
+    const name = source.name.replace(/\.[^.]+$/, '')
+    downloadCsv(rejectedRowsToCsv(source, report.rows), `${name}-rejected.csv`)
+  }
+
+  const reset = () => {
+    setStep('upload')
+    setSources([])
+    setReport(null)
+    setError(null)
+  }
+
+  const mappedColumns = mapping.flatMap((field, column) => field ? [{ column, field }] : [])
+  const missingRequired = fields.filter(field => field.required && !mapping.includes(field.name))
+  const preview = useMemo(
+    () => source ? mapImportRows(definition, { ...source, rows: source.rows.slice(0, previewRows) }, mapping) : [],
+    [definition, source, mapping, previewRows]
+  )
+  const canDryRun = mappedColumns.length > 0 && (mode === 'insert' || mapping.includes(keyField))
+
+  const reviewRows = report?.rows.filter(row => !errorsOnly || row.status === 'failed') ?? []
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2">{error}</div>
+      )}
+
+      {step === 'upload' && (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Choose a CSV, JSON or Excel file with one {definition.displayName.toLowerCase()} per row and a header row.
+          </p>
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,.json,.xlsx"
+            disabled={busy}
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleFile(file)
+              e.target.value = ''
+            }}
+            className="block w-full text-sm"
+          />
+          {onClose && (
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={onClose}>Cancel</Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {step === 'map' && source && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm">
+              <span className="font-medium">{source.name}</span>
+              <span className="text-muted-foreground"> · {source.rows.length} rows</span>
+            </div>
+            {sources.length > 1 && (
+              <select
+                value={sourceIndex}
+                onChange={(e) => selectSource(Number(e.target.value))}
+                className="px-3 py-1 text-sm border border-muted/50 rounded bg-background"
+              >
+                {sources.map((sheet, index) => (
+                  <option key={sheet.name} value={index}>{sheet.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground">
+                <th className="py-1 pr-2 font-medium">Column in file</th>
+                <th className="py-1 pr-2 font-medium">Example</th>
+                <th className="py-1 font-medium">Field</th>
+              </tr>
+            </thead>
+            <tbody>
+              {source.headers.map((header, column) => (
+                <tr key={column} className="border-t">
+                  <td className="py-1 pr-2 font-medium">{header || `Column ${column + 1}`}</td>
+                  <td className="py-1 pr-2 text-muted-foreground truncate max-w-[160px]">
+                    {formatValue(source.rows[0]?.values[column])}
+                  </td>
+                  <td className="py-1">
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={mapping[column] ?? ''}
+                        onChange={(e) => setMapping(current => current.map((field, index) => {
+                          if (index === column) return e.target.value || null
+                          // A field comes from one column only
+                          return field === e.target.value ? null : field
+                        }))}
+                        className="px-2 py-1 text-sm border border-muted/50 rounded bg-background"
+                      >
+                        <option value="">Don't import</option>
+                        {fields.map(field => (
+                          <option key={field.name} value={field.name}>{field.displayName}</option>
+                        ))}
+                      </select>
+                      {mapping[column] && mapping[column] === suggestions[column]?.field && suggestions[column].score < 1 && (
+                        <Badge variant="outline" size="xs" title="Suggested from the column header">
+                          {Math.round(suggestions[column].score * 100)}% match
+                        </Badge>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {missingRequired.length > 0 && (
+            <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">
+              Required fields without a column: {missingRequired.map(field => field.displayName).join(', ')}
+            </div>
+          )}
+
+          {mappedColumns.length > 0 && (
+            <div className="overflow-x-auto border rounded">
+              <table className="w-full text-xs">
+                <thead className="bg-muted/30">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium">Line</th>
+                    {mappedColumns.map(({ field }) => (
+                      <th key={field} className="px-2 py-1 text-left font-medium">{fieldLabel(field)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((row, index) => (
+                    <tr key={row.line} className="border-t">
+                      <td className="px-2 py-1 text-muted-foreground">{row.line}</td>
+                      {mappedColumns.map(({ column, field }) => {
+                        // Cells that do not convert show as written, with the reason on hover
+                        const cellError = row.errors.find(rowError => rowError.field === field)
+                        return (
+                          <td key={field} className={`px-2 py-1 ${cellError ? 'text-red-700' : ''}`} title={cellError?.message}>
+                            {formatValue(cellError ? source.rows[index].values[column] : row.data[field])}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            <label className="text-sm space-y-1">
+              <span className="font-medium">Rows that already exist</span>
+              <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as ImportMode)}
+                className="w-full px-2 py-1 text-sm border border-muted/50 rounded bg-background"
+              >
+                {MODES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <span className="block text-xs text-muted-foreground">
+                {MODES.find(option => option.value === mode)?.hint}
+              </span>
+            </label>
+            {mode !== 'insert' && (
+              <label className="text-sm space-y-1">
+                <span className="font-medium">Match existing records on</span>
+                <select
+                  value={keyField}
+                  onChange={(e) => setKeyField(e.target.value)}
+                  className="w-full px-2 py-1 text-sm border border-muted/50 rounded bg-background"
+                >
+                  <option value="">Choose a field…</option>
+                  {mappedColumns.map(({ field }) => (
+                    <option key={field} value={field}>{fieldLabel(field)}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={reset} disabled={busy}>Choose another file</Button>
+            <Button size="sm" onClick={handleDryRun} loading={busy} disabled={!canDryRun}>
+              Check {source.rows.length} rows
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {(step === 'review' || step === 'done') && report && source && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">
+              {report.dryRun ? 'Dry run:' : 'Imported:'}
+            </span>
+            <Badge variant="success" size="sm">{report.inserted} new</Badge>
+            {report.updated > 0 && <Badge variant="info" size="sm">{report.updated} updated</Badge>}
+            {report.skipped > 0 && <Badge variant="secondary" size="sm">{report.skipped} skipped</Badge>}
+            {report.failed > 0 && <Badge variant="error" size="sm">{report.failed} rejected</Badge>}
+            {report.failed > 0 && (
+              <label className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+                <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} />
+                Only rejected rows
+              </label>
+            )}
+          </div>
+
+          <div className="max-h-80 overflow-auto border rounded">
+            <table className="w-full text-xs">
+              <thead className="bg-muted/30 sticky top-0">
+                <tr>
+                  <th className="px-2 py-1 text-left font-medium">Line</th>
+                  <th className="px-2 py-1 text-left font-medium">Action</th>
+                  {mappedColumns.map(({ field }) => (
+                    <th key={field} className="px-2 py-1 text-left font-medium">{fieldLabel(field)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {reviewRows.flatMap(row => [
+                  <tr key={row.line} className={`border-t ${row.status === 'failed' ? 'bg-red-50/60' : ''}`}>
+                    <td className="px-2 py-1 text-muted-foreground">{row.line}</td>
+                    <td className="px-2 py-1">
+                      {row.status === 'failed'
+                        ? <Badge variant="error" size="xs">Rejected</Badge>
+                        : <Badge variant={ACTION_BADGES[row.action].variant} size="xs">{ACTION_BADGES[row.action].label}</Badge>}
+                    </td>
+                    {mappedColumns.map(({ field }) => (
+                      <td key={field} className="px-2 py-1">{formatValue(row.data[field])}</td>
+                    ))}
+                  </tr>,
+                  ...row.errors.length > 0 ? [
+                    <tr key={`${row.line}-errors`} className="bg-red-50/60">
+                      <td />
+                      <td colSpan={mappedColumns.length + 1} className="px-2 pb-1 text-red-700">
+                        {row.errors.map(rowError => rowError.message).join(' · ')}
+                      </td>
+                    </tr>
+                  ] : []
+                ])}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            {report.failed > 0 && (
+              <Button variant="outline" size="sm" onClick={handleDownloadRejected}>
+                Download rejected rows
+              </Button>
+            )}
+            {step === 'review' ? (
+              <>
+                <Button variant="ghost" size="sm" onClick={() => setStep('map')} disabled={busy}>Back</Button>
+                <Button size="sm" onClick={handleImport} loading={busy} disabled={report.total === report.failed + report.skipped}>
+                  Import {report.total - report.failed - report.skipped} rows
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="ghost" size="sm" onClick={reset}>Import another file</Button>
+                {onClose && <Button size="sm" onClick={onClose}>Done</Button>}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
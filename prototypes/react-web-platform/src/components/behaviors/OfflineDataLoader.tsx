@@ -1,5 +1,7 @@
 import React, { useState, useEffect, ReactNode } from 'react'
 import { useOffline } from '../../lib/hooks/useOffline'
+import { ApiError, toPlatformError } from '../../core/errors'
+import type { ErrorKind } from '../../core/errors'
 
 interface OfflineDataLoaderProps {
   url: string
@@ -12,12 +14,26 @@ interface OfflineDataLoaderProps {
 interface LoadingStatus {
   loading: boolean
   error: string | null
+  errorKind: ErrorKind | null
   fromCache: boolean
   isStale: boolean
   lastUpdated: Date | null
   offline: boolean
 }
 
+const errorLabel = (kind: ErrorKind | null) => {
+  switch (kind) {
+    case 'network':
+      return '📴 Offline'
+    case 'permission':
+      return '🔒 No access'
+    case 'not_found':
+      return '⚠️ Not found'
+    default:
+      return '⚠️ Error'
+  }
+}
+
 export function OfflineDataLoader({ 
   url, 
   cacheKey, 
@@ -31,6 +47,7 @@ export function OfflineDataLoader({
   const [status, setStatus] = useState<LoadingStatus>({
     loading: true,
     error: null,
+    errorKind: null,
     fromCache: false,
     isStale: false,
     lastUpdated: null,
@@ -38,7 +55,7 @@ export function OfflineDataLoader({
   })
 
   const loadData = async (forceRefresh = false) => {
-    setStatus(prev => ({ ...prev, loading: true, error: null, offline: isOffline }))
+    setStatus(prev => ({ ...prev, loading: true, error: null, errorKind: null, offline: isOffline }))
 
     try {
       if (isOffline || forceRefresh === false) {
@@ -53,6 +70,7 @@ export function OfflineDataLoader({
           setStatus({
             loading: false,
             error: null,
+            errorKind: null,
             fromCache: true,
             isStale,
             lastUpdated: timestamp,
@@ -74,6 +92,7 @@ export function OfflineDataLoader({
         setStatus({
           loading: false,
           error: 'No cached data available offline',
+          errorKind: 'network',
           fromCache: false,
           isStale: false,
           lastUpdated: null,
@@ -82,10 +101,12 @@ export function OfflineDataLoader({
       }
     } catch (error) {
       console.error('Data loading error:', error)
+      const platformError = toPlatformError(error)
       setStatus(prev => ({
         ...prev,
         loading: false,
-        error: error instanceof Error ? error.message : 'Failed to load data'
+        error: platformError.message || 'Failed to load data',
+        errorKind: platformError.kind
       }))
     }
   }
@@ -93,6 +114,12 @@ export function OfflineDataLoader({
   const loadFreshData = async () => {
     try {
       const response = await offlineAwareFetch(url)
+      if (!response.ok) {
+        throw new ApiError(`HTTP ${response.status}: ${response.statusText}`, {
+          status: response.status,
+          statusText: response.statusText
+        })
+      }
       const freshData = await response.json()
       
       // Save to cache
@@ -103,6 +130,7 @@ export function OfflineDataLoader({
       setStatus({
         loading: false,
         error: null,
+        errorKind: null,
         fromCache: false,
         isStale: false,
         lastUpdated: new Date(),
@@ -112,11 +140,13 @@ export function OfflineDataLoader({
       // If fresh load fails but we have cached data, use that
       const cachedData = await getOfflineData(cacheKey, fallbackData)
       if (cachedData) {
+        const platformError = toPlatformError(error)
         setData(cachedData)
         setStatus(prev => ({
           ...prev,
           loading: false,
-          error: `Using cached data: ${error instanceof Error ? error.message : 'Network error'}`,
+          error: `Using cached data: ${platformError.message}`,
+          errorKind: platformError.kind,
           fromCache: true,
           isStale: true
         }))
@@ -158,7 +188,7 @@ export function OfflineDataLoader({
             }
           `}>
             {status.error && !status.fromCache ? (
-              '⚠️ Error'
+              errorLabel(status.errorKind)
             ) : status.fromCache ? (
               status.isStale ? '📱 Cached (stale)' : '📱 Cached'
             ) : (
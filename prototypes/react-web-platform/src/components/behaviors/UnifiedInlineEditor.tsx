@@ -1,6 +1,9 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { Button } from '../ui/Button'
 import { Plus, Minus, Shirt } from 'lucide-react'
+import { ValidationFailedError } from '../../core/entity/errors'
+import { canOverride } from '../../core/entity/validation'
+import type { UserContext } from '../../types/entity'
 
 interface UnifiedInlineEditorProps {
   value: string | number
@@ -13,6 +16,10 @@ interface UnifiedInlineEditorProps {
   min?: number
   max?: number
   validation?: (value: string | number) => { isValid: boolean; error?: string }
+  // Checks that need the server or other records (e.g. uniqueness) run once
+  // typing pauses; a newer value or leaving the editor aborts the pending one
+  asyncValidation?: (value: string | number, signal: AbortSignal) => Promise<{ isValid: boolean; error?: string; warning?: string }>
+  asyncValidationDelay?: number
   // Quantity-specific props
   showControls?: boolean
   controlsPosition?: 'inline' | 'around' | 'between'
@@ -21,6 +28,10 @@ interface UnifiedInlineEditorProps {
   // T-shirt button for zero values
   showTShirtButton?: boolean
   tshirtButtonSize?: 'sm' | 'md' | 'lg'
+  // Validation overrides: when a save fails only on rules this user may
+  // override, offer to save anyway with a reason
+  user?: UserContext
+  onOverrideSave?: (newValue: string | number, reason: string) => Promise<void>
 }
 
 export function UnifiedInlineEditor({ 
@@ -34,17 +45,25 @@ export function UnifiedInlineEditor({
   min,
   max,
   validation,
+  asyncValidation,
+  asyncValidationDelay = 300,
   showControls = false,
   controlsPosition = 'around',
   onIncrement,
   onDecrement,
   showTShirtButton = false,
-  tshirtButtonSize = 'md'
+  tshirtButtonSize = 'md',
+  user,
+  onOverrideSave
 }: UnifiedInlineEditorProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editValue, setEditValue] = useState(String(value))
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [overrideValue, setOverrideValue] = useState<string | number | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [warning, setWarning] = useState<string | null>(null)
+  const checkRef = useRef<AbortController | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
   // Professional responsive sizing system for DataTable consistency
@@ -81,6 +100,7 @@ export function UnifiedInlineEditor({
   useEffect(() => {
     setEditValue(String(value))
     setError(null)
+    setOverrideValue(null)
   }, [value])
 
   // Focus input when entering edit mode
@@ -124,8 +144,54 @@ export function UnifiedInlineEditor({
     }
   }, [type, min, max, maxLength])
 
+  const cancelCheck = useCallback(() => {
+    checkRef.current?.abort()
+    checkRef.current = null
+    setIsChecking(false)
+  }, [])
+
+  // Run the async check once typing pauses
+  useEffect(() => {
+    if (!isEditing || !asyncValidation || editValue === String(value)) {
+      setWarning(null)
+      return
+    }
+
+    const timer = setTimeout(() => {
+      const parsed = validateValue(editValue)
+      if (!parsed.isValid) return
+
+      checkRef.current?.abort()
+      const controller = new AbortController()
+      checkRef.current = controller
+      setIsChecking(true)
+      asyncValidation(parsed.parsedValue!, controller.signal)
+        .then(result => {
+          if (controller.signal.aborted) return
+          setError(result.isValid ? null : result.error || 'Invalid value')
+          setWarning(result.warning ?? null)
+        })
+        .catch(err => {
+          if (!controller.signal.aborted) console.error('Async validation failed:', err)
+        })
+        .finally(() => {
+          if (checkRef.current === controller) {
+            checkRef.current = null
+            setIsChecking(false)
+          }
+        })
+    }, asyncValidationDelay)
+
+    return () => {
+      clearTimeout(timer)
+      cancelCheck()
+    }
+  }, [isEditing, editValue, value, asyncValidation, asyncValidationDelay, validateValue, cancelCheck])
+
   const handleSave = useCallback(async () => {
     if (isSaving) return
+    // The save runs the same checks itself
+    cancelCheck()
 
     const validationResult = validateValue(editValue)
     
@@ -154,20 +220,50 @@ export function UnifiedInlineEditor({
 
     setIsSaving(true)
     setError(null)
+    setOverrideValue(null)
 
     try {
       await onSave(newValue)
       setIsEditing(false)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Save failed')
+      if (
+        onOverrideSave &&
+        err instanceof ValidationFailedError &&
+        err.isOverridable &&
+        err.errors.every(validationError => canOverride(validationError, user))
+      ) {
+        setOverrideValue(newValue)
+      }
     } finally {
       setIsSaving(false)
     }
-  }, [editValue, value, onSave, validateValue, validation, isSaving, type])
+  }, [editValue, value, onSave, validateValue, validation, isSaving, type, onOverrideSave, user, cancelCheck])
+
+  const handleOverride = useCallback(async () => {
+    if (overrideValue === null || !onOverrideSave) return
+
+    const reason = window.prompt('Reason for overriding validation')?.trim()
+    if (!reason) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      await onOverrideSave(overrideValue, reason)
+      setOverrideValue(null)
+      setIsEditing(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed')
+    } finally {
+      setIsSaving(false)
+    }
+  }, [overrideValue, onOverrideSave])
 
   const handleCancel = useCallback(() => {
     setEditValue(String(value))
     setError(null)
+    setOverrideValue(null)
     setIsEditing(false)
   }, [value])
 
@@ -193,6 +289,7 @@ export function UnifiedInlineEditor({
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setEditValue(e.target.value)
     setError(null)
+    setOverrideValue(null)
   }, [])
 
   const handleBlur = useCallback(() => {
@@ -289,8 +386,26 @@ export function UnifiedInlineEditor({
         {error && (
           <div className="absolute top-full left-0 z-10 mt-1 px-2 py-1 text-xs text-white bg-red-500 rounded shadow-lg whitespace-nowrap">
             {error}
+            {overrideValue !== null && (
+              <button
+                type="button"
+                className="ml-2 underline font-semibold"
+                onMouseDown={e => e.preventDefault()}
+                onClick={handleOverride}
+              >
+                Override and save
+              </button>
+            )}
           </div>
         )}
+        {!error && warning && (
+          <div className="absolute top-full left-0 z-10 mt-1 px-2 py-1 text-xs text-amber-900 bg-amber-100 rounded shadow-lg whitespace-nowrap">
+            {warning}
+          </div>
+        )}
+        {isChecking && !isSaving && (
+          <div className="absolute right-1 top-1/2 -translate-y-1/2 w-2.5 h-2.5 border border-muted-foreground border-t-transparent rounded-full animate-spin" title="Checking..."></div>
+        )}
         {isSaving && (
           <div className="absolute inset-0 flex items-center justify-center">
             <div className="w-3 h-3 border border-blue-500 border-t-transparent rounded-full animate-spin"></div>
@@ -10,8 +10,11 @@ import type {
   QueryParams, 
   PaginatedResponse, 
   FilterConfig, 
+  FilterExpression,
   CacheConfig 
 } from '../../types/entity';
+import { applyFilterExpression, normalizeFilters } from '../entity/filters';
+import { AdapterError, NotFoundError } from '../errors';
 
 export class AlphaVantageAdapter extends BaseDataAdapter<StockData> {
   name = 'Alpha Vantage Stock Data';
@@ -79,8 +82,9 @@ export class AlphaVantageAdapter extends BaseDataAdapter<StockData> {
     }
 
     // Apply additional filters
-    if (params.filters && params.filters.length > 0) {
-      filteredStocks = this.applyFilters(filteredStocks, params.filters);
+    const filterExpression = normalizeFilters(params.filters, params.where);
+    if (filterExpression) {
+      filteredStocks = this.applyFilters(filteredStocks, filterExpression);
     }
 
     // Apply sorting
@@ -130,16 +134,20 @@ export class AlphaVantageAdapter extends BaseDataAdapter<StockData> {
       const data = await rawResponse.json() as any; // API can return various shapes
 
       if (data['Error Message']) {
-        throw new Error(`Alpha Vantage API Error: ${data['Error Message']}`);
+        throw new AdapterError(`Alpha Vantage API Error: ${data['Error Message']}`, { adapter: this.name });
       }
 
       if (data['Note']) {
-        throw new Error('API rate limit exceeded. Please try again later.');
+        throw new AdapterError('API rate limit exceeded. Please try again later.', {
+          adapter: this.name,
+          code: 'RATE_LIMITED',
+          retryable: true
+        });
       }
 
       const quote = data['Global Quote'];
       if (!quote || Object.keys(quote).length === 0) {
-        throw new Error(`No data available for symbol: ${symbol}`);
+        throw new NotFoundError(`No data available for symbol: ${symbol}`, { resource: 'symbol', id: symbol });
       }
 
       const stockData: StockData = {
@@ -169,15 +177,15 @@ export class AlphaVantageAdapter extends BaseDataAdapter<StockData> {
   }
 
   async create(): Promise<StockData> {
-    throw new Error('Creating stock data is not supported');
+    throw new AdapterError('Creating stock data is not supported', { adapter: this.name, code: 'UNSUPPORTED' });
   }
 
   async update(): Promise<StockData> {
-    throw new Error('Updating stock data is not supported');
+    throw new AdapterError('Updating stock data is not supported', { adapter: this.name, code: 'UNSUPPORTED' });
   }
 
   async delete(): Promise<void> {
-    throw new Error('Deleting stock data is not supported');
+    throw new AdapterError('Deleting stock data is not supported', { adapter: this.name, code: 'UNSUPPORTED' });
   }
 
   async search(query: string, filters: FilterConfig[] = []): Promise<StockData[]> {
@@ -454,13 +462,8 @@ export class AlphaVantageAdapter extends BaseDataAdapter<StockData> {
 
   // Private helper methods
 
-  private applyFilters(stocks: StockData[], filters: FilterConfig[]): StockData[] {
-    return stocks.filter(stock => {
-      return filters.every(filter => {
-        const value = (stock as any)[filter.field];
-        return this.evaluateFilter(value, filter);
-      });
-    });
+  private applyFilters(stocks: StockData[], filters: FilterExpression | FilterConfig[]): StockData[] {
+    return applyFilterExpression(stocks, filters);
   }
 
   private applySort(stocks: StockData[], sortConfigs: any[]): StockData[] {
@@ -485,20 +488,6 @@ export class AlphaVantageAdapter extends BaseDataAdapter<StockData> {
     });
   }
 
-  private evaluateFilter(value: any, filter: FilterConfig): boolean {
-    switch (filter.operator) {
-      case 'eq': return value === filter.value;
-      case 'ne': return value !== filter.value;
-      case 'gt': return Number(value) > Number(filter.value);
-      case 'gte': return Number(value) >= Number(filter.value);
-      case 'lt': return Number(value) < Number(filter.value);
-      case 'lte': return Number(value) <= Number(filter.value);
-      case 'in': return Array.isArray(filter.value) && filter.value.includes(value);
-      case 'contains': return String(value).toLowerCase().includes(String(filter.value).toLowerCase());
-      default: return true;
-    }
-  }
-
   private getCompanyName(symbol: string): string {
     // Simple lookup for demo purposes
     const companyNames: Record<string, string> = {
@@ -14,6 +14,10 @@ import type {
   FilterConfig, 
   CacheConfig 
 } from '../../types/entity';
+import { ApiError, toPlatformError } from '../errors';
+import type { PlatformError } from '../errors';
+
+export { ApiError };
 
 export abstract class BaseDataAdapter<T = any> implements DataAdapter<T> {
   abstract name: string;
@@ -105,7 +109,7 @@ export abstract class BaseDataAdapter<T = any> implements DataAdapter<T> {
       signal: AbortSignal.timeout(this.config.timeout || 10000),
     };
 
-    let lastError: Error | null = null;
+    let lastError: PlatformError | null = null;
     const maxRetries = this.config.retries || 3;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -118,9 +122,9 @@ export abstract class BaseDataAdapter<T = any> implements DataAdapter<T> {
           throw new ApiError(
             `HTTP ${response.status}: ${response.statusText}. ${errorText}`,
             {
+              adapter: this.name,
               status: response.status,
               statusText: response.statusText,
-              retryable: response.status >= 500 || response.status === 429,
             }
           );
         }
@@ -139,10 +143,10 @@ export abstract class BaseDataAdapter<T = any> implements DataAdapter<T> {
           },
         };
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+        lastError = toPlatformError(error);
         
         // Don't retry if it's not a retryable error
-        if (error instanceof ApiError && !error.retryable) {
+        if (!lastError.retryable) {
           break;
         }
 
@@ -157,7 +161,7 @@ export abstract class BaseDataAdapter<T = any> implements DataAdapter<T> {
       }
     }
 
-    throw lastError || new Error('Request failed after all retries');
+    throw lastError || new ApiError('Request failed after all retries', { adapter: this.name });
   }
 
   protected getCacheKey(method: string, params: any = {}): string {
@@ -214,18 +218,3 @@ export abstract class BaseDataAdapter<T = any> implements DataAdapter<T> {
     return undefined;
   }
 }
-
-// Custom API Error class
-class ApiError extends Error {
-  public status?: number;
-  public statusText?: string;
-  public code?: string;
-  public details?: any;
-  public retryable?: boolean;
-
-  constructor(message: string, options: Partial<ApiError> = {}) {
-    super(message);
-    this.name = 'ApiError';
-    Object.assign(this, options);
-  }
-}
\ No newline at end of file
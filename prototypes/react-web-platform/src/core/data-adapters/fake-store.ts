@@ -1,3 +1,5 @@
+import { AdapterError, ApiError, toPlatformError } from '../errors'
+
 // Inline all types to bypass cache issues
 interface FakeStoreProduct {
   id: number;
@@ -68,12 +70,22 @@ export class FakeStoreAdapter {
   async getProducts(): Promise<ProductData[]> {
     try {
       const response = await fetch(`${this.baseUrl}/products`)
+      if (!response.ok) {
+        throw new ApiError(`HTTP ${response.status}: ${response.statusText}`, {
+          adapter: 'fakestore',
+          status: response.status,
+          statusText: response.statusText
+        })
+      }
       const products: FakeStoreProduct[] = await response.json()
       
       return products.map(this.transformProduct)
     } catch (error) {
       console.error('Error fetching products:', error)
-      throw new Error('Failed to fetch products')
+      const platformError = toPlatformError(error)
+      throw platformError.kind === 'internal'
+        ? new AdapterError('Failed to fetch products', { adapter: 'fakestore', cause: error })
+        : platformError
     }
   }
 
@@ -1,4 +1,5 @@
 import { JsonPlaceholderUser } from '../../types/api'
+import { AdapterError, ApiError, toPlatformError } from '../errors'
 
 type User = JsonPlaceholderUser
 
@@ -8,6 +9,13 @@ export class JSONPlaceholderAdapter {
   async getUsers(): Promise<User[]> {
     try {
       const response = await fetch(`${this.baseUrl}/users`)
+      if (!response.ok) {
+        throw new ApiError(`HTTP ${response.status}: ${response.statusText}`, {
+          adapter: 'jsonplaceholder',
+          status: response.status,
+          statusText: response.statusText
+        })
+      }
       const users = await response.json()
       
       return users.map((user: any) => ({
@@ -35,7 +43,10 @@ export class JSONPlaceholderAdapter {
       }))
     } catch (error) {
       console.error('Error fetching users:', error)
-      throw new Error('Failed to fetch users')
+      const platformError = toPlatformError(error)
+      throw platformError.kind === 'internal'
+        ? new AdapterError('Failed to fetch users', { adapter: 'jsonplaceholder', cause: error })
+        : platformError
     }
   }
 
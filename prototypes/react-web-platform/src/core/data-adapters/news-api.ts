@@ -12,8 +12,11 @@ import type {
   QueryParams, 
   PaginatedResponse, 
   FilterConfig, 
+  FilterExpression,
   CacheConfig 
 } from '../../types/entity';
+import { applyFilterExpression, normalizeFilters } from '../entity/filters';
+import { AdapterError } from '../errors';
 
 export class NewsApiAdapter extends BaseDataAdapter<NewsData> {
   name = 'NewsAPI';
@@ -99,8 +102,9 @@ export class NewsApiAdapter extends BaseDataAdapter<NewsData> {
 
       // Apply additional filtering
       let filteredArticles = newsArticles;
-      if (params.filters && params.filters.length > 0) {
-        filteredArticles = this.applyFilters(filteredArticles, params.filters);
+      const filterExpression = normalizeFilters(params.filters, params.where);
+      if (filterExpression) {
+        filteredArticles = this.applyFilters(filteredArticles, filterExpression);
       }
 
       // Apply sorting
@@ -151,15 +155,15 @@ export class NewsApiAdapter extends BaseDataAdapter<NewsData> {
   }
 
   async create(): Promise<NewsData> {
-    throw new Error('Creating news articles is not supported');
+    throw new AdapterError('Creating news articles is not supported', { adapter: this.name, code: 'UNSUPPORTED' });
   }
 
   async update(): Promise<NewsData> {
-    throw new Error('Updating news articles is not supported');
+    throw new AdapterError('Updating news articles is not supported', { adapter: this.name, code: 'UNSUPPORTED' });
   }
 
   async delete(): Promise<void> {
-    throw new Error('Deleting news articles is not supported');
+    throw new AdapterError('Deleting news articles is not supported', { adapter: this.name, code: 'UNSUPPORTED' });
   }
 
   async search(query: string, filters: FilterConfig[] = []): Promise<NewsData[]> {
@@ -437,13 +441,8 @@ export class NewsApiAdapter extends BaseDataAdapter<NewsData> {
     return commonTags.filter(tag => lowerText.includes(tag));
   }
 
-  private applyFilters(articles: NewsData[], filters: FilterConfig[]): NewsData[] {
-    return articles.filter(article => {
-      return filters.every(filter => {
-        const value = (article as any)[filter.field];
-        return this.evaluateFilter(value, filter);
-      });
-    });
+  private applyFilters(articles: NewsData[], filters: FilterExpression | FilterConfig[]): NewsData[] {
+    return applyFilterExpression(articles, filters);
   }
 
   private applySort(articles: NewsData[], sortConfigs: any[]): NewsData[] {
@@ -470,20 +469,6 @@ export class NewsApiAdapter extends BaseDataAdapter<NewsData> {
     });
   }
 
-  private evaluateFilter(value: any, filter: FilterConfig): boolean {
-    switch (filter.operator) {
-      case 'eq': return value === filter.value;
-      case 'ne': return value !== filter.value;
-      case 'gt': return Number(value) > Number(filter.value);
-      case 'gte': return Number(value) >= Number(filter.value);
-      case 'lt': return Number(value) < Number(filter.value);
-      case 'lte': return Number(value) <= Number(filter.value);
-      case 'in': return Array.isArray(filter.value) && filter.value.includes(value);
-      case 'contains': return String(value).toLowerCase().includes(String(filter.value).toLowerCase());
-      default: return true;
-    }
-  }
-
   private getMockNewsResponse(params: QueryParams): PaginatedResponse<NewsData> {
     const mockArticles = this.generateMockNews();
     const page = params.page || 1;
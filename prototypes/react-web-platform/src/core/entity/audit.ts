@@ -0,0 +1,140 @@
+// Audit Trail for Entity Engine
+
+import type { AuditEntry, AuditQuery, FieldChange, RecordData } from '../../types/entity';
+import type { StorageProvider } from './storage';
+import type { RecordChange } from './transaction';
+
+export const AUDIT_COLLECTION = 'audit';
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field-level differences between two data snapshots
+ */
+export function diffRecordData(
+  before: RecordData | null | undefined,
+  after: RecordData | null | undefined
+): FieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: FieldChange[] = [];
+
+  for (const field of fields) {
+    const previous = before?.[field];
+    const next = after?.[field];
+    if (!sameValue(previous, next)) {
+      changes.push({ field, before: previous, after: next });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Append-only history of committed record changes, one entry per version
+ */
+export class AuditLog {
+  private storage: StorageProvider;
+  private byRecord: Map<string, AuditEntry[]> = new Map();
+
+  constructor(storage: StorageProvider) {
+    this.storage = storage;
+  }
+
+  /**
+   * Load persisted entries from the storage provider
+   */
+  async load(): Promise<void> {
+    const entries = await this.storage.loadSystemEntries<AuditEntry>(AUDIT_COLLECTION);
+    this.byRecord.clear();
+
+    entries
+      .map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .forEach(entry => this.add(entry));
+  }
+
+  /**
+   * Record a committed change and write it through to storage
+   */
+  async append(change: RecordChange): Promise<AuditEntry> {
+    const history = this.byRecord.get(this.key(change.entity, change.id)) ?? [];
+
+    const record = (change.after ?? change.before ?? change.trashed)!;
+    const entry: AuditEntry = {
+      id: `${change.entity}:${change.id}:${history.length + 1}`,
+      entity: change.entity,
+      recordId: change.id,
+      action: change.type === 'create' && change.trashed ? 'restore' : change.type,
+      version: record.version ?? 1,
+      data: change.after ? { ...change.after.data } : null,
+      changes: diffRecordData(change.before?.data, change.after?.data),
+      userId: change.userId,
+      reason: change.reason,
+      timestamp: change.after?.updatedAt ?? change.trashed?.deletedAt ?? new Date()
+    };
+
+    this.add(entry);
+    await this.storage.putSystemEntry(AUDIT_COLLECTION, entry.id, entry);
+    return entry;
+  }
+
+  /**
+   * Entries for one record, oldest first
+   */
+  getRecordHistory(entityName: string, recordId: string): AuditEntry[] {
+    return [...(this.byRecord.get(this.key(entityName, recordId)) ?? [])];
+  }
+
+  /**
+   * Entries matching a query, oldest first. `limit` keeps the most recent.
+   */
+  query(query: Omit<AuditQuery, 'user'>): AuditEntry[] {
+    const source = query.entity && query.recordId
+      ? this.getRecordHistory(query.entity, query.recordId)
+      : Array.from(this.byRecord.values()).flat();
+
+    const entries = source
+      .filter(entry =>
+        (!query.entity || entry.entity === query.entity) &&
+        (!query.recordId || entry.recordId === query.recordId) &&
+        (!query.userId || entry.userId === query.userId) &&
+        (!query.actions || query.actions.includes(entry.action)) &&
+        (!query.from || entry.timestamp >= query.from) &&
+        (!query.to || entry.timestamp <= query.to)
+      )
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return query.limit !== undefined ? entries.slice(-query.limit) : entries;
+  }
+
+  /**
+   * The entry that produced a given version of a record
+   */
+  getVersion(entityName: string, recordId: string, version: number): AuditEntry | undefined {
+    return this.getRecordHistory(entityName, recordId)
+      .filter(entry => entry.version === version && entry.data !== null)
+      .pop();
+  }
+
+  /**
+   * The latest entry at or before a point in time
+   */
+  getAsOf(entityName: string, recordId: string, date: Date): AuditEntry | undefined {
+    return this.getRecordHistory(entityName, recordId)
+      .filter(entry => entry.timestamp <= date)
+      .pop();
+  }
+
+  private add(entry: AuditEntry): void {
+    const key = this.key(entry.entity, entry.recordId);
+    if (!this.byRecord.has(key)) {
+      this.byRecord.set(key, []);
+    }
+    this.byRecord.get(key)!.push(entry);
+  }
+
+  private key(entityName: string, recordId: string): string {
+    return `${entityName}:${recordId}`;
+  }
+}
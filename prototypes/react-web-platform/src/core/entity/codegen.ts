@@ -0,0 +1,76 @@
+// TypeScript Codegen for Entity Engine
+//
+// Turns entity definitions into record interfaces. `npm run codegen` (also
+// run by `npm run build`) writes them to src/types/entities.generated.ts,
+// so hand-written types that extend them stop compiling when a definition
+// changes underneath them.
+
+import type { EntityDefinition, FieldDefinition } from '../../types/entity';
+
+const toPascalCase = (name: string) =>
+  name.split(/[^a-zA-Z0-9]+/).filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+
+/**
+ * Interface name for an entity's record data, e.g. gita_student → GitaStudentRecord
+ */
+export function getRecordTypeName(definition: EntityDefinition): string {
+  return `${toPascalCase(definition.name)}Record`;
+}
+
+const literal = (value: string | number) =>
+  typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(value);
+
+function fieldType(field: FieldDefinition): string {
+  const values = field.displayOptions.options?.map(option => literal(option.value)).join(' | ');
+
+  switch (field.type) {
+    case 'text':
+    case 'richtext':
+    case 'email':
+    case 'phone':
+    case 'url':
+      return 'string';
+    case 'number':
+    case 'currency':
+    case 'percentage':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'date':
+    case 'datetime':
+      return 'Date | string';
+    case 'select':
+      return values || 'string | number';
+    case 'multiselect':
+      return `Array<${values || 'string | number'}>`;
+    default:
+      return 'unknown';
+  }
+}
+
+const propertyName = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+
+export function generateRecordInterface(definition: EntityDefinition): string {
+  const lines = definition.fields.flatMap(field => [
+    `  /** ${field.displayName}${field.description ? ` - ${field.description}` : ''} */`,
+    `  ${propertyName(field.name)}${field.required ? '' : '?'}: ${fieldType(field)};`
+  ]);
+  return [`/** ${definition.displayName} */`, `export interface ${getRecordTypeName(definition)} {`, ...lines, '}'].join('\n');
+}
+
+/**
+ * Source of a module with a record interface per definition and a map
+ * from entity name to interface
+ */
+export function generateEntityTypes(definitions: EntityDefinition[]): string {
+  const sorted = [...definitions].sort((a, b) => a.name.localeCompare(b.name));
+  return [
+    '// Generated by `npm run codegen` from src/domains/entities.ts. Do not edit.',
+    '',
+    ...sorted.map(definition => generateRecordInterface(definition) + '\n'),
+    'export interface EntityRecordMap {',
+    ...sorted.map(definition => `  ${propertyName(definition.name)}: ${getRecordTypeName(definition)};`),
+    '}',
+    ''
+  ].join('\n');
+}
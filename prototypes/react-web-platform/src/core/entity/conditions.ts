@@ -0,0 +1,109 @@
+// Rule Conditions for Entity Engine
+//
+// Custom validation conditions, ConditionDefinitions and business rule
+// conditions all run through the expression language in expression.ts.
+// Expressions see the record's fields plus `user.*` (id, roles and
+// attributes of the acting user).
+
+import type {
+  ConditionDefinition,
+  RecordData,
+  UserContext,
+  ValidationError
+} from '../../types/entity';
+import { compileExpression, createRecordScope } from './expression';
+import type { ExpressionScope, ExpressionSyntaxError } from './expression';
+import { evaluateFilterCondition } from './filters';
+
+/**
+ * Scope over record data, the acting user and any extra names (such as
+ * `value` for field rules). Extra names shadow fields, `user.` paths read
+ * the user context.
+ */
+export function createConditionScope(
+  data: RecordData,
+  user?: UserContext,
+  extra: Record<string, unknown> = {}
+): ExpressionScope {
+  const record = createRecordScope(data);
+  const userValues: Record<string, unknown> = user
+    ? { ...user.attributes, id: user.id, roles: user.roles, attributes: user.attributes ?? {} }
+    : {};
+
+  return name => {
+    if (name in extra) return extra[name];
+    if (name === 'user') return user ?? null;
+    if (name.startsWith('user.') && !(name in data)) {
+      return name.slice(5).split('.').reduce<unknown>(
+        (value, key) => value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+        userValues
+      );
+    }
+    return record(name);
+  };
+}
+
+/**
+ * Evaluate an expression as a condition. Throws ExpressionSyntaxError for
+ * invalid source and ExpressionEvaluationError for runtime failures.
+ */
+export function evaluateConditionExpression(source: string, scope: ExpressionScope): boolean {
+  return Boolean(compileExpression(source).evaluate(scope));
+}
+
+/**
+ * The value a ConditionDefinition compares against, by `valueType`
+ */
+export function resolveConditionValue(condition: ConditionDefinition, scope: ExpressionScope): unknown {
+  switch (condition.valueType) {
+    case 'field':
+      return scope(String(condition.value));
+    case 'user':
+      return scope(`user.${condition.value}`);
+    case 'function':
+      return compileExpression(String(condition.value)).evaluate(scope);
+    default:
+      return condition.value;
+  }
+}
+
+/**
+ * Evaluate ConditionDefinitions the way `normalizeFilters` groups flat
+ * filters: a condition with `logicalOperator: 'or'` starts a new OR branch
+ * and the conditions within a branch are ANDed, so `A or B and C` means
+ * `A OR (B AND C)`. Values are resolved only for conditions that are reached.
+ */
+export function evaluateConditions(
+  conditions: ConditionDefinition[],
+  data: RecordData,
+  user?: UserContext
+): boolean {
+  const scope = createConditionScope(data, user);
+  const matches = (condition: ConditionDefinition) => evaluateFilterCondition(data[condition.field], {
+    field: condition.field,
+    operator: condition.operator,
+    value: resolveConditionValue(condition, scope)
+  });
+
+  const branches: ConditionDefinition[][] = [[]];
+  conditions.forEach((condition, index) => {
+    if (index > 0 && condition.logicalOperator === 'or') {
+      branches.push([]);
+    }
+    branches[branches.length - 1].push(condition);
+  });
+
+  return branches.some(branch => branch.every(matches));
+}
+
+/**
+ * Report an invalid expression as a validation error instead of throwing
+ */
+export function toExpressionError(error: ExpressionSyntaxError, field: string): ValidationError {
+  return {
+    field,
+    message: `Invalid expression "${error.expression}": ${error.message}`,
+    code: 'INVALID_EXPRESSION',
+    value: error.expression
+  };
+}
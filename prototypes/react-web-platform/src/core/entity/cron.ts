@@ -0,0 +1,175 @@
+// Cron Expressions for Entity Engine
+//
+// Standard five-field expressions in local time:
+//   minute hour day-of-month month day-of-week
+// Each field accepts `*`, numbers, lists (1,15), ranges (1-5) and steps
+// (*/15, 9-17/2). Day-of-week runs 0-6 from Sunday (7 also means Sunday).
+// Aliases: @hourly, @daily (@midnight, @nightly), @weekly, @monthly, @yearly.
+
+import { ConfigurationError } from './errors';
+
+export interface CronSchedule {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /**
+   * Neither day field starts with `*` (a stepped `*` still counts as
+   * unrestricted): a day matches if either does, as in classic cron
+   */
+  dayOr: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@nightly': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+const FIELD_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+// Searching minute by minute, no valid schedule needs more than a few years
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+// One list item: `*` or a number or range, optionally with a step
+const FIELD_PART = /^(?:\*|\d+(?:-\d+)?)(?:\/\d+)?$/;
+
+function parseField(text: string, [min, max]: [number, number], source: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    // Empty items (`1,,5`, a trailing comma) would otherwise read as 0
+    if (!FIELD_PART.test(part)) {
+      throw new ConfigurationError(`Invalid cron field "${text}" in "${source}"`);
+    }
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let [start, end] = [min, max];
+
+    if (range !== '*') {
+      const bounds = range.split('-').map(Number);
+      start = bounds[0];
+      end = bounds.length > 1 ? bounds[1] : (stepText === undefined ? start : max);
+    }
+
+    if ([start, end, step].some(value => !Number.isInteger(value)) || step < 1 || start < min || end > max || start > end) {
+      throw new ConfigurationError(`Invalid cron field "${text}" in "${source}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws on invalid syntax.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const source = expression.trim();
+  const fields = (ALIASES[source.toLowerCase()] ?? source).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ConfigurationError(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => parseField(field, FIELD_RANGES[index], source)
+  );
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOr: !fields[2].startsWith('*') && !fields[4].startsWith('*')
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  return schedule.dayOr ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First time strictly after `after` that the schedule fires
+ */
+export function getNextRun(schedule: CronSchedule | string, after: Date): Date {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!cron.months.has(candidate.getMonth() + 1) || !matchesDay(cron, candidate)) {
+      // Skip to the start of the next day
+      candidate.setHours(24, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (cron.minutes.has(candidate.getMinutes())) {
+      return candidate;
+    }
+    candidate.setMinutes(candidate.getMinutes() + 1);
+  }
+
+  throw new ConfigurationError(`Cron expression "${cron.source}" never fires`);
+}
+
+/**
+ * Last time at or before `at` that the schedule fires
+ */
+export function getPreviousRun(schedule: CronSchedule | string, at: Date): Date {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const candidate = new Date(at.getTime());
+  candidate.setSeconds(0, 0);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!cron.months.has(candidate.getMonth() + 1) || !matchesDay(cron, candidate)) {
+      // Back to the last minute of the previous day
+      candidate.setHours(0, -1, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getHours())) {
+      candidate.setMinutes(-1, 0, 0);
+      continue;
+    }
+    if (cron.minutes.has(candidate.getMinutes())) {
+      return candidate;
+    }
+    candidate.setMinutes(candidate.getMinutes() - 1);
+  }
+
+  throw new ConfigurationError(`Cron expression "${cron.source}" never fires`);
+}
+
+/**
+ * Every fire time in (from, to], oldest first, up to `limit`
+ */
+export function getRunsBetween(schedule: CronSchedule | string, from: Date, to: Date, limit: number = 100): Date[] {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const runs: Date[] = [];
+  let next = getNextRun(cron, from);
+
+  while (next <= to && runs.length < limit) {
+    runs.push(next);
+    next = getNextRun(cron, next);
+  }
+
+  return runs;
+}
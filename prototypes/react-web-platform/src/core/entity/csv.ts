@@ -0,0 +1,437 @@
+// CSV Import/Export for Entity Engine
+//
+// An RFC 4180 reader and writer: quoted fields may contain the delimiter,
+// doubled quotes and line breaks, and rows end in CRLF, LF or CR. The
+// reader is incremental, so files can be parsed chunk by chunk as they are
+// read. On top of it, entity CSV maps header cells to fields by `name` or
+// `displayName` and converts cells to and from each field's type so that
+// dates, numbers, booleans and multiselects survive a round trip.
+
+import type { EntityDefinition, EntityRecord, FieldDefinition, RecordData, ValidationError } from '../../types/entity';
+import { ConfigurationError, CsvParseError } from './errors';
+
+export interface CsvOptions {
+  /** Single character between fields (default ',') */
+  delimiter?: string;
+}
+
+export interface CsvReadOptions extends CsvOptions {
+  /** Encoding of byte input, any label TextDecoder accepts (default 'utf-8') */
+  encoding?: string;
+}
+
+export interface CsvWriteOptions extends CsvOptions {
+  /** Header cells from field names or display names (default 'displayName') */
+  headers?: 'name' | 'displayName';
+  /** Start with a byte order mark, which Excel needs to detect UTF-8 */
+  bom?: boolean;
+}
+
+export type CsvSource =
+  | string
+  | ReadableStream<Uint8Array | string>
+  | AsyncIterable<Uint8Array | string>;
+
+export interface CsvRow {
+  line: number; // Line the row starts on, 1-based
+  values: string[];
+}
+
+const QUOTE = '"';
+// Spreadsheet apps run cells starting with one of these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const BOM = '\uFEFF';
+
+function getDelimiter(options: CsvOptions): string {
+  const delimiter = options.delimiter ?? ',';
+  if (delimiter.length !== 1 || delimiter === QUOTE || delimiter === '\r' || delimiter === '\n') {
+    throw new ConfigurationError(`Invalid CSV delimiter: ${JSON.stringify(delimiter)}`);
+  }
+  return delimiter;
+}
+
+/**
+ * Incremental RFC 4180 parser. `push` returns the rows completed by a
+ * chunk, `end` the last row. Blank lines are skipped; a stray quote inside
+ * an unquoted field is kept as text.
+ */
+export class CsvParser {
+  private delimiter: string;
+  private row: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private afterQuote = false; // Just closed a quoted field; a second quote is an escaped one
+  private quoted = false;
+  private skipLF = false;
+  private started = false;
+  private line = 1;
+  private rowLine = 1;
+
+  constructor(options: CsvOptions = {}) {
+    this.delimiter = getDelimiter(options);
+  }
+
+  push(chunk: string): CsvRow[] {
+    const rows: CsvRow[] = [];
+    let text = chunk;
+    if (!this.started) {
+      this.started = true;
+      if (text.startsWith(BOM)) text = text.slice(1);
+    }
+
+    for (const char of text) {
+      const skipLF = this.skipLF;
+      this.skipLF = false;
+
+      if (this.inQuotes) {
+        if (char === QUOTE) {
+          this.inQuotes = false;
+          this.afterQuote = true;
+        } else {
+          if (char === '\r' || char === '\n') this.countLineBreak(char, skipLF);
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === QUOTE) {
+        if (this.afterQuote) {
+          this.field += QUOTE;
+          this.inQuotes = true;
+          this.afterQuote = false;
+        } else if (this.field === '' && !this.quoted) {
+          this.inQuotes = true;
+          this.quoted = true;
+        } else {
+          this.field += char;
+        }
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\n' && skipLF) continue;
+        this.countLineBreak(char, skipLF);
+        const row = this.endRow();
+        if (row) rows.push(row);
+      } else {
+        this.afterQuote = false;
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  end(): CsvRow[] {
+    if (this.inQuotes) {
+      throw new CsvParseError('Quoted field is never closed', this.rowLine);
+    }
+    const row = this.endRow();
+    return row ? [row] : [];
+  }
+
+  private countLineBreak(char: string, skipLF: boolean): void {
+    if (char === '\r') {
+      this.skipLF = true;
+      this.line++;
+    } else if (!skipLF) {
+      this.line++;
+    }
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = '';
+    this.quoted = false;
+    this.afterQuote = false;
+  }
+
+  private endRow(): CsvRow | null {
+    const blank = this.row.length === 0 && this.field === '' && !this.quoted;
+    this.endField();
+    const row = { line: this.rowLine, values: this.row };
+    this.row = [];
+    this.rowLine = this.line;
+    return blank ? null : row;
+  }
+}
+
+/**
+ * Rows of a CSV document
+ */
+export function parseCsv(text: string, options: CsvOptions = {}): string[][] {
+  const parser = new CsvParser(options);
+  return [...parser.push(text), ...parser.end()].map(row => row.values);
+}
+
+async function* readChunks(source: Exclude<CsvSource, string>, encoding: string): AsyncGenerator<string> {
+  const decoder = new TextDecoder(encoding);
+  const decode = (chunk: Uint8Array | string) =>
+    typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+  if ('getReader' in source) {
+    const reader = source.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield decode(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    for await (const chunk of source) {
+      yield decode(chunk);
+    }
+  }
+  yield decoder.decode();
+}
+
+/**
+ * Rows of a CSV document as they are read, e.g. from `file.stream()`
+ */
+export async function* parseCsvStream(source: CsvSource, options: CsvReadOptions = {}): AsyncGenerator<CsvRow> {
+  const parser = new CsvParser(options);
+  if (typeof source === 'string') {
+    yield* parser.push(source);
+  } else {
+    for await (const chunk of readChunks(source, options.encoding ?? 'utf-8')) {
+      yield* parser.push(chunk);
+    }
+  }
+  yield* parser.end();
+}
+
+/**
+ * One CSV field, quoted when it contains the delimiter, a quote or a line
+ * break. Text a spreadsheet would run as a formula gets a leading `'`;
+ * numbers such as -5 are written as they are.
+ */
+export function formatCsvField(value: string, delimiter = ','): string {
+  const text = FORMULA_PREFIX.test(value) && isNaN(Number(value)) ? `'${value}` : value;
+  return text.includes(delimiter) || text.includes(QUOTE) || text.includes('\n') || text.includes('\r')
+    ? `${QUOTE}${text.replace(/"/g, '""')}${QUOTE}`
+    : text;
+}
+
+/**
+ * One CSV row including its CRLF line break
+ */
+export function formatCsvRow(values: string[], options: CsvOptions = {}): string {
+  const delimiter = getDelimiter(options);
+  return values.map(value => formatCsvField(value, delimiter)).join(delimiter) + '\r\n';
+}
+
+export function stringifyCsv(rows: string[][], options: CsvOptions = {}): string {
+  return rows.map(row => formatCsvRow(row, options)).join('');
+}
+
+/**
+ * CSV text as bytes. UTF-16LE with a BOM and tab delimiters is what Excel
+ * opens most reliably.
+ */
+export function encodeCsv(text: string, encoding: 'utf-8' | 'utf-16le' = 'utf-8'): Uint8Array {
+  if (encoding === 'utf-8') {
+    return new TextEncoder().encode(text);
+  }
+  const bytes = new Uint8Array(text.length * 2);
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    bytes[index * 2] = code & 0xff;
+    bytes[index * 2 + 1] = code >> 8;
+  }
+  return bytes;
+}
+
+// Entity CSV
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+const MULTISELECT_SEPARATOR = ';';
+
+/**
+ * Cell text for a field value. Dates are written as ISO 8601 and
+ * multiselects as `a;b`, or as a JSON array when an item contains `;`.
+ */
+export function formatCsvValue(field: FieldDefinition, value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString();
+
+  if (field.type === 'multiselect' && Array.isArray(value)) {
+    const items = value.map(String);
+    return items.some(item => item.includes(MULTISELECT_SEPARATOR) || item.startsWith('['))
+      ? JSON.stringify(value)
+      : items.join(MULTISELECT_SEPARATOR);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+const optionValue = (field: FieldDefinition, raw: string) => {
+  const options = field.displayOptions.options;
+  if (!options) return raw;
+  const match = options.find(option => String(option.value) === raw) ??
+    options.find(option => option.label.toLowerCase() === raw.toLowerCase());
+  return match ? match.value : raw;
+};
+
+/**
+ * A cell converted to its field's type. Empty cells give `undefined`;
+ * select values that match no option are passed through for validation
+ * to report.
+ */
+export function parseCsvValue(field: FieldDefinition, raw: string): { value: unknown } | { error: string } {
+  // Undo the `'` formatCsvField puts before formula-like text
+  const cell = raw.replace(/^'(?=[=+\-@\t\r])/, '');
+  const text = cell.trim();
+  if (text === '') return { value: undefined };
+
+  switch (field.type) {
+    case 'number':
+    case 'currency':
+    case 'percentage': {
+      const value = Number(field.type === 'percentage' ? text.replace(/%$/, '') : text);
+      return isNaN(value) ? { error: `${field.displayName} must be a number` } : { value };
+    }
+
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: true };
+      if (FALSE_VALUES.includes(lower)) return { value: false };
+      return { error: `${field.displayName} must be true or false` };
+    }
+
+    case 'date':
+    case 'datetime': {
+      const value = new Date(text);
+      return isNaN(value.getTime()) ? { error: `${field.displayName} must be a valid date` } : { value };
+    }
+
+    case 'select':
+      return { value: optionValue(field, text) };
+
+    case 'multiselect': {
+      if (text.startsWith('[')) {
+        try {
+          const items: unknown = JSON.parse(text);
+          if (Array.isArray(items)) return { value: items.map(item => optionValue(field, String(item))) };
+        } catch {
+          // Not JSON after all; split it like any other list
+        }
+      }
+      return { value: text.split(MULTISELECT_SEPARATOR).map(item => item.trim()).filter(Boolean).map(item => optionValue(field, item)) };
+    }
+
+    default:
+      // Text is kept exactly as written, surrounding spaces included
+      return { value: cell };
+  }
+}
+
+/**
+ * The field each header cell refers to, by name or display name, ignoring
+ * case and surrounding spaces. Formula fields are computed, so they never
+ * match.
+ */
+export function mapCsvHeaders(definition: EntityDefinition, headers: string[]): Array<FieldDefinition | undefined> {
+  const normalize = (text: string) => text.trim().toLowerCase();
+  const fields = definition.fields.filter(field => field.type !== 'formula');
+  return headers.map(header =>
+    fields.find(field => normalize(field.name) === normalize(header)) ??
+    fields.find(field => normalize(field.displayName) === normalize(header))
+  );
+}
+
+/**
+ * An entity CSV document, a chunk per row, for writing large exports
+ * without building one string
+ */
+export function* writeEntityCsv(
+  definition: EntityDefinition,
+  records: Iterable<EntityRecord>,
+  options: CsvWriteOptions = {}
+): Generator<string> {
+  const headers = definition.fields.map(field => options.headers === 'name' ? field.name : field.displayName);
+  yield (options.bom ? BOM : '') + formatCsvRow(headers, options);
+
+  for (const record of records) {
+    yield formatCsvRow(definition.fields.map(field => formatCsvValue(field, record.data[field.name])), options);
+  }
+}
+
+export function entityToCsv(definition: EntityDefinition, records: Iterable<EntityRecord>, options: CsvWriteOptions = {}): string {
+  return Array.from(writeEntityCsv(definition, records, options)).join('');
+}
+
+export interface CsvRecordRow {
+  line: number;
+  data: RecordData;
+  errors: ValidationError[]; // Cells that could not be converted
+}
+
+interface RecordReader {
+  /** Header cells that match no field; their columns are ignored */
+  unmappedHeaders: string[];
+  row(row: CsvRow): CsvRecordRow;
+}
+
+/**
+ * Converts rows to record data once the header row is known
+ */
+function createRecordReader(definition: EntityDefinition, headers: string[]): RecordReader {
+  const columns = mapCsvHeaders(definition, headers);
+
+  return {
+    unmappedHeaders: headers.filter((_, index) => !columns[index]),
+    row: ({ line, values }) => {
+      const data: RecordData = {};
+      const errors: ValidationError[] = [];
+
+      columns.forEach((field, index) => {
+        if (!field || index >= values.length) return;
+        const result = parseCsvValue(field, values[index]);
+        if ('error' in result) {
+          errors.push({ field: field.name, message: `Line ${line}: ${result.error}`, code: 'INVALID_TYPE', value: values[index] });
+        } else if (result.value !== undefined) {
+          data[field.name] = result.value;
+        }
+      });
+
+      return { line, data, errors };
+    }
+  };
+}
+
+/**
+ * Record data from an entity CSV document, row by row as it is read
+ */
+export async function* readEntityCsv(
+  definition: EntityDefinition,
+  source: CsvSource,
+  options: CsvReadOptions = {}
+): AsyncGenerator<CsvRecordRow> {
+  let reader: RecordReader | undefined;
+  for await (const row of parseCsvStream(source, options)) {
+    if (!reader) {
+      reader = createRecordReader(definition, row.values);
+    } else {
+      yield reader.row(row);
+    }
+  }
+}
+
+/**
+ * Record data from an entity CSV document held in memory
+ */
+export function parseEntityCsv(
+  definition: EntityDefinition,
+  text: string,
+  options: CsvOptions = {}
+): { rows: CsvRecordRow[]; unmappedHeaders: string[] } {
+  const parser = new CsvParser(options);
+  const [header, ...rows] = [...parser.push(text), ...parser.end()];
+  if (!header) return { rows: [], unmappedHeaders: [] };
+
+  const reader = createRecordReader(definition, header.values);
+  return { rows: rows.map(row => reader.row(row)), unmappedHeaders: reader.unmappedHeaders };
+}
@@ -7,47 +7,294 @@ import type {
   QueryParams, 
   PaginatedResponse,
   EntityEvent,
-  FilterConfig,
-  SortConfig
+  EntityEventHandler,
+  EntityEventPattern,
+  SortConfig,
+  ValidationError,
+  RecordData,
+  AtomicBulkOptions,
+  BulkUpdateInput,
+  BulkOperationReport,
+  BulkRowResult,
+  WriteOptions,
+  DeleteOptions,
+  UserContext,
+  AuditEntry,
+  AuditQuery,
+  PermissionAction,
+  MigrationDefinition,
+  MigrationMode,
+  CompatibilityReport,
+  ActionType,
+  RuleTrigger,
+  ScheduledRuleResult,
+  WorkflowDefinition,
+  RecordWorkflowState,
+  TransitionOptions,
+  ApprovalItem,
+  EntityAccess,
+  ReadOptions,
+  RecordMetadata,
+  ValidationOverrideEntry,
+  ValidationResult,
+  ValidationContext,
+  FieldValidationOptions,
+  RecordLookup,
+  RemoteValidator,
+  ImportSource,
+  ImportOptions,
+  ImportReport,
+  ImportRowResult
 } from '../../types/entity';
 import { ValidationEngine } from './validation';
-import { EventEmitter } from './events';
+import { EventBus } from './events';
+import type { EventListenerOptions } from './events';
+import { EventLog } from './eventlog';
+import { entityToCsv, parseEntityCsv } from './csv';
+import type { CsvOptions, CsvWriteOptions } from './csv';
+import type { XlsxReadOptions } from './xlsx';
+import { mapImportRows } from './importer';
+import { MemoryStorageProvider, reviveRecord } from './storage';
+import type { StorageProvider } from './storage';
+import { ChangeLog } from './transaction';
+import type { EntityTransaction, RecordChange, TransactionContext } from './transaction';
+import {
+  ConfigurationError,
+  ConflictError,
+  NotFoundError,
+  PermissionDeniedError,
+  ReferentialIntegrityError,
+  RuleLoopError,
+  ValidationFailedError,
+  WorkflowTransitionError
+} from './errors';
+import { EntityIndexes, planQuery } from './indexes';
+import { applyFilterExpression, getRequiredFilters, normalizeFilters } from './filters';
+import { RelationshipResolver, getForeignKey, isOwningSide } from './relationships';
+import { FormulaEvaluator } from './formulas';
+import { AuditLog, diffRecordData } from './audit';
+import { getEntityAccess, getRestrictedFields, hasPermission, isRestricted, redactData } from './permissions';
+import { findMigrationPath, getSchemaVersion, migrateRecordData } from './migrations';
+import { RuleEngine } from './rules';
+import type { RuleActionHandler, RuleRunResult } from './rules';
+import { WorkflowRegistry, isFinalState } from './workflows';
+
+// Internal create options used when restoring a deleted record
+interface CreateOptions extends WriteOptions {
+  id?: string;
+  version?: number;
+}
+
+// Internal update options used when applying changes a workflow approved
+// and for follow-up writes (cascades, formula refreshes, rule writebacks)
+// that the triggering write already authorized
+interface UpdateOptions extends WriteOptions {
+  skipWorkflowGate?: boolean;
+  authorized?: boolean;
+}
+
+// Internal delete options used for cascades the triggering delete authorized
+interface StageDeleteOptions extends DeleteOptions {
+  authorized?: boolean;
+}
+
+// Internal transition options used for SLA escalations
+interface WorkflowTransitionOptions extends TransitionOptions {
+  automatic?: boolean;
+}
+
+// The parts of a workflow event that stageWorkflowState does not fill in
+type WorkflowEventInit = {
+  [T in 'workflow:started' | 'workflow:transitioned' | 'workflow:overdue']: Pick<EntityEvent<T>, 'type' | 'data' | 'metadata'>;
+}['workflow:started' | 'workflow:transitioned' | 'workflow:overdue'];
 
 export class EntityEngine {
   private entities: Map<string, EntityData> = new Map();
   private definitions: Map<string, EntityDefinition> = new Map();
   private validationEngine: ValidationEngine;
-  private eventEmitter: EventEmitter;
+  private eventBus: EventBus;
+  private eventLog: EventLog;
+  private storage: StorageProvider;
+  private indexes: Map<string, EntityIndexes> = new Map();
+  // Soft-deleted records, kept out of `entities` so queries never see them by default
+  private trash: Map<string, Map<string, EntityRecord>> = new Map();
+  private relationships: RelationshipResolver;
+  private formulas: FormulaEvaluator;
+  private audit: AuditLog;
+  private rules: RuleEngine;
+  private workflows: WorkflowRegistry;
+  private pendingWrites: Set<Promise<void>> = new Set();
+  // Tail of the transaction queue; transactions run one at a time
+  private transactionQueue: Promise<void> = Promise.resolve();
+  // Records migrated in memory but not yet written back (lazy migration)
+  private pendingMigrations: Map<string, Set<string>> = new Map();
+  private securityContext?: UserContext;
+  private recordLookup: RecordLookup = {
+    findRecords: (entityName, field, value, options) => this.findRecordsByField(entityName, field, value, options)
+  };
 
-  constructor() {
+  constructor(storage: StorageProvider = new MemoryStorageProvider()) {
     this.validationEngine = new ValidationEngine();
-    this.eventEmitter = new EventEmitter();
+    this.eventBus = new EventBus();
+    this.storage = storage;
+    // Relationships and formulas see every record, whoever is acting
+    this.relationships = new RelationshipResolver({
+      getEntityDefinition: entityName => this.getEntityDefinition(entityName),
+      getEntities: () => this.getEntities(),
+      get: (entityName, id) => this.getRecord(entityName, id),
+      findByField: (entityName, field, value) => this.findRecordsByField(entityName, field, value)
+    });
+    this.formulas = new FormulaEvaluator(this.relationships);
+    this.audit = new AuditLog(storage);
+    this.eventLog = new EventLog(storage);
+    this.rules = new RuleEngine();
+    this.workflows = new WorkflowRegistry();
+
+    this.rules.registerActionHandler('start_workflow', async (action, context) => {
+      // Workflow state lives on the saved record, so only later phases can start one
+      if (!['after_save', 'scheduled'].includes(context.trigger) || !context.recordId) {
+        return { status: 'skipped', detail: 'start_workflow runs from after_save or scheduled rules' };
+      }
+      const record = await this.stageWorkflowStart(
+        context.definition.name, context.recordId, action.config.workflowId!, undefined, context.log, { user: context.user }
+      );
+      return { status: 'applied', detail: { workflowId: action.config.workflowId, state: record.workflow?.state } };
+    });
+  }
+
+  /**
+   * Load persisted definitions, records and events from the storage provider.
+   * Call once before using an engine backed by a persistent provider.
+   */
+  async initialize(): Promise<void> {
+    const definitions = await this.storage.loadDefinitions();
+    await Promise.all([this.audit.load(), this.eventLog.load()]);
+
+    for (const definition of definitions) {
+      const version = getSchemaVersion(definition);
+      const loaded = await this.storage.loadRecords(definition.name);
+      const paths = this.resolveMigrationPaths(definition, loaded, version);
+      this.formulas.register(definition);
+      // Records stored under an older schema are migrated on read and written back on their next change
+      const stored = this.migrateRecords(definition, loaded, paths, version, 'lazy')
+        .map(record => reviveRecord(record, definition));
+      const records = stored.filter(record => !record.deletedAt);
+      this.definitions.set(definition.name, definition);
+      this.entities.set(definition.name, this.createEntityData(definition, records));
+      this.indexes.set(definition.name, new EntityIndexes(definition, records));
+      this.trash.set(definition.name, new Map(
+        stored.filter(record => record.deletedAt).map(record => [record.id, record])
+      ));
+    }
+
+    await this.purgeExpired();
+  }
+
+  /**
+   * Wait for all in-flight storage writes and event handlers to complete
+   */
+  async flush(): Promise<void> {
+    await Promise.all([...this.pendingWrites, this.eventBus.drain()]);
+  }
+
+  /**
+   * Get the active storage provider
+   */
+  getStorage(): StorageProvider {
+    return this.storage;
+  }
+
+  /**
+   * Act as this user wherever a call does not pass its own `user`. Entities
+   * with permissions then check every read and write against the user's
+   * roles; without a user, restricted entities refuse everything.
+   */
+  setSecurityContext(user: UserContext | undefined): void {
+    this.securityContext = user;
+  }
+
+  getSecurityContext(): UserContext | undefined {
+    return this.securityContext;
+  }
+
+  /**
+   * What the user (default: the security context) may do with an entity
+   */
+  getAccess(entityName: string, user: UserContext | undefined = this.securityContext): EntityAccess {
+    return getEntityAccess(this.requireDefinition(entityName), user);
+  }
+
+  /**
+   * Check one field value as the user edits it, including cross-record and
+   * remote rules. Pass a signal to abandon a check the user has typed past.
+   */
+  async validateField(
+    entityName: string,
+    fieldName: string,
+    value: unknown,
+    options: FieldValidationOptions = {}
+  ): Promise<ValidationResult> {
+    const definition = this.requireDefinition(entityName);
+    const field = definition.fields.find(candidate => candidate.name === fieldName);
+    if (!field) {
+      throw new NotFoundError(`Field "${fieldName}" not found in entity "${entityName}"`, { resource: 'field', id: fieldName, entity: entityName });
+    }
+
+    const current = options.recordId ? this.getRecord(entityName, options.recordId) : undefined;
+    const data = { ...current?.data, ...options.data, [fieldName]: value };
+    return this.validationEngine.validate(data, { ...definition, fields: [field], businessRules: [] }, {
+      ...this.validationContext(options.recordId),
+      user: options.user ?? this.securityContext,
+      signal: options.signal
+    });
+  }
+
+  /**
+   * Register the service behind 'remote' validation rules naming `name`
+   */
+  registerRemoteValidator(name: string, validator: RemoteValidator): void {
+    this.validationEngine.registerRemoteValidator(name, validator);
   }
 
   /**
-   * Register an entity definition
+   * Register an entity definition. Re-registering with a new `version`
+   * migrates existing records, either rewriting them all now ('eager') or
+   * migrating in memory and persisting on each record's next write ('lazy').
    */
-  registerEntity(definition: EntityDefinition): void {
+  registerEntity(definition: EntityDefinition, options: { migration?: MigrationMode } = {}): void {
+    const previous = this.definitions.get(definition.name);
+    const entityData = this.entities.get(definition.name);
+    const trash = this.trash.get(definition.name);
+    const existing = [...(entityData?.records ?? []), ...(trash?.values() ?? [])];
+
+    // Resolve migrations and compile formulas first so an invalid definition is rejected as a whole
+    const paths = this.resolveMigrationPaths(definition, existing, getSchemaVersion(previous ?? definition));
+    this.formulas.register(definition);
     this.definitions.set(definition.name, definition);
     
     // Initialize empty entity data if not exists
-    if (!this.entities.has(definition.name)) {
-      this.entities.set(definition.name, {
-        entity: definition.name,
-        definition,
-        records: [],
-        metadata: {
-          totalRecords: 0,
-          lastUpdated: new Date(),
-          source: 'local',
-          version: '1.0.0',
-          schema: definition
-        }
-      });
+    if (!entityData) {
+      this.entities.set(definition.name, this.createEntityData(definition, []));
+      this.trash.set(definition.name, new Map());
+    } else {
+      const mode = options.migration ?? 'eager';
+      const fallbackVersion = getSchemaVersion(previous ?? definition);
+      entityData.definition = definition;
+      entityData.records = this.migrateRecords(definition, entityData.records, paths, fallbackVersion, mode);
+      this.trash.set(definition.name, new Map(
+        this.migrateRecords(definition, [...trash!.values()], paths, fallbackVersion, mode).map(record => [record.id, record])
+      ));
+      entityData.metadata.version = getSchemaVersion(definition);
+      entityData.metadata.schema = definition;
     }
 
-    this.eventEmitter.emit('entity:registered', {
-      type: 'entity:created',
+    // Rebuild indexes in case the field index declarations changed
+    this.indexes.set(definition.name, new EntityIndexes(definition, this.entities.get(definition.name)!.records));
+
+    this.track(this.storage.saveDefinition(definition));
+
+    this.publish({
+      type: 'entity:registered',
       entity: definition.name,
       data: definition,
       timestamp: new Date()
@@ -69,145 +316,504 @@ export class EntityEngine {
   }
 
   /**
-   * Create a new record
+   * Write back records that were migrated lazily and not changed since
    */
-  async create(entityName: string, data: Record<string, any>): Promise<EntityRecord> {
-    const definition = this.definitions.get(entityName);
-    if (!definition) {
-      throw new Error(`Entity "${entityName}" not found`);
+  async persistMigrations(entityName: string): Promise<number> {
+    this.requireDefinition(entityName);
+    const pending = this.pendingMigrations.get(entityName) ?? new Set<string>();
+    const records = [...this.entities.get(entityName)!.records, ...this.trash.get(entityName)!.values()]
+      .filter(record => pending.has(record.id));
+
+    for (const record of records) {
+      await this.storage.putRecord(record);
+      pending.delete(record.id);
     }
+    return records.length;
+  }
+
+  /**
+   * Check existing records against the current definition or, with a
+   * candidate, against that definition after running its migrations.
+   * Nothing is changed.
+   */
+  async checkCompatibility(entityName: string, candidate?: EntityDefinition): Promise<CompatibilityReport> {
+    const current = this.requireDefinition(entityName);
+    const definition = candidate ?? current;
+    const fromVersion = getSchemaVersion(current);
+    const toVersion = getSchemaVersion(definition);
+    const migrations = fromVersion === toVersion ? [] : findMigrationPath(definition, fromVersion, toVersion);
 
-    // Validate the data
-    const validationResult = await this.validationEngine.validate(data, definition);
-    if (!validationResult.isValid) {
-      throw new Error(`Validation failed: ${validationResult.errors.map(e => e.message).join(', ')}`);
+    const declared = new Set([
+      ...definition.fields.map(field => field.name),
+      ...definition.relationships.filter(isOwningSide).map(rel => getForeignKey(rel, definition.name))
+    ]);
+    const unknownFields = new Set<string>();
+    const invalidRecords: CompatibilityReport['invalidRecords'] = [];
+    const records = this.entities.get(entityName)!.records;
+
+    for (const record of records) {
+      const data = migrateRecordData(record.data, migrations);
+      Object.keys(data).filter(field => !declared.has(field)).forEach(field => unknownFields.add(field));
+
+      const validationResult = await this.validationEngine.validate(data, definition, this.validationContext(record.id));
+      const errors = [...validationResult.errors, ...validationResult.overridable, ...this.relationships.validateReferences(data, definition)];
+      if (errors.length > 0) {
+        invalidRecords.push({ recordId: record.id, errors });
+      }
     }
 
-    // Create the record
-    const record: EntityRecord = {
-      id: this.generateId(),
+    return {
       entity: entityName,
-      data,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      version: 1
+      fromVersion,
+      toVersion,
+      totalRecords: records.length,
+      compatibleRecords: records.length - invalidRecords.length,
+      pendingRecords: this.pendingMigrations.get(entityName)?.size ?? 0,
+      unknownFields: Array.from(unknownFields),
+      invalidRecords
     };
+  }
 
-    // Add to entity data
-    const entityData = this.entities.get(entityName)!;
-    entityData.records.push(record);
-    entityData.metadata.totalRecords++;
-    entityData.metadata.lastUpdated = new Date();
+  /**
+   * Create a new record
+   */
+  async create(entityName: string, data: Record<string, any>, options: WriteOptions = {}): Promise<EntityRecord> {
+    const record = await this.transaction(tx => tx.create(entityName, data, options), options);
+    return this.redactRecord(record, options.user ?? this.securityContext);
+  }
 
-    // Emit event
-    this.eventEmitter.emit('record:created', {
-      type: 'record:created',
-      entity: entityName,
-      recordId: record.id,
-      data: record,
-      timestamp: new Date()
+  /**
+   * Get a record by ID, optionally hydrating related records. Throws
+   * PermissionDeniedError if the user may not read it; fields and related
+   * records they may not read are left out.
+   */
+  get(entityName: string, id: string, options: ReadOptions & { include?: string[] } = {}): EntityRecord | undefined {
+    const record = this.getRecord(entityName, id);
+    if (!record) return record;
+
+    const user = options.user ?? this.securityContext;
+    if (!this.canRead(record, user)) {
+      throw this.denyPermission(entityName, 'read', user, id);
+    }
+
+    const hydrated = options.include?.length ? this.relationships.hydrate(record, options.include) : record;
+    return this.redactRecord(hydrated, user);
+  }
+
+  /**
+   * Find records whose field equals a value (or, for array fields, contains
+   * it), using an index when one exists
+   */
+  findByField(entityName: string, field: string, value: unknown, options: ReadOptions = {}): EntityRecord[] {
+    const definition = this.definitions.get(entityName);
+    if (!definition) return [];
+
+    const user = options.user ?? this.securityContext;
+    this.authorize(definition, 'read', user);
+    return this.filterReadable(this.findRecordsByField(entityName, field, value), user);
+  }
+
+  /**
+   * Update a record. Pass `expectedVersion` to reject stale writes with a ConflictError.
+   */
+  async update(
+    entityName: string,
+    id: string,
+    updates: Partial<Record<string, any>>,
+    options: WriteOptions = {}
+  ): Promise<EntityRecord> {
+    const record = await this.transaction(tx => tx.update(entityName, id, updates, options), options);
+    return this.redactRecord(record, options.user ?? this.securityContext);
+  }
+
+  /**
+   * Delete a record. Pass `expectedVersion` to reject stale deletes with a ConflictError.
+   *
+   * Entities with `softDelete` enabled move the record to the trash instead,
+   * unless `permanent` is set.
+   */
+  async delete(entityName: string, id: string, options: DeleteOptions = {}): Promise<void> {
+    return this.transaction(tx => tx.delete(entityName, id, options), options);
+  }
+
+  /**
+   * Soft-deleted records of an entity, most recently deleted first
+   */
+  getTrash(entityName: string, options: ReadOptions = {}): EntityRecord[] {
+    const definition = this.requireDefinition(entityName);
+    const user = options.user ?? this.securityContext;
+    this.authorize(definition, 'read', user);
+
+    const trashed = Array.from(this.trash.get(entityName)?.values() ?? [])
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+    return this.filterReadable(trashed, user);
+  }
+
+  /**
+   * Move a record out of the trash. Fails validation if records it
+   * references have since been removed.
+   */
+  async restoreFromTrash(entityName: string, id: string, options: WriteOptions = {}): Promise<EntityRecord> {
+    return this.runTransaction(log => this.stageRestore(entityName, id, log, options), options);
+  }
+
+  /**
+   * Permanently remove a record from the trash
+   */
+  async purge(entityName: string, id: string, options: WriteOptions = {}): Promise<void> {
+    return this.runTransaction(async log => this.stagePurge(entityName, id, log, options), options);
+  }
+
+  /**
+   * Purge trashed records older than their entity's `softDelete.retentionDays`.
+   * Runs on `initialize`; call periodically (or use `startTrashRetention`) for
+   * long-lived sessions. Returns the number of purged records.
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const expired: Array<{ entity: string; id: string }> = [];
+
+    this.definitions.forEach(definition => {
+      const retentionDays = definition.softDelete?.retentionDays;
+      if (retentionDays === undefined) return;
+
+      const cutoff = now.getTime() - retentionDays * 24 * 60 * 60 * 1000;
+      this.trash.get(definition.name)?.forEach(record => {
+        if (record.deletedAt!.getTime() <= cutoff) {
+          expired.push({ entity: definition.name, id: record.id });
+        }
+      });
     });
 
-    return record;
+    if (expired.length === 0) return 0;
+
+    await this.runTransaction(async log => {
+      for (const { entity, id } of expired) {
+        this.stagePurge(entity, id, log, {});
+      }
+    }, { reason: 'Trash retention period expired' });
+
+    return expired.length;
   }
 
   /**
-   * Get a record by ID
+   * Run `purgeExpired` on an interval. Returns a function that stops it.
    */
-  get(entityName: string, id: string): EntityRecord | undefined {
-    const entityData = this.entities.get(entityName);
-    if (!entityData) return undefined;
+  startTrashRetention(intervalMs: number = 60 * 60 * 1000): () => void {
+    const timer = setInterval(() => {
+      this.purgeExpired().catch(error => console.error('Failed to purge expired trash:', error));
+    }, intervalMs);
+    return () => clearInterval(timer);
+  }
 
-    return entityData.records.find(record => record.id === id);
+  /**
+   * Run several operations atomically. Every change is rolled back if the
+   * callback throws; storage writes and events happen only on commit.
+   * The context supplies the user and reason for the audit trail.
+   * Transactions run one at a time, so the callback must write through
+   * `tx` rather than the engine's own write methods.
+   */
+  async transaction<T>(work: (tx: EntityTransaction) => Promise<T>, context: TransactionContext = {}): Promise<T> {
+    return this.runTransaction(log => work(this.createTransaction(log)), context);
   }
 
   /**
-   * Update a record
+   * Replace how business rules carry out an action type
    */
-  async update(entityName: string, id: string, updates: Partial<Record<string, any>>): Promise<EntityRecord> {
-    const definition = this.definitions.get(entityName);
-    if (!definition) {
-      throw new Error(`Entity "${entityName}" not found`);
-    }
+  registerRuleAction(type: ActionType, handler: RuleActionHandler): void {
+    this.rules.registerActionHandler(type, handler);
+  }
 
-    const entityData = this.entities.get(entityName)!;
-    const recordIndex = entityData.records.findIndex(record => record.id === id);
-    
-    if (recordIndex === -1) {
-      throw new Error(`Record with ID "${id}" not found`);
+  /**
+   * Run a 'scheduled' rule against every live record of its entity in one
+   * transaction. Field edits are saved as ordinary updates.
+   */
+  async runScheduledRule(entityName: string, ruleName: string, options: WriteOptions = {}): Promise<ScheduledRuleResult> {
+    const definition = this.requireDefinition(entityName);
+    const rule = definition.businessRules.find(candidate => candidate.name === ruleName);
+    if (!rule || rule.trigger !== 'scheduled') {
+      throw new NotFoundError(`Scheduled rule "${ruleName}" not found in "${entityName}"`, { resource: 'rule', id: ruleName, entity: entityName });
     }
 
-    const currentRecord = entityData.records[recordIndex];
-    const updatedData = { ...currentRecord.data, ...updates };
+    return this.runTransaction(async log => {
+      const result: ScheduledRuleResult = { recordsMatched: 0, recordsChanged: 0 };
 
-    // Validate the updated data
-    const validationResult = await this.validationEngine.validate(updatedData, definition);
-    if (!validationResult.isValid) {
-      throw new Error(`Validation failed: ${validationResult.errors.map(e => e.message).join(', ')}`);
-    }
+      for (const { id } of [...this.entities.get(entityName)!.records]) {
+        // An earlier record's actions may have deleted this one
+        const record = this.getRecord(entityName, id);
+        if (!record) continue;
 
-    // Update the record
-    const updatedRecord: EntityRecord = {
-      ...currentRecord,
-      data: updatedData,
-      updatedAt: new Date(),
-      version: (currentRecord.version || 1) + 1
-    };
+        const { data, traces } = await this.runRules(definition, ['scheduled'], log, options, { recordId: id, data: record.data }, ruleName);
+        result.recordsMatched += traces.length;
 
-    entityData.records[recordIndex] = updatedRecord;
-    entityData.metadata.lastUpdated = new Date();
+        const changes = diffRecordData(record.data, data);
+        if (changes.length > 0 && this.getRecord(entityName, id)) {
+          const updates = Object.fromEntries(changes.map(change => [change.field, change.after]));
+          await this.stageUpdate(entityName, id, updates, log, { ...options, authorized: true });
+          result.recordsChanged++;
+        }
+      }
 
-    // Emit event
-    this.eventEmitter.emit('record:updated', {
-      type: 'record:updated',
-      entity: entityName,
-      recordId: id,
-      data: { previous: currentRecord, current: updatedRecord },
-      timestamp: new Date()
+      return result;
+    }, options);
+  }
+
+  /**
+   * Register an approval workflow for one of the registered entities
+   */
+  registerWorkflow(workflow: WorkflowDefinition): void {
+    this.requireDefinition(workflow.entity);
+    this.workflows.register(workflow);
+  }
+
+  getWorkflows(entityName?: string): WorkflowDefinition[] {
+    return entityName
+      ? this.workflows.forEntity(entityName)
+      : this.getEntities().flatMap(name => this.workflows.forEntity(name));
+  }
+
+  /**
+   * Put a record into a workflow's initial state
+   */
+  async startWorkflow(entityName: string, id: string, workflowId: string, options: WriteOptions = {}): Promise<EntityRecord> {
+    return this.runTransaction(log => {
+      const record = this.getRecord(entityName, id);
+      if (record) {
+        this.authorize(this.requireDefinition(entityName), 'update', this.getActor(log, options).user, record.data, id);
+      }
+      return this.stageWorkflowStart(entityName, id, workflowId, undefined, log, options);
+    }, options);
+  }
+
+  /**
+   * Move a record along a workflow transition. Entering an 'approved' state
+   * applies the held changes; entering a 'rejected' state discards them.
+   */
+  async transitionWorkflow(
+    entityName: string,
+    id: string,
+    transition: string,
+    options: TransitionOptions = {}
+  ): Promise<EntityRecord> {
+    return this.runTransaction(log => this.stageTransition(entityName, id, transition, log, options), options);
+  }
+
+  /**
+   * Records in an open workflow state that the user is assigned to or can
+   * move on, overdue first. Records the user may not read are left out.
+   */
+  getApprovalsInbox(user: UserContext, now: Date = new Date()): ApprovalItem[] {
+    const items: ApprovalItem[] = [];
+
+    this.entities.forEach(entityData => {
+      for (const record of entityData.records) {
+        const current = record.workflow;
+        if (current && !this.canRead(record, user)) continue;
+        const workflow = current && this.workflows.get(current.workflowId);
+        const state = workflow && this.workflows.getState(workflow, current.state);
+        if (!current || !workflow || !state || isFinalState(state)) continue;
+
+        const transitions = this.workflows.getAvailableTransitions(workflow, current, record.data, user);
+        const assigned = this.workflows.getAssigneeRoles(workflow, current).some(role => user.roles.includes(role));
+        if (!assigned && transitions.length === 0) continue;
+
+        const pending = current.pendingChanges ?? {};
+        const before = Object.fromEntries(Object.keys(pending).map(field => [field, record.data[field]]));
+        items.push({
+          record: this.redactRecord(record, user),
+          workflow,
+          state,
+          transitions,
+          changes: diffRecordData(before, pending),
+          dueAt: current.dueAt,
+          overdue: !!current.dueAt && current.dueAt <= now
+        });
+      }
     });
 
-    return updatedRecord;
+    const due = (item: ApprovalItem) => item.dueAt?.getTime() ?? Infinity;
+    return items.sort((a, b) => Number(b.overdue) - Number(a.overdue) || due(a) - due(b));
   }
 
   /**
-   * Delete a record
+   * Escalate workflow states whose SLA has run out: their escalation roles
+   * become assignees and the SLA transition, if any, is taken. Returns the
+   * number of escalated records.
    */
-  async delete(entityName: string, id: string): Promise<void> {
-    const entityData = this.entities.get(entityName);
-    if (!entityData) {
-      throw new Error(`Entity "${entityName}" not found`);
+  async checkWorkflowSla(now: Date = new Date()): Promise<number> {
+    const overdue: Array<{ entity: string; id: string }> = [];
+
+    this.entities.forEach((entityData, entityName) => {
+      for (const record of entityData.records) {
+        const current = record.workflow;
+        if (current?.dueAt && !current.escalated && current.dueAt <= now) {
+          overdue.push({ entity: entityName, id: record.id });
+        }
+      }
+    });
+
+    for (const { entity, id } of overdue) {
+      await this.runTransaction(async log => {
+        const current = this.getRecord(entity, id)!.workflow!;
+        const workflow = this.workflows.get(current.workflowId);
+        const sla = workflow && this.workflows.getState(workflow, current.state)?.sla;
+
+        this.stageWorkflowState(entity, id, { ...current, escalated: true }, log, {}, {
+          type: 'workflow:overdue',
+          data: { workflowId: current.workflowId, state: current.state, dueAt: current.dueAt, escalateTo: sla?.escalateTo ?? [] }
+        });
+        if (sla?.transition) {
+          await this.stageTransition(entity, id, sla.transition, log, { automatic: true, comment: 'SLA breached' });
+        }
+      }, { reason: 'Workflow SLA breached' });
     }
 
-    const recordIndex = entityData.records.findIndex(record => record.id === id);
-    if (recordIndex === -1) {
-      throw new Error(`Record with ID "${id}" not found`);
+    return overdue.length;
+  }
+
+  /**
+   * Check workflow SLAs periodically. Returns a function that stops it.
+   */
+  startWorkflowTimers(intervalMs: number = 5 * 60 * 1000): () => void {
+    const timer = setInterval(() => {
+      this.checkWorkflowSla().catch(error => console.error('Failed to check workflow SLAs:', error));
+    }, intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Every stored version of a record, oldest first
+   */
+  getHistory(entityName: string, recordId: string, options: { user?: UserContext } = {}): AuditEntry[] {
+    const definition = this.requireDefinition(entityName);
+    const user = options.user ?? this.securityContext;
+    this.assertHistoryAccess(definition, recordId, user);
+    const entries = this.audit.getRecordHistory(entityName, recordId);
+    return entries.map(entry => this.redactAuditEntry(definition, entry, user));
+  }
+
+  /**
+   * Audit entries across records or entities, oldest first. Entities the
+   * user may not audit are left out unless requested explicitly.
+   */
+  queryHistory(query: AuditQuery = {}): AuditEntry[] {
+    const { user = this.securityContext, ...filter } = query;
+
+    if (filter.entity) {
+      const definition = this.requireDefinition(filter.entity);
+      if (!hasPermission(definition, user, 'audit')) {
+        throw this.denyPermission(filter.entity, 'audit', user, filter.recordId);
+      }
     }
 
-    const deletedRecord = entityData.records[recordIndex];
-    entityData.records.splice(recordIndex, 1);
-    entityData.metadata.totalRecords--;
-    entityData.metadata.lastUpdated = new Date();
+    return this.audit.query(filter)
+      .filter(entry => {
+        const definition = this.definitions.get(entry.entity);
+        return definition && hasPermission(definition, user, 'audit', this.getLatestData(entry.entity, entry.recordId));
+      })
+      .map(entry => this.redactAuditEntry(this.definitions.get(entry.entity)!, entry, user));
+  }
+
+  /**
+   * The record as it was at a point in time, or undefined if it did not exist then
+   */
+  getRecordAsOf(
+    entityName: string,
+    recordId: string,
+    date: Date,
+    options: { user?: UserContext } = {}
+  ): EntityRecord | undefined {
+    const definition = this.requireDefinition(entityName);
+    const user = options.user ?? this.securityContext;
+    this.assertHistoryAccess(definition, recordId, user);
+    const history = this.audit.getRecordHistory(entityName, recordId);
 
-    // Emit event
-    this.eventEmitter.emit('record:deleted', {
-      type: 'record:deleted',
+    const entry = this.audit.getAsOf(entityName, recordId, date);
+    if (!entry?.data) return undefined;
+
+    const created = history.filter(item => item.action === 'create' && item.timestamp <= date).pop();
+    return {
+      id: recordId,
       entity: entityName,
-      recordId: id,
-      data: deletedRecord,
-      timestamp: new Date()
-    });
+      data: this.redactAuditEntry(definition, entry, user).data!,
+      createdAt: created?.timestamp ?? entry.timestamp,
+      updatedAt: entry.timestamp,
+      createdBy: created?.userId,
+      updatedBy: entry.userId,
+      version: entry.version
+    };
+  }
+
+  /**
+   * Restore a record to the data it had at a given version, recreating it
+   * if it has since been deleted. The restore is itself a new version.
+   */
+  async restoreVersion(
+    entityName: string,
+    recordId: string,
+    version: number,
+    options: WriteOptions = {}
+  ): Promise<EntityRecord> {
+    const definition = this.requireDefinition(entityName);
+    this.assertHistoryAccess(definition, recordId, options.user ?? this.securityContext);
+    const history = this.audit.getRecordHistory(entityName, recordId);
+
+    const entry = this.audit.getVersion(entityName, recordId, version);
+    if (!entry?.data) {
+      throw new NotFoundError(`Version ${version} of record "${recordId}" in "${entityName}" not found`, {
+        resource: 'version',
+        id: `${recordId}@${version}`,
+        entity: entityName
+      });
+    }
+
+    const snapshot = entry.data;
+    const writeOptions: WriteOptions = { ...options, reason: options.reason ?? `Restored version ${version}` };
+
+    return this.runTransaction(async log => {
+      if (this.trash.get(entityName)?.has(recordId)) {
+        await this.stageRestore(entityName, recordId, log, writeOptions);
+      }
+
+      const current = this.getRecord(entityName, recordId);
+      if (current) {
+        // Clear fields that were added after the restored version
+        const cleared = Object.fromEntries(
+          Object.keys(current.data).filter(field => !(field in snapshot)).map(field => [field, undefined])
+        );
+        return this.stageUpdate(entityName, recordId, { ...cleared, ...snapshot }, log, writeOptions);
+      }
+
+      const lastVersion = Math.max(...history.map(item => item.version));
+      return this.stageCreate(entityName, snapshot, log, { ...writeOptions, id: recordId, version: lastVersion + 1 });
+    }, writeOptions);
   }
 
   /**
-   * List records with pagination, filtering, and sorting
+   * List records with pagination, filtering, and sorting. Only records the
+   * user may read are returned, without the fields they may not read.
    */
-  async list(entityName: string, params: QueryParams = {}): Promise<PaginatedResponse<EntityRecord>> {
+  async list(entityName: string, params: QueryParams = {}, options: ReadOptions = {}): Promise<PaginatedResponse<EntityRecord>> {
     const entityData = this.entities.get(entityName);
     if (!entityData) {
-      throw new Error(`Entity "${entityName}" not found`);
+      throw new NotFoundError(`Entity "${entityName}" not found`, { resource: 'entity', id: entityName });
     }
+    const user = options.user ?? this.securityContext;
+    this.authorize(entityData.definition, 'read', user);
+
+    const startTime = performance.now();
 
-    let records = [...entityData.records];
+    // Only filters every match must satisfy can narrow the scan through an index
+    const filterExpression = normalizeFilters(params.filters, params.where);
+    const indexableFilters = getRequiredFilters(filterExpression);
+    // Trashed records are not in the live indexes, so including them plans over
+    // indexes built for the combined records
+    const combined = params.includeDeleted
+      ? [...entityData.records, ...(this.trash.get(entityName)?.values() ?? [])]
+      : undefined;
+    const { candidates, plan } = combined
+      ? planQuery(params, combined, new EntityIndexes(entityData.definition, combined), indexableFilters)
+      : planQuery(params, entityData.records, this.indexes.get(entityName)!, indexableFilters);
+    let records = candidates;
 
     // Apply search
     if (params.search) {
@@ -215,12 +821,17 @@ export class EntityEngine {
     }
 
     // Apply filters
-    if (params.filters && params.filters.length > 0) {
-      records = this.applyFilters(records, params.filters);
+    if (filterExpression) {
+      records = applyFilterExpression(records, filterExpression, (record, field) => record.data[field]);
+    }
+
+    // Apply row-level permissions
+    if (isRestricted(entityData.definition)) {
+      records = records.filter(record => this.canRead(record, user));
     }
 
-    // Apply sorting
-    if (params.sort && params.sort.length > 0) {
+    // Apply sorting (skipped when the plan already returned index order)
+    if (params.sort && params.sort.length > 0 && plan.sortStrategy !== 'index') {
       records = this.applySort(records, params.sort);
     }
 
@@ -228,7 +839,13 @@ export class EntityEngine {
     const page = params.page || 1;
     const limit = params.limit || 20;
     const offset = (page - 1) * limit;
-    const paginatedRecords = records.slice(offset, offset + limit);
+    let paginatedRecords = records.slice(offset, offset + limit);
+
+    // Hydrate related records for the current page only
+    if (params.include && params.include.length > 0) {
+      paginatedRecords = paginatedRecords.map(record => this.relationships.hydrate(record, params.include!));
+    }
+    paginatedRecords = paginatedRecords.map(record => this.redactRecord(record, user));
 
     return {
       data: paginatedRecords,
@@ -241,9 +858,10 @@ export class EntityEngine {
         hasPrev: page > 1
       },
       metadata: {
-        executionTime: 0, // TODO: measure actual execution time
+        executionTime: performance.now() - startTime,
         cacheHit: false,
-        source: 'memory'
+        source: this.storage.name,
+        plan
       }
     };
   }
@@ -251,17 +869,37 @@ export class EntityEngine {
   /**
    * Search records
    */
-  search(entityName: string, query: string): EntityRecord[] {
+  search(entityName: string, query: string, options: ReadOptions = {}): EntityRecord[] {
     const entityData = this.entities.get(entityName);
     if (!entityData) return [];
 
-    return this.applySearch(entityData.records, query, entityData.definition);
+    const user = options.user ?? this.securityContext;
+    this.authorize(entityData.definition, 'read', user);
+    return this.filterReadable(this.applySearch(entityData.records, query, entityData.definition), user);
   }
 
   /**
    * Bulk operations
+   *
+   * By default each row is applied on its own and failures are skipped.
+   * With `{ atomic: true }` every row is validated first, the whole batch is
+   * rolled back on any failure, and a per-row report is returned.
    */
-  async bulkCreate(entityName: string, records: Record<string, any>[]): Promise<EntityRecord[]> {
+  async bulkCreate(entityName: string, records: RecordData[]): Promise<EntityRecord[]>;
+  async bulkCreate(entityName: string, records: RecordData[], options: AtomicBulkOptions): Promise<BulkOperationReport>;
+  async bulkCreate(
+    entityName: string,
+    records: RecordData[],
+    options?: AtomicBulkOptions
+  ): Promise<EntityRecord[] | BulkOperationReport> {
+    if (options?.atomic) {
+      return this.runAtomicBulk(
+        records,
+        data => this.validateCreate(entityName, data),
+        (tx, data) => tx.create(entityName, data)
+      );
+    }
+
     const results: EntityRecord[] = [];
     
     for (const recordData of records) {
@@ -277,12 +915,27 @@ export class EntityEngine {
     return results;
   }
 
-  async bulkUpdate(entityName: string, updates: Array<{ id: string; data: Partial<Record<string, any>> }>): Promise<EntityRecord[]> {
+  async bulkUpdate(entityName: string, updates: BulkUpdateInput[]): Promise<EntityRecord[]>;
+  async bulkUpdate(entityName: string, updates: BulkUpdateInput[], options: AtomicBulkOptions): Promise<BulkOperationReport>;
+  async bulkUpdate(
+    entityName: string,
+    updates: BulkUpdateInput[],
+    options?: AtomicBulkOptions
+  ): Promise<EntityRecord[] | BulkOperationReport> {
+    if (options?.atomic) {
+      return this.runAtomicBulk(
+        updates,
+        update => this.validateUpdate(entityName, update.id, update.data, update.expectedVersion),
+        (tx, update) => tx.update(entityName, update.id, update.data, { expectedVersion: update.expectedVersion }),
+        update => update.id
+      );
+    }
+
     const results: EntityRecord[] = [];
     
     for (const update of updates) {
       try {
-        const record = await this.update(entityName, update.id, update.data);
+        const record = await this.update(entityName, update.id, update.data, { expectedVersion: update.expectedVersion });
         results.push(record);
       } catch (error) {
         console.error(`Failed to update record ${update.id}:`, error);
@@ -292,7 +945,22 @@ export class EntityEngine {
     return results;
   }
 
-  async bulkDelete(entityName: string, ids: string[]): Promise<void> {
+  async bulkDelete(entityName: string, ids: string[]): Promise<void>;
+  async bulkDelete(entityName: string, ids: string[], options: AtomicBulkOptions): Promise<BulkOperationReport>;
+  async bulkDelete(
+    entityName: string,
+    ids: string[],
+    options?: AtomicBulkOptions
+  ): Promise<void | BulkOperationReport> {
+    if (options?.atomic) {
+      return this.runAtomicBulk(
+        ids,
+        async id => this.validateExists(entityName, id),
+        (tx, id) => tx.delete(entityName, id),
+        id => id
+      );
+    }
+
     for (const id of ids) {
       try {
         await this.delete(entityName, id);
@@ -303,49 +971,1341 @@ export class EntityEngine {
   }
 
   /**
-   * Event handling
+   * Event handling. Events are delivered after the write that caused them
+   * commits; `on` and `once` return a function that removes the handler.
+   */
+  on<P extends EntityEventPattern>(pattern: P, handler: EntityEventHandler<P>, options?: EventListenerOptions): () => void {
+    return this.eventBus.on(pattern, handler, options);
+  }
+
+  once<P extends EntityEventPattern>(pattern: P, handler: EntityEventHandler<P>, options?: Omit<EventListenerOptions, 'once'>): () => void {
+    return this.eventBus.once(pattern, handler, options);
+  }
+
+  off<P extends EntityEventPattern>(pattern: P, handler: EntityEventHandler<P>): void {
+    this.eventBus.off(pattern, handler);
+  }
+
+  /**
+   * The bus engine events go through, e.g. for replaying recent history
    */
-  on(event: string, handler: (event: EntityEvent) => void): void {
-    this.eventEmitter.on(event, handler);
+  getEventBus(): EventBus {
+    return this.eventBus;
   }
 
-  off(event: string, handler: (event: EntityEvent) => void): void {
-    this.eventEmitter.off(event, handler);
+  /**
+   * Published events that consumers still need, persisted with the entity store
+   */
+  getEventLog(): EventLog {
+    return this.eventLog;
   }
 
   /**
    * Data import/export
    */
-  exportEntity(entityName: string, format: 'json' | 'csv' = 'json'): string {
+  exportEntity(entityName: string, format: 'json' | 'csv' = 'json', options: ReadOptions & CsvWriteOptions = {}): string {
     const entityData = this.entities.get(entityName);
     if (!entityData) {
-      throw new Error(`Entity "${entityName}" not found`);
+      throw new NotFoundError(`Entity "${entityName}" not found`, { resource: 'entity', id: entityName });
     }
 
+    const user = options.user ?? this.securityContext;
+    this.authorize(entityData.definition, 'export', user);
+    const records = this.filterReadable(entityData.records, user);
+
     if (format === 'json') {
-      return JSON.stringify(entityData, null, 2);
+      return JSON.stringify({ ...entityData, records }, null, 2);
     } else if (format === 'csv') {
-      return this.convertToCSV(entityData.records, entityData.definition);
+      return entityToCsv(entityData.definition, records, options);
     }
 
-    throw new Error(`Unsupported export format: ${format}`);
+    throw new ConfigurationError(`Unsupported export format: ${format}`);
   }
 
-  async importEntity(entityName: string, data: string, format: 'json' | 'csv' = 'json'): Promise<void> {
-    let records: any[] = [];
-
+  /**
+   * CSV columns are matched to fields by name or display name and cells are
+   * converted to each field's type. A cell that cannot be converted rejects
+   * the whole import with a ValidationFailedError before anything is written.
+   */
+  async importEntity(entityName: string, data: string, format: 'json' | 'csv' = 'json', options: CsvOptions = {}): Promise<EntityRecord[]> {
+    const definition = this.requireDefinition(entityName);
+    this.authorize(definition, 'import', this.securityContext);
+    let records: RecordData[] = [];
+
     if (format === 'json') {
       const parsedData = JSON.parse(data);
       records = parsedData.records || parsedData;
     } else if (format === 'csv') {
-      records = this.parseCSV(data);
+      const { rows } = parseEntityCsv(definition, data, options);
+      const errors = rows.flatMap(row => row.errors);
+      if (errors.length > 0) {
+        throw new ValidationFailedError(entityName, errors);
+      }
+      records = rows.map(row => row.data);
+    }
+
+    return this.bulkCreate(entityName, records);
+  }
+
+  /**
+   * An .xlsx workbook with one worksheet per entity, cells typed and
+   * formatted from the field definitions
+   */
+  async exportWorkbook(entityNames: string[], options: ReadOptions = {}): Promise<ArrayBuffer> {
+    const user = options.user ?? this.securityContext;
+    const sheets = entityNames.map(entityName => {
+      const entityData = this.entities.get(entityName);
+      if (!entityData) {
+        throw new NotFoundError(`Entity "${entityName}" not found`, { resource: 'entity', id: entityName });
+      }
+      this.authorize(entityData.definition, 'export', user);
+      return { definition: entityData.definition, records: this.filterReadable(entityData.records, user) };
+    });
+
+    const { getEntitySheet, writeWorkbook } = await import('./xlsx');
+    return writeWorkbook(sheets.map(({ definition, records }) => getEntitySheet(definition, records)));
+  }
+
+  /**
+   * Import every worksheet that maps to an entity, by sheet name or through
+   * `options.sheets`. Every row of every sheet is converted and validated
+   * first; the workbook is then written in one transaction, so it is
+   * imported completely or not at all. Returns a per-row report by sheet.
+   */
+  async importWorkbook(data: ArrayBuffer, options: XlsxReadOptions = {}): Promise<Record<string, BulkOperationReport>> {
+    const { readWorkbook } = await import('./xlsx');
+    const definitions = Array.from(this.entities.values()).map(entityData => entityData.definition);
+    const sheets = await readWorkbook(data, definitions, options);
+
+    const results = new Map<string, BulkRowResult[]>();
+    for (const sheet of sheets) {
+      this.authorize(this.requireDefinition(sheet.entity), 'import', this.securityContext);
+      const rows: BulkRowResult[] = [];
+      for (const [index, row] of sheet.rows.entries()) {
+        const errors = row.errors.length > 0 ? row.errors : await this.validateCreate(sheet.entity, row.data);
+        rows.push({ index, status: errors.length > 0 ? 'failed' : 'success', errors });
+      }
+      results.set(sheet.sheet, rows);
+    }
+
+    let committed = sheets.every(sheet => results.get(sheet.sheet)!.every(row => row.status === 'success'));
+    if (committed) {
+      let current: BulkRowResult | undefined;
+      try {
+        await this.transaction(async tx => {
+          for (const sheet of sheets) {
+            for (const [index, row] of sheet.rows.entries()) {
+              current = results.get(sheet.sheet)![index];
+              const record = await tx.create(sheet.entity, row.data);
+              current.record = record;
+              current.id = record.id;
+            }
+          }
+        });
+      } catch (error) {
+        committed = false;
+        if (current) {
+          Object.assign(current, { status: 'failed', record: undefined, errors: this.toValidationErrors(error) });
+        }
+      }
+    }
+
+    return Object.fromEntries(sheets.map(sheet => [sheet.sheet, this.createBulkReport(results.get(sheet.sheet)!, committed)]));
+  }
+
+  /**
+   * Import rows read from a file (see readImportFile) through a column
+   * mapping. Rows are converted, validated and written one at a time, so a
+   * bad row rejects only itself; the report says what happened to each.
+   * With `dryRun` every row is validated and nothing is written.
+   */
+  async importRecords(entityName: string, source: ImportSource, options: ImportOptions): Promise<ImportReport> {
+    const definition = this.requireDefinition(entityName);
+    const user = this.securityContext;
+    this.authorize(definition, 'import', user);
+
+    const mode = options.mode ?? 'insert';
+    const keyField = options.keyField;
+    if (mode !== 'insert' && !keyField) {
+      throw new ValidationFailedError(entityName, [
+        { field: 'keyField', message: `Import mode "${mode}" needs a key field`, code: 'REQUIRED', value: keyField }
+      ]);
+    }
+    for (const fieldName of [keyField, ...options.mapping]) {
+      if (fieldName && !definition.fields.some(field => field.name === fieldName)) {
+        throw new NotFoundError(`Field "${fieldName}" not found in entity "${entityName}"`, { resource: 'field', id: fieldName, entity: entityName });
+      }
+    }
+
+    // Key values seen so far, from existing records and earlier rows of the file
+    const keyOf = (value: unknown) =>
+      value instanceof Date ? value.toISOString() : typeof value === 'string' ? value.trim().toLowerCase() : String(value);
+    const keys = new Map<string, { id?: string; data: RecordData }>();
+    if (keyField) {
+      for (const record of this.filterReadable(this.entities.get(entityName)!.records, user)) {
+        const value = record.data[keyField];
+        if (value !== undefined && value !== null && value !== '') {
+          keys.set(keyOf(value), { id: record.id, data: record.data });
+        }
+      }
+    }
+
+    const results: ImportRowResult[] = [];
+    for (const row of mapImportRows(definition, source, options.mapping)) {
+      const key = keyField && row.data[keyField] !== undefined ? keyOf(row.data[keyField]) : undefined;
+      const match = key !== undefined ? keys.get(key) : undefined;
+      const action = !match || mode === 'insert' ? 'insert' : mode === 'upsert' ? 'update' : 'skip';
+      let id = match?.id;
+      let errors = row.errors;
+
+      if (action !== 'skip' && errors.length === 0 && options.dryRun) {
+        // A key repeated within the file updates a record the dry run has not created
+        const data = action === 'update' ? { ...match!.data, ...row.data } : row.data;
+        errors = action === 'update' && id
+          ? await this.validateUpdate(entityName, id, row.data)
+          : await this.validateCreate(entityName, data);
+        const permission = action === 'update' && id ? 'update' : 'create';
+        if (!hasPermission(definition, user, permission, data)) {
+          errors = [...errors, ...this.toValidationErrors(new PermissionDeniedError(entityName, permission, user?.id, id))];
+        }
+        // Like the real run, only rows that would succeed claim their key
+        if (key !== undefined && errors.length === 0) keys.set(key, { id, data });
+      } else if (action !== 'skip' && errors.length === 0) {
+        try {
+          const record = action === 'update'
+            ? await this.update(entityName, id!, row.data)
+            : await this.create(entityName, row.data);
+          id = record.id;
+          if (key !== undefined) keys.set(key, { id: record.id, data: record.data });
+        } catch (error) {
+          errors = this.toValidationErrors(error);
+        }
+      }
+
+      results.push({ line: row.line, action, status: errors.length > 0 ? 'failed' : 'success', id, data: row.data, errors });
     }
 
-    await this.bulkCreate(entityName, records);
+    const count = (predicate: (result: ImportRowResult) => boolean) => results.filter(predicate).length;
+    return {
+      dryRun: options.dryRun ?? false,
+      total: results.length,
+      inserted: count(result => result.status === 'success' && result.action === 'insert'),
+      updated: count(result => result.status === 'success' && result.action === 'update'),
+      skipped: count(result => result.action === 'skip'),
+      failed: count(result => result.status === 'failed'),
+      rows: results
+    };
   }
 
   // Private helper methods
 
+  /**
+   * Run one transaction at a time, so staged changes never interleave with
+   * another transaction's and a rollback never undoes someone else's commit
+   */
+  private async runTransaction<T>(work: (log: ChangeLog) => Promise<T>, context: TransactionContext): Promise<T> {
+    const previous = this.transactionQueue;
+    let release!: () => void;
+    this.transactionQueue = new Promise(resolve => { release = resolve; });
+    await previous;
+
+    const log = new ChangeLog({ user: context.user, reason: context.reason });
+
+    try {
+      const result = await work(log);
+      await this.commit(log);
+      return result;
+    } catch (error) {
+      this.rollback(log);
+      throw error;
+    } finally {
+      log.close();
+      release();
+    }
+  }
+
+  private requireDefinition(entityName: string): EntityDefinition {
+    const definition = this.definitions.get(entityName);
+    if (!definition) {
+      throw new NotFoundError(`Entity "${entityName}" not found`, { resource: 'entity', id: entityName });
+    }
+    return definition;
+  }
+
+  private findRecordIndex(entityName: string, id: string): number {
+    this.requireDefinition(entityName);
+    const recordIndex = this.entities.get(entityName)!.records.findIndex(record => record.id === id);
+
+    if (recordIndex === -1) {
+      throw new NotFoundError(`Record with ID "${id}" not found`, { resource: 'record', id, entity: entityName });
+    }
+    return recordIndex;
+  }
+
+  private async validateCreate(entityName: string, data: RecordData): Promise<ValidationError[]> {
+    const definition = this.requireDefinition(entityName);
+    const validationResult = await this.validationEngine.validate(data, definition, this.validationContext());
+    return [...validationResult.errors, ...validationResult.overridable, ...this.relationships.validateReferences(data, definition)];
+  }
+
+  private async validateUpdate(
+    entityName: string,
+    id: string,
+    updates: Partial<RecordData>,
+    expectedVersion?: number
+  ): Promise<ValidationError[]> {
+    const definition = this.requireDefinition(entityName);
+    const current = this.getRecord(entityName, id);
+    if (!current) {
+      return [{ field: 'id', message: `Record with ID "${id}" not found`, code: 'NOT_FOUND', value: id }];
+    }
+    if (expectedVersion !== undefined && (current.version ?? 1) !== expectedVersion) {
+      return this.toValidationErrors(new ConflictError(entityName, id, expectedVersion, current));
+    }
+
+    const updatedData = { ...current.data, ...updates };
+    const validationResult = await this.validationEngine.validate(updatedData, definition, {
+      ...this.validationContext(id),
+      changedFields: Object.keys(updates)
+    });
+    return [...validationResult.errors, ...validationResult.overridable, ...this.relationships.validateReferences(updatedData, definition)];
+  }
+
+  private validateExists(entityName: string, id: string): ValidationError[] {
+    this.requireDefinition(entityName);
+    return this.getRecord(entityName, id)
+      ? []
+      : [{ field: 'id', message: `Record with ID "${id}" not found`, code: 'NOT_FOUND', value: id }];
+  }
+
+  private async stageCreate(
+    entityName: string,
+    input: RecordData,
+    log: ChangeLog,
+    options: CreateOptions = {}
+  ): Promise<EntityRecord> {
+    log.assertOpen();
+    const definition = this.requireDefinition(entityName);
+    this.authorize(definition, 'create', this.getActor(log, options).user, input, options.id, Object.keys(input));
+    const ruled = await this.runRules(definition, ['before_save', 'on_create', 'on_change'], log, options, { recordId: options.id, data: input });
+    const data = this.formulas.apply(entityName, undefined, ruled.data);
+
+    // Validate the data and its references
+    const overridden = await this.validateWrite(definition, data, log, options, options.id);
+
+    // Create the record
+    const { userId, reason } = this.getActor(log, options);
+    const record: EntityRecord = {
+      id: options.id ?? this.generateId(),
+      entity: entityName,
+      data,
+      metadata: this.recordOverrides(undefined, overridden, options, userId),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: userId,
+      updatedBy: userId,
+      version: options.version ?? 1,
+      schemaVersion: getSchemaVersion(definition)
+    };
+
+    // Add to entity data
+    const entityData = this.entities.get(entityName)!;
+    entityData.records.push(record);
+    entityData.metadata.totalRecords++;
+    entityData.metadata.lastUpdated = new Date();
+    this.indexes.get(entityName)!.add(record);
+
+    log.record(
+      { type: 'create', entity: entityName, id: record.id, after: record, index: entityData.records.length - 1, userId, reason },
+      {
+        type: 'record:created',
+        entity: entityName,
+        recordId: record.id,
+        data: record,
+        timestamp: new Date(),
+        userId
+      }
+    );
+
+    await this.refreshDependentFormulas(entityName, undefined, record, log);
+
+    return this.runAfterRules(definition, 'after_save', record, log, options);
+  }
+
+  private async stageUpdate(
+    entityName: string,
+    id: string,
+    updates: Partial<Record<string, any>>,
+    log: ChangeLog,
+    options: UpdateOptions = {}
+  ): Promise<EntityRecord> {
+    log.assertOpen();
+    const definition = this.requireDefinition(entityName);
+    const entityData = this.entities.get(entityName)!;
+    const currentRecord = entityData.records[this.findRecordIndex(entityName, id)];
+    this.assertVersion(entityName, currentRecord, options);
+    if (!options.authorized) {
+      const nextData = { ...currentRecord.data, ...updates };
+      const changed = diffRecordData(currentRecord.data, nextData).map(change => change.field);
+      const { user } = this.getActor(log, options);
+      this.authorize(definition, 'update', user, currentRecord.data, id, changed);
+      // Row conditions must hold afterwards too, so an update cannot move a record out of the user's scope
+      this.authorize(definition, 'update', user, nextData, id, changed);
+    }
+
+    // Updates a workflow gates are held on the record until approved
+    if (!options.skipWorkflowGate) {
+      const gate = this.workflows.findGate(entityName, currentRecord.data, { ...currentRecord.data, ...updates }, this.getActor(log, options).user);
+      if (gate) {
+        return this.stageWorkflowStart(entityName, id, gate.id, updates, log, options);
+      }
+    }
+
+    const ruled = await this.runRules(definition, ['before_save', 'on_update', 'on_change'], log, options, {
+      recordId: id,
+      data: { ...currentRecord.data, ...updates },
+      previous: currentRecord.data
+    });
+    const updatedData = this.formulas.apply(entityName, id, ruled.data);
+
+    // Validate the updated data and its references. Overridable errors on
+    // fields this update leaves alone were accepted by an earlier write.
+    const changed = diffRecordData(currentRecord.data, updatedData).map(change => change.field);
+    const overridden = await this.validateWrite(definition, updatedData, log, options, id, changed);
+
+    // Update the record; rules may have added or removed records since the lookup
+    const recordIndex = this.findRecordIndex(entityName, id);
+    const { userId, reason } = this.getActor(log, options);
+    const updatedRecord: EntityRecord = {
+      ...currentRecord,
+      data: updatedData,
+      metadata: this.recordOverrides(currentRecord.metadata, overridden, options, userId),
+      updatedAt: new Date(),
+      updatedBy: userId,
+      version: (currentRecord.version || 1) + 1,
+      schemaVersion: getSchemaVersion(definition)
+    };
+
+    entityData.records[recordIndex] = updatedRecord;
+    entityData.metadata.lastUpdated = new Date();
+    this.indexes.get(entityName)!.replace(currentRecord, updatedRecord);
+
+    log.record(
+      { type: 'update', entity: entityName, id, before: currentRecord, after: updatedRecord, index: recordIndex, userId, reason },
+      {
+        type: 'record:updated',
+        entity: entityName,
+        recordId: id,
+        data: { previous: currentRecord, current: updatedRecord },
+        timestamp: new Date(),
+        userId
+      }
+    );
+
+    await this.refreshDependentFormulas(entityName, currentRecord, updatedRecord, log);
+
+    return this.runAfterRules(definition, 'after_save', updatedRecord, log, options);
+  }
+
+  private async stageDelete(entityName: string, id: string, log: ChangeLog, options: StageDeleteOptions = {}): Promise<void> {
+    log.assertOpen();
+    const entityData = this.entities.get(entityName);
+    if (!entityData) {
+      throw new NotFoundError(`Entity "${entityName}" not found`, { resource: 'entity', id: entityName });
+    }
+
+    // before_delete rules may touch other records first; their field edits are discarded
+    const target = entityData.records[this.findRecordIndex(entityName, id)];
+    this.assertVersion(entityName, target, options);
+    if (!options.authorized) {
+      this.authorize(entityData.definition, 'delete', this.getActor(log, options).user, target.data, id);
+    }
+    await this.runRules(entityData.definition, ['before_delete'], log, options, { recordId: id, data: target.data });
+
+    const recordIndex = this.findRecordIndex(entityName, id);
+    const deletedRecord = entityData.records[recordIndex];
+
+    // Refuse to orphan records unless their relationship cascades
+    const dependents = this.relationships.findDependents(entityName, id);
+    const blocking = dependents.filter(dependent => !dependent.cascade && !dependent.detach);
+    if (blocking.length > 0) {
+      throw new ReferentialIntegrityError(entityName, id, blocking.map(dependent => ({
+        entity: dependent.entity,
+        recordId: dependent.record.id,
+        relationship: dependent.relationship.name
+      })));
+    }
+
+    entityData.records.splice(recordIndex, 1);
+    entityData.metadata.totalRecords--;
+    entityData.metadata.lastUpdated = new Date();
+    this.indexes.get(entityName)!.remove(deletedRecord);
+
+    const { userId, reason } = this.getActor(log, options);
+    const soft = !!entityData.definition.softDelete?.enabled && !options.permanent;
+    const trashed = soft ? { ...deletedRecord, deletedAt: new Date(), deletedBy: userId } : undefined;
+    if (trashed) {
+      this.trash.get(entityName)!.set(id, trashed);
+    }
+
+    log.record(
+      { type: 'delete', entity: entityName, id, before: deletedRecord, trashed, index: recordIndex, userId, reason },
+      {
+        type: 'record:deleted',
+        entity: entityName,
+        recordId: id,
+        data: deletedRecord,
+        metadata: { softDelete: soft },
+        timestamp: new Date(),
+        userId
+      }
+    );
+
+    for (const dependent of dependents) {
+      // A dependent may already be gone through another cascade path
+      const current = this.getRecord(dependent.entity, dependent.record.id);
+      if (!current) continue;
+
+      if (dependent.detach) {
+        const field = getForeignKey(dependent.relationship, dependent.entity);
+        const remaining = (current.data[field] as unknown[]).filter(value => value !== id);
+        await this.stageUpdate(dependent.entity, dependent.record.id, { [field]: remaining }, log, { authorized: true });
+      } else {
+        await this.stageDelete(dependent.entity, dependent.record.id, log, { authorized: true });
+      }
+    }
+
+    await this.refreshDependentFormulas(entityName, deletedRecord, undefined, log);
+    await this.runAfterRules(entityData.definition, 'after_delete', deletedRecord, log, options);
+  }
+
+  private async stageRestore(entityName: string, id: string, log: ChangeLog, options: WriteOptions): Promise<EntityRecord> {
+    log.assertOpen();
+    const definition = this.requireDefinition(entityName);
+    const trashed = this.trash.get(entityName)?.get(id);
+    if (!trashed) {
+      throw new NotFoundError(`Record with ID "${id}" is not in the trash`, { resource: 'trash', id, entity: entityName });
+    }
+    this.authorize(definition, 'delete', this.getActor(log, options).user, trashed.data, id);
+
+    // References may point at records deleted since this one was trashed
+    const data = this.formulas.apply(entityName, id, trashed.data);
+    const overridden = await this.validateWrite(definition, data, log, options, id);
+
+    const { userId, reason } = this.getActor(log, options);
+    const record: EntityRecord = {
+      ...trashed,
+      data,
+      metadata: this.recordOverrides(trashed.metadata, overridden, options, userId),
+      updatedAt: new Date(),
+      updatedBy: userId,
+      version: (trashed.version || 1) + 1,
+      schemaVersion: getSchemaVersion(definition),
+      deletedAt: undefined,
+      deletedBy: undefined
+    };
+
+    const entityData = this.entities.get(entityName)!;
+    this.trash.get(entityName)!.delete(id);
+    entityData.records.push(record);
+    entityData.metadata.totalRecords++;
+    entityData.metadata.lastUpdated = new Date();
+    this.indexes.get(entityName)!.add(record);
+
+    log.record(
+      { type: 'create', entity: entityName, id, after: record, trashed, index: entityData.records.length - 1, userId, reason },
+      {
+        type: 'record:created',
+        entity: entityName,
+        recordId: id,
+        data: record,
+        metadata: { restoredFromTrash: true },
+        timestamp: new Date(),
+        userId
+      }
+    );
+
+    await this.refreshDependentFormulas(entityName, undefined, record, log);
+
+    return record;
+  }
+
+  /**
+   * Put a record into a workflow's initial state. With `pendingChanges`,
+   * those changes are held (merged into any already held by the same open
+   * workflow) instead of applied.
+   */
+  private async stageWorkflowStart(
+    entityName: string,
+    id: string,
+    workflowId: string,
+    pendingChanges: RecordData | undefined,
+    log: ChangeLog,
+    options: WriteOptions
+  ): Promise<EntityRecord> {
+    log.assertOpen();
+    const workflow = this.workflows.require(workflowId);
+    if (workflow.entity !== entityName) {
+      throw new NotFoundError(
+        `Workflow "${workflowId}" belongs to "${workflow.entity}", not "${entityName}"`,
+        { resource: 'workflow', id: workflowId, entity: entityName }
+      );
+    }
+
+    const record = this.entities.get(entityName)!.records[this.findRecordIndex(entityName, id)];
+    const current = record.workflow;
+    const currentWorkflow = current && this.workflows.get(current.workflowId);
+    const open = !!current && !isFinalState(currentWorkflow ? this.workflows.getState(currentWorkflow, current.state) : undefined);
+
+    if (open && current.workflowId !== workflowId) {
+      throw new WorkflowTransitionError(entityName, id, 'start', `already in workflow "${current.workflowId}"`);
+    }
+
+    if (open) {
+      if (!pendingChanges) return record;
+      return this.stageWorkflowState(entityName, id, {
+        ...current,
+        pendingChanges: { ...current.pendingChanges, ...pendingChanges }
+      }, log, options, {
+        type: 'workflow:started',
+        data: { workflowId, state: current.state, pendingChanges },
+        metadata: { merged: true }
+      });
+    }
+
+    const { userId } = this.getActor(log, options);
+    const next = this.workflows.enter(workflow, workflow.initialState, current, { userId });
+    next.pendingChanges = pendingChanges;
+
+    return this.stageWorkflowState(entityName, id, next, log, options, {
+      type: 'workflow:started',
+      data: { workflowId, state: next.state, pendingChanges }
+    });
+  }
+
+  private async stageTransition(
+    entityName: string,
+    id: string,
+    transitionName: string,
+    log: ChangeLog,
+    options: WorkflowTransitionOptions
+  ): Promise<EntityRecord> {
+    log.assertOpen();
+    const definition = this.requireDefinition(entityName);
+    const record = this.entities.get(entityName)!.records[this.findRecordIndex(entityName, id)];
+    this.assertVersion(entityName, record, options);
+
+    const current = record.workflow;
+    if (!current) {
+      throw new WorkflowTransitionError(entityName, id, transitionName, 'the record is not in a workflow');
+    }
+    const workflow = this.workflows.require(current.workflowId);
+    const transition = workflow.transitions.find(candidate => candidate.name === transitionName);
+    if (!transition) {
+      throw new WorkflowTransitionError(entityName, id, transitionName, `workflow "${workflow.id}" has no such transition`);
+    }
+
+    const { user, userId } = this.getActor(log, options);
+    const problem = this.workflows.checkTransition(workflow, current, transition, record.data, user, options.automatic);
+    if (problem) {
+      throw new WorkflowTransitionError(entityName, id, transitionName, problem);
+    }
+    if (transition.requireComment && !options.comment?.trim()) {
+      throw new WorkflowTransitionError(entityName, id, transitionName, 'a comment is required');
+    }
+
+    const target = this.workflows.getState(workflow, transition.to)!;
+    if (target.outcome && !options.automatic) {
+      this.authorize(definition, 'approve', user, record.data, id);
+    }
+
+    const next = this.workflows.enter(workflow, transition.to, current, {
+      transition: transition.name,
+      userId,
+      comment: options.comment
+    });
+    if (target.outcome) {
+      next.pendingChanges = undefined;
+    }
+
+    const updated = this.stageWorkflowState(entityName, id, next, log, options, {
+      type: 'workflow:transitioned',
+      data: { workflowId: workflow.id, transition: transition.name, from: current.state, to: transition.to, comment: options.comment },
+      metadata: target.outcome ? { outcome: target.outcome } : undefined
+    });
+
+    const pending = current.pendingChanges ?? {};
+    if (target.outcome === 'approved' && Object.keys(pending).length > 0) {
+      return this.stageUpdate(entityName, id, pending, log, {
+        user: options.user,
+        reason: options.reason ?? options.comment,
+        skipWorkflowGate: true,
+        authorized: true
+      });
+    }
+    return updated;
+  }
+
+  /**
+   * Replace a record's workflow state without touching its data
+   */
+  private stageWorkflowState(
+    entityName: string,
+    id: string,
+    workflow: RecordWorkflowState,
+    log: ChangeLog,
+    options: WriteOptions,
+    event: WorkflowEventInit
+  ): EntityRecord {
+    const entityData = this.entities.get(entityName)!;
+    const recordIndex = this.findRecordIndex(entityName, id);
+    const currentRecord = entityData.records[recordIndex];
+
+    const { userId, reason } = this.getActor(log, options);
+    const updatedRecord: EntityRecord = {
+      ...currentRecord,
+      workflow,
+      updatedAt: new Date(),
+      updatedBy: userId,
+      version: (currentRecord.version || 1) + 1
+    };
+
+    entityData.records[recordIndex] = updatedRecord;
+    entityData.metadata.lastUpdated = new Date();
+    this.indexes.get(entityName)!.replace(currentRecord, updatedRecord);
+
+    log.record(
+      { type: 'update', entity: entityName, id, before: currentRecord, after: updatedRecord, index: recordIndex, userId, reason },
+      { ...event, entity: entityName, recordId: id, timestamp: new Date(), userId }
+    );
+    return updatedRecord;
+  }
+
+  private stagePurge(entityName: string, id: string, log: ChangeLog, options: WriteOptions): void {
+    log.assertOpen();
+    const definition = this.requireDefinition(entityName);
+    const trashed = this.trash.get(entityName)?.get(id);
+    if (!trashed) {
+      throw new NotFoundError(`Record with ID "${id}" is not in the trash`, { resource: 'trash', id, entity: entityName });
+    }
+    this.authorize(definition, 'delete', this.getActor(log, options).user, trashed.data, id);
+
+    this.trash.get(entityName)!.delete(id);
+
+    const { userId, reason } = this.getActor(log, options);
+    log.record(
+      { type: 'purge', entity: entityName, id, trashed, index: -1, userId, reason },
+      {
+        type: 'record:deleted',
+        entity: entityName,
+        recordId: id,
+        data: trashed,
+        metadata: { purged: true },
+        timestamp: new Date(),
+        userId
+      }
+    );
+  }
+
+  private createTransaction(log: ChangeLog): EntityTransaction {
+    return {
+      create: (entityName, data, options) => this.stageCreate(entityName, data, log, options),
+      update: (entityName, id, updates, options) => this.stageUpdate(entityName, id, updates, log, options),
+      delete: (entityName, id, options) => this.stageDelete(entityName, id, log, options),
+      get: (entityName, id) => this.get(entityName, id, { user: this.getActor(log, {}).user })
+    };
+  }
+
+  /**
+   * Run business rules for a write and queue a `rule:executed` event per
+   * rule that fired. The result's data carries the rules' field edits.
+   */
+  private async runRules(
+    definition: EntityDefinition,
+    triggers: RuleTrigger[],
+    log: ChangeLog,
+    options: WriteOptions,
+    context: { recordId?: string; data: RecordData; previous?: RecordData },
+    ruleName?: string
+  ): Promise<RuleRunResult> {
+    if (definition.businessRules.length === 0) return { data: context.data, traces: [] };
+
+    const { user, userId } = this.getActor(log, options);
+    const result = await this.rules.run(definition, triggers, { ...context, user, log, tx: this.createTransaction(log) }, ruleName);
+
+    for (const trace of result.traces) {
+      log.queueEvent({
+        type: 'rule:executed',
+        entity: definition.name,
+        recordId: trace.recordId,
+        data: trace,
+        metadata: { rule: trace.rule, trigger: trace.trigger },
+        timestamp: new Date(),
+        userId
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Run after_save/after_delete rules and write back any field edits they
+   * made to a saved record. Returns the record as it now stands.
+   */
+  private async runAfterRules(
+    definition: EntityDefinition,
+    trigger: 'after_save' | 'after_delete',
+    record: EntityRecord,
+    log: ChangeLog,
+    options: WriteOptions
+  ): Promise<EntityRecord> {
+    const { data } = await this.runRules(definition, [trigger], log, options, { recordId: record.id, data: record.data });
+    const changes = diffRecordData(record.data, data);
+    const current = this.getRecord(definition.name, record.id);
+    if (trigger === 'after_delete' || changes.length === 0 || !current) {
+      return current ?? record;
+    }
+
+    // The write-back runs the rules again; edits on every pass would never end
+    const key = `${definition.name}.${trigger}@${record.id}`;
+    if (log.ruleStack.includes(key)) {
+      throw new RuleLoopError(definition.name, [...log.ruleStack, key]);
+    }
+
+    const { user, reason } = this.getActor(log, options);
+    const updates = Object.fromEntries(changes.map(change => [change.field, change.after]));
+    log.ruleStack.push(key);
+    try {
+      return await this.stageUpdate(definition.name, record.id, updates, log, { user, reason, override: options.override, authorized: true });
+    } finally {
+      log.ruleStack.pop();
+    }
+  }
+
+  /**
+   * Validate data for a write. Throws ValidationFailedError unless every
+   * error is overridable and covered by the write's override; returns the
+   * overridden errors. With `changedFields`, overridable errors and
+   * cross-record rules on other fields are ignored.
+   */
+  private async validateWrite(
+    definition: EntityDefinition,
+    data: RecordData,
+    log: ChangeLog,
+    options: WriteOptions,
+    recordId?: string,
+    changedFields?: string[]
+  ): Promise<ValidationError[]> {
+    if (options.override && !options.override.reason?.trim()) {
+      throw new ValidationFailedError(definition.name, [
+        { field: 'override', message: 'A reason is required to override validation', code: 'OVERRIDE_REASON_REQUIRED' }
+      ]);
+    }
+
+    const { user } = this.getActor(log, options);
+    const result = await this.validationEngine.validate(data, definition, {
+      ...this.validationContext(recordId),
+      user,
+      override: options.override,
+      changedFields
+    });
+    const relevant = (error: ValidationError) => !changedFields || changedFields.includes(error.field);
+    const errors = [
+      ...result.errors,
+      ...result.overridable.filter(relevant),
+      ...this.relationships.validateReferences(data, definition)
+    ];
+    if (errors.length > 0) {
+      throw new ValidationFailedError(definition.name, errors);
+    }
+    return result.overridden.filter(relevant);
+  }
+
+  /**
+   * Record metadata with the overridden errors appended to its overrides
+   */
+  private recordOverrides(
+    metadata: RecordMetadata | undefined,
+    overridden: ValidationError[],
+    options: WriteOptions,
+    userId: string | undefined
+  ): RecordMetadata | undefined {
+    if (overridden.length === 0 || !options.override) return metadata;
+
+    const timestamp = new Date();
+    const entries: ValidationOverrideEntry[] = overridden.map(error => ({
+      field: error.field,
+      code: error.code,
+      message: error.message,
+      value: error.value,
+      reason: options.override!.reason.trim(),
+      userId,
+      timestamp
+    }));
+    return { ...metadata, overrides: [...(metadata?.overrides ?? []), ...entries] };
+  }
+
+  private getActor(log: ChangeLog, options: WriteOptions): { user?: UserContext; userId?: string; reason?: string } {
+    const user = options.user ?? log.context.user ?? this.securityContext;
+    return {
+      user,
+      userId: user?.id,
+      reason: options.reason ?? log.context.reason
+    };
+  }
+
+  private assertVersion(entityName: string, record: EntityRecord, options: WriteOptions): void {
+    if (options.expectedVersion !== undefined && (record.version ?? 1) !== options.expectedVersion) {
+      throw new ConflictError(entityName, record.id, options.expectedVersion, record);
+    }
+  }
+
+  /**
+   * Recompute formulas in other entities that aggregate or look up the
+   * changed record, staging updates only where a value actually changed
+   */
+  private async refreshDependentFormulas(
+    entityName: string,
+    before: EntityRecord | undefined,
+    after: EntityRecord | undefined,
+    log: ChangeLog
+  ): Promise<void> {
+    for (const { entity, relationship } of this.formulas.getDependencies(entityName)) {
+      const field = getForeignKey(relationship, entity);
+      const affectedIds = new Set<string>();
+
+      if (isOwningSide(relationship)) {
+        // Source records hold a key pointing at the changed record
+        const changedId = (after ?? before)!.id;
+        this.findRecordsByField(entity, field, changedId).forEach(record => affectedIds.add(record.id));
+      } else {
+        // The changed record is a child holding its parent's id
+        for (const snapshot of [before, after]) {
+          const parentId = snapshot?.data[field];
+          if (parentId != null) affectedIds.add(String(parentId));
+        }
+      }
+
+      for (const id of affectedIds) {
+        const record = this.getRecord(entity, id);
+        if (!record) continue;
+
+        const recomputed = this.formulas.apply(entity, id, record.data);
+        const changes = this.formulas.diff(entity, record.data, recomputed);
+        if (Object.keys(changes).length > 0) {
+          // A system recompute: never held for workflow approval
+          await this.stageUpdate(entity, id, changes, log, { authorized: true, skipWorkflowGate: true });
+        }
+      }
+    }
+  }
+
+  /**
+   * Persist staged changes, then emit their events
+   */
+  private async commit(log: ChangeLog): Promise<void> {
+    const persisted: RecordChange[] = [];
+
+    try {
+      for (const change of log.changes) {
+        await this.persistChange(change);
+        persisted.push(change);
+      }
+    } catch (error) {
+      // Compensate writes that reached storage before the failure
+      for (const change of persisted.reverse()) {
+        await this.persistChange(this.invertChange(change)).catch(compensationError => {
+          console.error('Failed to compensate storage write:', compensationError);
+        });
+      }
+      throw error;
+    }
+
+    log.close();
+
+    for (const change of log.changes) {
+      await this.audit.append(change).catch(error => {
+        console.error(`Failed to write audit entry for ${change.entity}:${change.id}:`, error);
+      });
+    }
+
+    for (const event of log.events) {
+      this.publish(event);
+    }
+
+    for (const effect of log.effects) {
+      this.track(Promise.resolve().then(effect).catch(error => {
+        console.error('Post-commit effect failed:', error);
+      }));
+    }
+  }
+
+  /**
+   * Current data, or the last known data of a deleted record, for permission conditions
+   */
+  private getLatestData(entityName: string, recordId: string): RecordData | undefined {
+    return this.getRecord(entityName, recordId)?.data ??
+      this.audit.getRecordHistory(entityName, recordId).filter(entry => entry.data).pop()?.data ??
+      undefined;
+  }
+
+  private assertHistoryAccess(definition: EntityDefinition, recordId: string, user: UserContext | undefined): void {
+    if (!hasPermission(definition, user, 'audit', this.getLatestData(definition.name, recordId))) {
+      throw this.denyPermission(definition.name, 'audit', user, recordId);
+    }
+  }
+
+  /**
+   * Hide fields the user may not read from history snapshots and diffs
+   */
+  private redactAuditEntry(definition: EntityDefinition, entry: AuditEntry, user: UserContext | undefined): AuditEntry {
+    const hidden = getRestrictedFields(definition, user, 'read', entry.data ?? undefined);
+    if (hidden.size === 0) return entry;
+
+    return {
+      ...entry,
+      data: entry.data && Object.fromEntries(Object.entries(entry.data).filter(([field]) => !hidden.has(field))),
+      changes: entry.changes.filter(change => !hidden.has(change.field))
+    };
+  }
+
+  private denyPermission(
+    entityName: string,
+    action: PermissionAction,
+    user: UserContext | undefined,
+    recordId?: string,
+    fields?: string[]
+  ): PermissionDeniedError {
+    this.publish({
+      type: 'permission:denied',
+      entity: entityName,
+      recordId,
+      data: { action, fields },
+      timestamp: new Date(),
+      userId: user?.id
+    });
+    return new PermissionDeniedError(entityName, action, user?.id, recordId, fields);
+  }
+
+  /**
+   * Throw unless the user may perform the action: on the entity, on the
+   * record when `data` is given, and on each of `fields`
+   */
+  private authorize(
+    definition: EntityDefinition,
+    action: PermissionAction,
+    user: UserContext | undefined,
+    data?: RecordData,
+    recordId?: string,
+    fields: string[] = []
+  ): void {
+    if (!isRestricted(definition)) return;
+
+    if (!hasPermission(definition, user, action, data)) {
+      throw this.denyPermission(definition.name, action, user, recordId);
+    }
+
+    const restricted = getRestrictedFields(definition, user, action, data);
+    const blocked = fields.filter(field => restricted.has(field));
+    if (blocked.length > 0) {
+      throw this.denyPermission(definition.name, action, user, recordId, blocked);
+    }
+  }
+
+  private canRead(record: EntityRecord, user: UserContext | undefined): boolean {
+    const definition = this.definitions.get(record.entity);
+    return !definition || hasPermission(definition, user, 'read', record.data);
+  }
+
+  /**
+   * Drop fields the user may not read, and related records they may not
+   * read at all
+   */
+  private redactRecord(record: EntityRecord, user: UserContext | undefined): EntityRecord {
+    const definition = this.definitions.get(record.entity);
+    const hidden = definition ? getRestrictedFields(definition, user, 'read', record.data) : new Set<string>();
+    if (hidden.size === 0 && !record.related) return record;
+
+    const related = record.related && Object.fromEntries(
+      Object.entries(record.related).map(([name, value]) => [
+        name,
+        Array.isArray(value) ? this.filterReadable(value, user) : (value && this.filterReadable([value], user)[0]) ?? null
+      ])
+    );
+    return { ...record, data: redactData(record.data, hidden), related };
+  }
+
+  private filterReadable(records: EntityRecord[], user: UserContext | undefined): EntityRecord[] {
+    return records.filter(record => this.canRead(record, user)).map(record => this.redactRecord(record, user));
+  }
+
+  /**
+   * Undo staged in-memory changes in reverse order
+   */
+  private rollback(log: ChangeLog): void {
+    for (const change of [...log.changes].reverse()) {
+      const entityData = this.entities.get(change.entity);
+      const indexes = this.indexes.get(change.entity);
+      const trash = this.trash.get(change.entity);
+      if (!entityData || !indexes || !trash) continue;
+
+      // Undo the trash side first: restores and purges took the record out, soft deletes put it in
+      if (change.trashed) {
+        if (change.type === 'delete') {
+          trash.delete(change.id);
+        } else {
+          trash.set(change.id, change.trashed);
+        }
+      }
+
+      if (change.type === 'purge') {
+        continue;
+      } else if (change.type === 'create') {
+        const index = entityData.records.findIndex(record => record.id === change.id);
+        if (index !== -1) {
+          entityData.records.splice(index, 1);
+          entityData.metadata.totalRecords--;
+          indexes.remove(change.after!);
+        }
+      } else if (change.type === 'update') {
+        const index = entityData.records.findIndex(record => record.id === change.id);
+        if (index !== -1) {
+          entityData.records[index] = change.before!;
+          indexes.replace(change.after!, change.before!);
+        }
+      } else if (!entityData.records.some(record => record.id === change.id)) {
+        entityData.records.splice(Math.min(change.index, entityData.records.length), 0, change.before!);
+        entityData.metadata.totalRecords++;
+        indexes.add(change.before!);
+      }
+      entityData.metadata.lastUpdated = new Date();
+    }
+  }
+
+  private async persistChange(change: RecordChange): Promise<void> {
+    if (change.type === 'delete' && change.trashed) {
+      // Soft-deleted records stay in storage, marked with deletedAt
+      await this.storage.putRecord(change.trashed);
+    } else if (change.type === 'delete' || change.type === 'purge') {
+      await this.storage.deleteRecord(change.entity, change.id);
+    } else {
+      await this.storage.putRecord(change.after!);
+    }
+    this.pendingMigrations.get(change.entity)?.delete(change.id);
+  }
+
+  private invertChange(change: RecordChange): RecordChange {
+    switch (change.type) {
+      case 'create':
+        // A restored record goes back to its trashed copy
+        return { ...change, type: 'delete', before: change.after, after: undefined };
+      case 'delete':
+        return { ...change, type: 'create', before: undefined, after: change.before };
+      case 'purge':
+        return { ...change, type: 'delete' };
+      default:
+        return { ...change, before: change.after, after: change.before };
+    }
+  }
+
+  /**
+   * Validate every row up front, then apply all rows in one transaction
+   */
+  private async runAtomicBulk<TInput>(
+    inputs: TInput[],
+    validate: (input: TInput) => Promise<ValidationError[]> | ValidationError[],
+    apply: (tx: EntityTransaction, input: TInput) => Promise<EntityRecord | void>,
+    getId?: (input: TInput) => string
+  ): Promise<BulkOperationReport> {
+    const rows: BulkRowResult[] = [];
+
+    for (const [index, input] of inputs.entries()) {
+      const errors = await validate(input);
+      rows.push({ index, id: getId?.(input), status: errors.length > 0 ? 'failed' : 'success', errors });
+    }
+
+    if (rows.some(row => row.status === 'failed')) {
+      return this.createBulkReport(rows, false);
+    }
+
+    let failedIndex = -1;
+    try {
+      await this.transaction(async tx => {
+        for (const [index, input] of inputs.entries()) {
+          failedIndex = index;
+          const record = await apply(tx, input);
+          if (record) {
+            rows[index].record = record;
+            rows[index].id = record.id;
+          }
+        }
+      });
+    } catch (error) {
+      rows[failedIndex] = { ...rows[failedIndex], status: 'failed', record: undefined, errors: this.toValidationErrors(error) };
+      return this.createBulkReport(rows, false);
+    }
+
+    return this.createBulkReport(rows, true);
+  }
+
+  private createBulkReport(rows: BulkRowResult[], committed: boolean): BulkOperationReport {
+    const finalRows = committed
+      ? rows
+      : rows.map(row => row.status === 'success' ? { ...row, status: 'rolled_back' as const, record: undefined } : row);
+
+    return {
+      committed,
+      total: finalRows.length,
+      succeeded: finalRows.filter(row => row.status === 'success').length,
+      failed: finalRows.filter(row => row.status === 'failed').length,
+      rows: finalRows
+    };
+  }
+
+  private toValidationErrors(error: unknown): ValidationError[] {
+    if (error instanceof ValidationFailedError) {
+      return error.errors;
+    }
+    if (error instanceof ConflictError) {
+      return [{ field: 'version', message: error.message, code: 'VERSION_CONFLICT', value: error.actualVersion }];
+    }
+    if (error instanceof PermissionDeniedError) {
+      return [{ field: error.fields?.[0] ?? 'general', message: error.message, code: 'PERMISSION_DENIED' }];
+    }
+    return [{
+      field: 'general',
+      message: error instanceof Error ? error.message : String(error),
+      code: 'OPERATION_FAILED'
+    }];
+  }
+
+  /**
+   * Migration chains for every stored schema version that differs from the
+   * definition's. Records without a schemaVersion count as `fallbackVersion`.
+   */
+  private resolveMigrationPaths(
+    definition: EntityDefinition,
+    records: EntityRecord[],
+    fallbackVersion: string
+  ): Map<string, MigrationDefinition[]> {
+    const target = getSchemaVersion(definition);
+    const paths = new Map<string, MigrationDefinition[]>();
+
+    for (const record of records) {
+      const from = record.schemaVersion ?? fallbackVersion;
+      if (from !== target && !paths.has(from)) {
+        paths.set(from, findMigrationPath(definition, from, target));
+      }
+    }
+
+    return paths;
+  }
+
+  private migrateRecords(
+    definition: EntityDefinition,
+    records: EntityRecord[],
+    paths: Map<string, MigrationDefinition[]>,
+    fallbackVersion: string,
+    mode: MigrationMode
+  ): EntityRecord[] {
+    return records.map(record => {
+      const path = paths.get(record.schemaVersion ?? fallbackVersion);
+      if (!path) return record;
+
+      const migrated: EntityRecord = {
+        ...record,
+        data: this.formulas.apply(definition.name, record.id, migrateRecordData(record.data, path)),
+        schemaVersion: getSchemaVersion(definition)
+      };
+
+      if (mode === 'eager') {
+        this.track(this.storage.putRecord(migrated));
+      } else {
+        if (!this.pendingMigrations.has(definition.name)) {
+          this.pendingMigrations.set(definition.name, new Set());
+        }
+        this.pendingMigrations.get(definition.name)!.add(record.id);
+      }
+      return migrated;
+    });
+  }
+
+  private createEntityData(definition: EntityDefinition, records: EntityRecord[]): EntityData {
+    return {
+      entity: definition.name,
+      definition,
+      records,
+      metadata: {
+        totalRecords: records.length,
+        lastUpdated: new Date(),
+        source: this.storage.name,
+        version: getSchemaVersion(definition),
+        schema: definition
+      }
+    };
+  }
+
+  /**
+   * Append an event to the event log and hand it to the bus without
+   * waiting for its handlers
+   */
+  private publish(event: EntityEvent): void {
+    this.track(this.eventLog.append(event).then(() => undefined));
+    this.eventBus.emit(event).catch(error => {
+      console.error(`Event handler failed for ${event.type}:`, error);
+    });
+  }
+
+  private track(write: Promise<void>): void {
+    const pending = write
+      .catch(error => {
+        console.error('Storage write failed:', error);
+      })
+      .finally(() => {
+        this.pendingWrites.delete(pending);
+      });
+    this.pendingWrites.add(pending);
+  }
+
+  /**
+   * A live record regardless of permissions, for the engine's own use
+   */
+  private getRecord(entityName: string, id: string): EntityRecord | undefined {
+    return this.indexes.get(entityName)?.getRecord(id);
+  }
+
+  private findRecordsByField(
+    entityName: string,
+    field: string,
+    value: unknown,
+    options: { ignoreCase?: boolean } = {}
+  ): EntityRecord[] {
+    const entityData = this.entities.get(entityName);
+    const indexes = this.indexes.get(entityName);
+    if (!entityData || !indexes) return [];
+
+    // Case-insensitive matches cannot come from the hash index
+    const ignoreCase = options.ignoreCase && typeof value === 'string';
+    const matches = (candidate: unknown) => ignoreCase
+      ? typeof candidate === 'string' && candidate.toLowerCase() === (value as string).toLowerCase()
+      : candidate === value;
+
+    const ids = ignoreCase ? null : indexes.getIndex(field)?.lookup({ field, operator: 'eq', value });
+    const candidates = ids ? indexes.inInsertionOrder(ids) : entityData.records;
+    return candidates.filter(record => {
+      const fieldValue = record.data[field];
+      return matches(fieldValue) || (Array.isArray(fieldValue) && fieldValue.some(matches));
+    });
+  }
+
+  /**
+   * Context that lets cross-record rules see live records (including those
+   * staged by an open transaction)
+   */
+  private validationContext(recordId?: string): ValidationContext {
+    return { recordId, lookup: this.recordLookup };
+  }
+
   private generateId(): string {
     return Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
   }
@@ -366,50 +2326,6 @@ export class EntityEngine {
     });
   }
 
-  private applyFilters(records: EntityRecord[], filters: FilterConfig[]): EntityRecord[] {
-    return records.filter(record => {
-      return filters.every((filter, index) => {
-        const value = record.data[filter.field];
-        const matches = this.evaluateFilterCondition(value, filter);
-        
-        // Handle logical operators between filters
-        if (index > 0 && filter.logicalOperator === 'or') {
-          // OR logic with previous filter
-          const prevFilter = filters[index - 1];
-          const prevValue = record.data[prevFilter.field];
-          const prevMatches = this.evaluateFilterCondition(prevValue, prevFilter);
-          return matches || prevMatches;
-        }
-        
-        return matches;
-      });
-    });
-  }
-
-  private evaluateFilterCondition(value: any, filter: FilterConfig): boolean {
-    switch (filter.operator) {
-      case 'eq': return value === filter.value;
-      case 'ne': return value !== filter.value;
-      case 'gt': return value > filter.value;
-      case 'gte': return value >= filter.value;
-      case 'lt': return value < filter.value;
-      case 'lte': return value <= filter.value;
-      case 'in': return Array.isArray(filter.value) && filter.value.includes(value);
-      case 'not_in': return Array.isArray(filter.value) && !filter.value.includes(value);
-      case 'contains': return String(value).toLowerCase().includes(String(filter.value).toLowerCase());
-      case 'starts_with': return String(value).toLowerCase().startsWith(String(filter.value).toLowerCase());
-      case 'ends_with': return String(value).toLowerCase().endsWith(String(filter.value).toLowerCase());
-      case 'is_null': return value == null;
-      case 'is_not_null': return value != null;
-      case 'between': 
-        return Array.isArray(filter.value) && 
-               filter.value.length === 2 && 
-               value >= filter.value[0] && 
-               value <= filter.value[1];
-      default: return true;
-    }
-  }
-
   private applySort(records: EntityRecord[], sortConfigs: SortConfig[]): EntityRecord[] {
     return records.sort((a, b) => {
       for (const sortConfig of sortConfigs) {
@@ -428,45 +2344,6 @@ export class EntityEngine {
       return 0;
     });
   }
-
-  private convertToCSV(records: EntityRecord[], definition: EntityDefinition): string {
-    if (records.length === 0) return '';
-
-    const headers = definition.fields.map(field => field.displayName);
-    const rows = records.map(record => 
-      definition.fields.map(field => {
-        const value = record.data[field.name];
-        return this.csvEscape(String(value || ''));
-      })
-    );
-
-    return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
-  }
-
-  private csvEscape(value: string): string {
-    if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-      return `"${value.replace(/"/g, '""')}"`;
-    }
-    return value;
-  }
-
-  private parseCSV(csv: string): any[] {
-    const lines = csv.split('\n').filter(line => line.trim());
-    if (lines.length < 2) return [];
-
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-    
-    return lines.slice(1).map(line => {
-      const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-      const record: Record<string, any> = {};
-      
-      headers.forEach((header, index) => {
-        record[header] = values[index] || '';
-      });
-      
-      return record;
-    });
-  }
 }
 
 // Singleton instance
@@ -0,0 +1,187 @@
+// Entity Engine Errors
+
+import type { EntityEvent, EntityRecord, PermissionAction, ValidationError } from '../../types/entity';
+import { PlatformError } from '../errors';
+
+export { NotFoundError } from '../errors';
+
+/**
+ * Thrown when a record fails ValidationEngine checks
+ */
+export class ValidationFailedError extends PlatformError {
+  public entity: string;
+  public errors: ValidationError[];
+
+  constructor(entity: string, errors: ValidationError[]) {
+    super('validation', `Validation failed: ${errors.map(e => e.message).join(', ')}`);
+    this.name = 'ValidationFailedError';
+    this.entity = entity;
+    this.errors = errors;
+  }
+
+  /**
+   * Errors a user with the right role could save over with an override
+   */
+  get overridable(): ValidationError[] {
+    return this.errors.filter(error => error.overridable);
+  }
+
+  /**
+   * True when every error could be overridden
+   */
+  get isOverridable(): boolean {
+    return this.errors.length > 0 && this.errors.every(error => error.overridable);
+  }
+}
+
+/**
+ * Thrown when deleting a record that other records still reference
+ */
+export class ReferentialIntegrityError extends PlatformError {
+  public entity: string;
+  public recordId: string;
+  public dependents: Array<{ entity: string; recordId: string; relationship: string }>;
+
+  constructor(
+    entity: string,
+    recordId: string,
+    dependents: Array<{ entity: string; recordId: string; relationship: string }>
+  ) {
+    const summary = Array.from(new Set(dependents.map(d => d.entity))).join(', ');
+    super('conflict', `Record "${recordId}" in "${entity}" is still referenced by ${dependents.length} record(s) in: ${summary}`);
+    this.name = 'ReferentialIntegrityError';
+    this.entity = entity;
+    this.recordId = recordId;
+    this.dependents = dependents;
+  }
+}
+
+/**
+ * Thrown when a write expected a record version that is no longer current
+ */
+export class ConflictError extends PlatformError {
+  public entity: string;
+  public recordId: string;
+  public expectedVersion: number;
+  public actualVersion: number;
+  /** The record as currently stored, for showing or merging the other change */
+  public current: EntityRecord;
+
+  constructor(entity: string, recordId: string, expectedVersion: number, current: EntityRecord) {
+    const actualVersion = current.version ?? 1;
+    super('conflict', `Record "${recordId}" in "${entity}" was modified: expected version ${expectedVersion}, found ${actualVersion}`);
+    this.name = 'ConflictError';
+    this.entity = entity;
+    this.recordId = recordId;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+    this.current = current;
+  }
+}
+
+/**
+ * Thrown when the user's roles do not grant an action on an entity or record
+ */
+export class PermissionDeniedError extends PlatformError {
+  public entity: string;
+  public action: PermissionAction;
+  public userId?: string;
+  public recordId?: string;
+  public fields?: string[]; // Set when field-level restrictions caused the denial
+
+  constructor(entity: string, action: PermissionAction, userId?: string, recordId?: string, fields?: string[]) {
+    super(
+      'permission',
+      `${userId ? `User "${userId}"` : 'Anonymous user'} is not allowed to ${action} ` +
+      `${fields?.length ? `field${fields.length === 1 ? '' : 's'} ${fields.map(field => `"${field}"`).join(', ')} of ` : ''}` +
+      `${recordId ? `record "${recordId}" in ` : ''}"${entity}"`
+    );
+    this.name = 'PermissionDeniedError';
+    this.entity = entity;
+    this.action = action;
+    this.userId = userId;
+    this.recordId = recordId;
+    this.fields = fields;
+  }
+}
+
+/**
+ * Thrown when business rules keep re-triggering each other
+ */
+export class RuleLoopError extends PlatformError {
+  public entity: string;
+  public path: string[];
+
+  constructor(entity: string, path: string[]) {
+    super('internal', `Business rule loop detected in "${entity}": ${path.join(' -> ')}`);
+    this.name = 'RuleLoopError';
+    this.entity = entity;
+    this.path = path;
+  }
+}
+
+/**
+ * Thrown when a workflow transition is not available for a record
+ */
+export class WorkflowTransitionError extends PlatformError {
+  public entity: string;
+  public recordId: string;
+  public transition: string;
+
+  constructor(entity: string, recordId: string, transition: string, reason: string) {
+    super('conflict', `Cannot ${transition} record "${recordId}" in "${entity}": ${reason}`);
+    this.name = 'WorkflowTransitionError';
+    this.entity = entity;
+    this.recordId = recordId;
+    this.transition = transition;
+  }
+}
+
+/**
+ * Thrown when a transaction is used after it committed or rolled back
+ */
+export class TransactionClosedError extends PlatformError {
+  constructor() {
+    super('internal', 'Transaction has already completed');
+    this.name = 'TransactionClosedError';
+  }
+}
+
+/**
+ * Thrown when a workflow, formula, cron schedule or option is set up wrong,
+ * so no call with it can succeed until the configuration changes
+ */
+export class ConfigurationError extends PlatformError {
+  constructor(message: string) {
+    super('validation', message);
+    this.name = 'ConfigurationError';
+  }
+}
+
+/**
+ * Wraps an error thrown by an event listener
+ */
+export class EventHandlerError extends PlatformError {
+  public event: EntityEvent;
+  public pattern: string;
+
+  constructor(event: EntityEvent, pattern: string, cause: unknown) {
+    super('internal', `Event handler for "${pattern}" failed on ${event.type}: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.name = 'EventHandlerError';
+    this.event = event;
+    this.pattern = pattern;
+  }
+}
+
+/**
+ * Thrown when CSV input is malformed, e.g. a quoted field never closes
+ */
+export class CsvParseError extends PlatformError {
+  public line: number;
+
+  constructor(message: string, line: number) {
+    super('validation', `CSV line ${line}: ${message}`);
+    this.name = 'CsvParseError';
+    this.line = line;
+  }
+}
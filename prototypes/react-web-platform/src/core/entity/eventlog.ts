@@ -0,0 +1,172 @@
+// Event Log for Entity Engine
+//
+// Append-only copy of the events the engine publishes that consumers need
+// (record events unless a consumer retains more), kept in the 'events'
+// system collection so it outlives the page. Consumers read from their own
+// offset, stored in 'event_offsets', and commit it once they have handled
+// an event, so after a reload they resume where they stopped. Events every
+// consumer has handled are dropped.
+
+import type { EntityEvent, EntityEventPattern, EventConsumerOffset, StoredEvent } from '../../types/entity';
+import type { StorageProvider } from './storage';
+import { matchEventPattern } from './events';
+
+export const EVENTS_COLLECTION = 'events';
+export const EVENT_OFFSETS_COLLECTION = 'event_offsets';
+
+export interface EventLogOptions {
+  /** Events to keep (default 'record:*'); consumers add theirs with `retain` */
+  patterns?: EntityEventPattern[];
+}
+
+export interface EventLogReadOptions {
+  pattern?: EntityEventPattern;
+  limit?: number;
+}
+
+// Zero-padded so keys sort in append order as strings too
+const eventKey = (seq: number) => String(seq).padStart(12, '0');
+
+export class EventLog {
+  private storage: StorageProvider;
+  private events: StoredEvent[] = [];
+  private offsets: Map<string, EventConsumerOffset> = new Map();
+  private lastSeq = 0;
+  private patterns: Set<EntityEventPattern>;
+  private matchers: Array<(event: EntityEvent) => boolean>;
+  // Events appended before `load` are written once their `seq` is final
+  private loaded = false;
+
+  constructor(storage: StorageProvider, options: EventLogOptions = {}) {
+    this.storage = storage;
+    this.patterns = new Set(options.patterns ?? ['record:*']);
+    this.matchers = Array.from(this.patterns, matchEventPattern);
+  }
+
+  /**
+   * Keep events matching a pattern from now on
+   */
+  retain(pattern: EntityEventPattern): void {
+    if (this.patterns.has(pattern)) return;
+    this.patterns.add(pattern);
+    this.matchers.push(matchEventPattern(pattern));
+  }
+
+  /**
+   * Load persisted events and consumer offsets from the storage provider
+   */
+  async load(): Promise<void> {
+    const [events, offsets] = await Promise.all([
+      this.storage.loadSystemEntries<StoredEvent>(EVENTS_COLLECTION),
+      this.storage.loadSystemEntries<EventConsumerOffset>(EVENT_OFFSETS_COLLECTION)
+    ]);
+
+    const unsaved = this.events;
+    this.events = events
+      .map(event => ({ ...event, timestamp: new Date(event.timestamp) }))
+      .sort((a, b) => a.seq - b.seq);
+    for (const offset of offsets) {
+      this.offsets.set(offset.consumer, { ...offset, updatedAt: new Date(offset.updatedAt) });
+    }
+    // Trimmed events leave offsets as the only record of the last seq
+    this.lastSeq = Math.max(this.events.at(-1)?.seq ?? 0, ...offsets.map(offset => offset.seq));
+    this.loaded = true;
+
+    // Events appended before loading follow the stored ones
+    for (const event of unsaved) {
+      const stored = { ...event, seq: ++this.lastSeq };
+      this.events.push(stored);
+      await this.storage.putSystemEntry(EVENTS_COLLECTION, eventKey(stored.seq), stored);
+    }
+  }
+
+  /**
+   * Add an event and write it through to storage. It is readable as soon
+   * as this is called. Events no pattern retains are skipped.
+   */
+  async append(event: EntityEvent): Promise<StoredEvent | undefined> {
+    if (!this.matchers.some(matches => matches(event))) return undefined;
+
+    const stored = { ...event, seq: ++this.lastSeq } as StoredEvent;
+    this.events.push(stored);
+    if (this.loaded) {
+      await this.storage.putSystemEntry(EVENTS_COLLECTION, eventKey(stored.seq), stored);
+    }
+    return stored;
+  }
+
+  /**
+   * Events after `seq`, oldest first. `limit` keeps the oldest.
+   */
+  read(afterSeq = 0, options: EventLogReadOptions = {}): StoredEvent[] {
+    const matcher = options.pattern ? matchEventPattern(options.pattern) : () => true;
+    const start = this.events.findIndex(event => event.seq > afterSeq);
+    if (start === -1) return [];
+
+    const events: StoredEvent[] = [];
+    for (let index = start; index < this.events.length && events.length < (options.limit ?? Infinity); index++) {
+      if (matcher(this.events[index])) {
+        events.push(this.events[index]);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Events a consumer has not handled yet
+   */
+  readFrom(consumer: string, options: EventLogReadOptions = {}): StoredEvent[] {
+    return this.read(this.getOffset(consumer), options);
+  }
+
+  getLastSeq(): number {
+    return this.lastSeq;
+  }
+
+  /**
+   * Last event a consumer has handled, 0 for a new consumer
+   */
+  getOffset(consumer: string): number {
+    return this.offsets.get(consumer)?.seq ?? 0;
+  }
+
+  getConsumers(): EventConsumerOffset[] {
+    return Array.from(this.offsets.values());
+  }
+
+  /**
+   * Declare a consumer, so events are kept for it before its first commit
+   */
+  register(consumer: string): void {
+    if (!this.offsets.has(consumer)) {
+      this.offsets.set(consumer, { consumer, seq: 0, updatedAt: new Date() });
+    }
+  }
+
+  /**
+   * Record that a consumer has handled every event up to `seq`. Offsets
+   * never move backwards.
+   */
+  async commitOffset(consumer: string, seq: number): Promise<void> {
+    if (seq <= this.getOffset(consumer)) return;
+
+    const offset: EventConsumerOffset = { consumer, seq, updatedAt: new Date() };
+    this.offsets.set(consumer, offset);
+    await this.storage.putSystemEntry(EVENT_OFFSETS_COLLECTION, consumer, offset);
+    await this.trim();
+  }
+
+  /**
+   * Drop events every consumer has handled
+   */
+  private async trim(): Promise<void> {
+    const handled = Math.min(...Array.from(this.offsets.values(), offset => offset.seq));
+    const count = this.events.findIndex(event => event.seq > handled);
+    const dropped = this.events.splice(0, count === -1 ? this.events.length : count);
+    if (!this.loaded) return;
+
+    for (const event of dropped) {
+      await this.storage.deleteSystemEntry(EVENTS_COLLECTION, eventKey(event.seq));
+    }
+  }
+}
@@ -1,72 +1,227 @@
-// Event System for Entity Engine
+// Event Bus for Entity Engine
+//
+// Listeners subscribe to event types or wildcard patterns (see
+// EntityEventPattern). Events are dispatched one at a time in emit order;
+// for each event, listeners run by descending priority and async handlers
+// are awaited before the next one starts. Recent events are kept in a ring
+// buffer so late subscribers can ask for a replay.
 
-import type { EntityEvent } from '../../types/entity';
+import type { EntityEvent, EntityEventHandler, EntityEventPattern } from '../../types/entity';
+import { EventHandlerError } from './errors';
 
-export class EventEmitter {
-  private events: Map<string, Array<(event: EntityEvent) => void>> = new Map();
+/**
+ * What happens when a handler throws:
+ * - 'continue' reports the error and runs the remaining handlers
+ * - 'stop' reports the error and skips the remaining handlers
+ * - 'throw' skips the remaining handlers and rejects `emit`
+ */
+export type EventErrorPolicy = 'continue' | 'stop' | 'throw';
+
+export interface EventBusOptions {
+  errorPolicy?: EventErrorPolicy;
+  /** Receives handler errors under 'continue' and 'stop'; logs them by default */
+  onError?: (error: EventHandlerError) => void;
+  /** Number of recent events kept for replay */
+  bufferSize?: number;
+}
+
+export interface EventListenerOptions {
+  /** Remove the listener after its first event */
+  once?: boolean;
+  /** Higher runs first; listeners with equal priority run in subscription order */
+  priority?: number;
+  /** Deliver buffered events that match first: all of them, or the last n */
+  replay?: boolean | number;
+}
+
+interface Listener {
+  pattern: string;
+  matcher: (event: EntityEvent) => boolean;
+  handler: EntityEventHandler;
+  once: boolean;
+  priority: number;
+  // Sequence number of the first event emitted after subscribing
+  since: number;
+}
+
+interface BufferedEvent {
+  seq: number;
+  event: EntityEvent;
+}
+
+/**
+ * Matcher for a pattern. Segments are category, action and entity, and a
+ * two-segment pattern starting with `*` names an entity (`*:volunteers`).
+ */
+export function matchEventPattern(pattern: string): (event: EntityEvent) => boolean {
+  const parts = pattern.split(':');
+  const [category, action, entity] =
+    parts.length === 1 ? [parts[0], '*', '*']
+    : parts.length === 2 && parts[0] === '*' ? ['*', '*', parts[1]]
+    : [parts[0], parts[1], parts.slice(2).join(':') || '*'];
+
+  return event => {
+    const [eventCategory, eventAction] = event.type.split(':');
+    return (category === '*' || category === eventCategory) &&
+      (action === '*' || action === eventAction) &&
+      (entity === '*' || entity === event.entity);
+  };
+}
+
+export class EventBus {
+  private listeners: Listener[] = [];
+  private buffer: BufferedEvent[] = [];
+  private seq = 0;
+  // Dispatches run one after another so every listener sees emit order
+  private queue: Promise<void> = Promise.resolve();
+  private errorPolicy: EventErrorPolicy;
+  private onError: (error: EventHandlerError) => void;
+  private bufferSize: number;
+
+  constructor(options: EventBusOptions = {}) {
+    this.errorPolicy = options.errorPolicy ?? 'continue';
+    this.onError = options.onError ?? (error => console.error(error.message, error.cause));
+    this.bufferSize = options.bufferSize ?? 100;
+  }
 
   /**
-   * Register an event handler
+   * Register an event handler. Returns a function that removes it.
    */
-  on(eventName: string, handler: (event: EntityEvent) => void): void {
-    if (!this.events.has(eventName)) {
-      this.events.set(eventName, []);
+  on<P extends EntityEventPattern>(pattern: P, handler: EntityEventHandler<P>, options: EventListenerOptions = {}): () => void {
+    const listener: Listener = {
+      pattern,
+      matcher: matchEventPattern(pattern),
+      handler: handler as EntityEventHandler,
+      once: options.once ?? false,
+      priority: options.priority ?? 0,
+      since: this.seq
+    };
+
+    // Insert after listeners of equal or higher priority
+    const index = this.listeners.findIndex(existing => existing.priority < listener.priority);
+    this.listeners.splice(index === -1 ? this.listeners.length : index, 0, listener);
+
+    if (options.replay) {
+      const limit = options.replay === true ? Infinity : options.replay;
+      this.enqueue(async () => {
+        const events = this.buffer.filter(entry => entry.seq < listener.since && listener.matcher(entry.event));
+        for (const { event } of events.slice(-limit)) {
+          if (!this.listeners.includes(listener)) break;
+          if (listener.once) this.remove(listener);
+          try {
+            await listener.handler(event);
+          } catch (error) {
+            this.onError(new EventHandlerError(event, listener.pattern, error));
+          }
+        }
+      }).catch(() => undefined);
     }
-    this.events.get(eventName)!.push(handler);
+
+    return () => this.remove(listener);
+  }
+
+  /**
+   * Register a handler for the next matching event only
+   */
+  once<P extends EntityEventPattern>(pattern: P, handler: EntityEventHandler<P>, options: Omit<EventListenerOptions, 'once'> = {}): () => void {
+    return this.on(pattern, handler, { ...options, once: true });
   }
 
   /**
    * Remove an event handler
    */
-  off(eventName: string, handler: (event: EntityEvent) => void): void {
-    const handlers = this.events.get(eventName);
-    if (handlers) {
-      const index = handlers.indexOf(handler);
-      if (index > -1) {
-        handlers.splice(index, 1);
-      }
+  off<P extends EntityEventPattern>(pattern: P, handler: EntityEventHandler<P>): void {
+    const listener = this.listeners.find(existing => existing.pattern === pattern && existing.handler === handler);
+    if (listener) {
+      this.remove(listener);
     }
   }
 
   /**
-   * Emit an event
+   * Emit an event. Resolves once every matching handler has run. Handlers
+   * must not await `emit` themselves, as dispatch waits for them to finish.
    */
-  emit(eventName: string, event: EntityEvent): void {
-    const handlers = this.events.get(eventName);
-    if (handlers) {
-      handlers.forEach(handler => {
-        try {
-          handler(event);
-        } catch (error) {
-          console.error(`Error in event handler for ${eventName}:`, error);
-        }
-      });
-    }
+  emit(event: EntityEvent): Promise<void> {
+    const seq = this.seq++;
+    return this.enqueue(() => this.dispatch(seq, event));
   }
 
   /**
-   * Remove all handlers for an event
+   * Resolve when every event emitted so far has been dispatched
    */
-  removeAllListeners(eventName?: string): void {
-    if (eventName) {
-      this.events.delete(eventName);
-    } else {
-      this.events.clear();
-    }
+  async drain(): Promise<void> {
+    await this.queue;
   }
 
   /**
-   * Get all event names
+   * Buffered events, oldest first, optionally only those matching a pattern
+   */
+  history(pattern?: EntityEventPattern): EntityEvent[] {
+    const matcher = pattern ? matchEventPattern(pattern) : () => true;
+    return this.buffer.map(entry => entry.event).filter(matcher);
+  }
+
+  /**
+   * Remove all handlers, or those registered for a pattern
+   */
+  removeAllListeners(pattern?: EntityEventPattern): void {
+    this.listeners = pattern ? this.listeners.filter(listener => listener.pattern !== pattern) : [];
+  }
+
+  /**
+   * Get all subscribed patterns
    */
   eventNames(): string[] {
-    return Array.from(this.events.keys());
+    return Array.from(new Set(this.listeners.map(listener => listener.pattern)));
   }
 
   /**
-   * Get handler count for an event
+   * Number of handlers an event would reach, or registered for a pattern
    */
-  listenerCount(eventName: string): number {
-    const handlers = this.events.get(eventName);
-    return handlers ? handlers.length : 0;
+  listenerCount(eventOrPattern: EntityEvent | EntityEventPattern): number {
+    return typeof eventOrPattern === 'string'
+      ? this.listeners.filter(listener => listener.pattern === eventOrPattern).length
+      : this.listeners.filter(listener => listener.matcher(eventOrPattern)).length;
+  }
+
+  private enqueue(work: () => Promise<void>): Promise<void> {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async dispatch(seq: number, event: EntityEvent): Promise<void> {
+    this.buffer.push({ seq, event });
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+
+    // Listeners added after the event was emitted only see it through replay
+    const listeners = this.listeners.filter(listener => listener.since <= seq && listener.matcher(event));
+    for (const listener of listeners) {
+      // An earlier handler may have removed it
+      if (!this.listeners.includes(listener)) continue;
+      if (listener.once) this.remove(listener);
+
+      try {
+        await listener.handler(event);
+      } catch (error) {
+        const handlerError = new EventHandlerError(event, listener.pattern, error);
+        if (this.errorPolicy === 'throw') {
+          throw handlerError;
+        }
+        this.onError(handlerError);
+        if (this.errorPolicy === 'stop') {
+          return;
+        }
+      }
+    }
+  }
+
+  private remove(listener: Listener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
   }
-}
\ No newline at end of file
+}
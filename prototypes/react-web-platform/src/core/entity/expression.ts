@@ -0,0 +1,587 @@
+// Expression Language for Formulas and Conditions
+//
+// A small, side-effect free language parsed into an AST and interpreted,
+// never compiled to JavaScript. Supports:
+// - literals: numbers, 'strings', "strings", true, false, null
+// - field references: `price`, dotted paths `manager.name`, and wildcards
+//   `tshirt_*_issued` (a `*` must touch an underscore) that yield arrays
+// - operators: + - * / %, = == != <> < <= > >=, AND OR NOT, && || !
+// - function calls: SUM(tshirt_*_issued), IF(a > b, 'yes', 'no'), ...
+//   Unknown function names are syntax errors. MATCHES takes a literal
+//   pattern, checked when the expression is parsed.
+
+export type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; name: string }
+  | { type: 'unary'; operator: '-' | '+' | 'not'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '=' | '!=' | '<' | '<=' | '>' | '>='
+  | 'and' | 'or';
+
+/**
+ * Resolves identifiers to values. Names may be dotted paths or contain `*`.
+ */
+export type ExpressionScope = (name: string) => unknown;
+
+export class ExpressionSyntaxError extends Error {
+  public position: number;
+  public expression: string;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'ExpressionSyntaxError';
+    this.expression = expression;
+    this.position = position;
+  }
+}
+
+export class ExpressionEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionEvaluationError';
+  }
+}
+
+// Tokenizer
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'punctuation'; value: '(' | ')' | ','; position: number }
+  | { kind: 'end'; position: number };
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||', '+', '-', '*', '/', '%', '=', '<', '>', '!'];
+const KEYWORD_OPERATORS: Record<string, string> = { and: 'and', or: 'or', not: 'not' };
+
+const isIdentifierStart = (char: string) => /[A-Za-z_]/.test(char);
+const isIdentifierPart = (char: string) => /[A-Za-z0-9_.]/.test(char);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const start = i;
+      while (i < source.length && /[0-9.]/.test(source[i])) i++;
+      const text = source.slice(start, i);
+      if (text.split('.').length > 2) {
+        throw new ExpressionSyntaxError(`Invalid number "${text}"`, source, start);
+      }
+      tokens.push({ kind: 'number', value: Number(text), position: start });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          i++;
+        }
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) {
+        throw new ExpressionSyntaxError('Unterminated string', source, start);
+      }
+      i++;
+      tokens.push({ kind: 'string', value, position: start });
+      continue;
+    }
+
+    if (isIdentifierStart(char)) {
+      const start = i;
+      while (i < source.length) {
+        if (isIdentifierPart(source[i])) {
+          i++;
+        } else if (source[i] === '*' && (source[i - 1] === '_' || source[i + 1] === '_')) {
+          // Wildcard segment such as tshirt_*_issued
+          i++;
+        } else {
+          break;
+        }
+      }
+      const text = source.slice(start, i);
+      const keyword = KEYWORD_OPERATORS[text.toLowerCase()];
+      tokens.push(keyword
+        ? { kind: 'operator', value: keyword, position: start }
+        : { kind: 'identifier', value: text, position: start });
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: 'punctuation', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character "${char}"`, source, i);
+  }
+
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+}
+
+// Parser (precedence climbing)
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  or: 1, '||': 1,
+  and: 2, '&&': 2,
+  '=': 3, '==': 3, '!=': 3, '<>': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6
+};
+
+// NOT sits between AND and the comparisons: `NOT a = b` is `NOT (a = b)`
+const NOT_PRECEDENCE = 2;
+
+const NORMALIZED_OPERATORS: Record<string, BinaryOperator> = {
+  '||': 'or', '&&': 'and', '==': '=', '<>': '!='
+};
+
+class Parser {
+  private tokens: Token[];
+  private source: string;
+  private position = 0;
+
+  constructor(source: string) {
+    this.source = source;
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().kind === 'end') {
+      throw new ExpressionSyntaxError('Empty expression', this.source, 0);
+    }
+    const node = this.parseBinary(0);
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw new ExpressionSyntaxError('Unexpected token', this.source, next.position);
+    }
+    return node;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'operator') break;
+      const precedence = BINARY_PRECEDENCE[token.value];
+      if (precedence === undefined || precedence <= minPrecedence) break;
+
+      this.position++;
+      const right = this.parseBinary(precedence);
+      const operator = (NORMALIZED_OPERATORS[token.value] ?? token.value) as BinaryOperator;
+      left = { type: 'binary', operator, left, right };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.kind === 'operator' && ['!', 'not'].includes(token.value)) {
+      this.position++;
+      return { type: 'unary', operator: 'not', operand: this.parseBinary(NOT_PRECEDENCE) };
+    }
+    if (token.kind === 'operator' && ['-', '+'].includes(token.value)) {
+      this.position++;
+      return { type: 'unary', operator: token.value as '-' | '+', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'identifier': {
+        const lower = token.value.toLowerCase();
+        if (lower === 'true') return { type: 'literal', value: true };
+        if (lower === 'false') return { type: 'literal', value: false };
+        if (lower === 'null') return { type: 'literal', value: null };
+
+        if (this.peek().kind === 'punctuation' && (this.peek() as { value: string }).value === '(') {
+          this.position++;
+          const args: ExpressionNode[] = [];
+          if (!this.matchPunctuation(')')) {
+            do {
+              args.push(this.parseBinary(0));
+            } while (this.matchPunctuation(','));
+            this.expectPunctuation(')');
+          }
+          const name = token.value.toUpperCase();
+          if (!(name in FUNCTIONS)) {
+            throw new ExpressionSyntaxError(`Unknown function "${token.value}"`, this.source, token.position);
+          }
+          if (name === 'MATCHES') {
+            this.checkPattern(args[1], token.position);
+          }
+          return { type: 'call', name, args };
+        }
+
+        return { type: 'identifier', name: token.value };
+      }
+
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.parseBinary(0);
+          this.expectPunctuation(')');
+          return node;
+        }
+        break;
+    }
+
+    throw new ExpressionSyntaxError('Unexpected token', this.source, token.position);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++] ?? this.tokens[this.tokens.length - 1];
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'punctuation' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  // Patterns from record data could be chosen to hang the evaluator
+  private checkPattern(node: ExpressionNode | undefined, position: number): void {
+    if (node?.type !== 'literal' || typeof node.value !== 'string') {
+      throw new ExpressionSyntaxError('MATCHES needs a literal pattern', this.source, position);
+    }
+    try {
+      compilePattern(node.value);
+    } catch (error) {
+      throw new ExpressionSyntaxError((error as Error).message, this.source, position);
+    }
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.matchPunctuation(value)) {
+      throw new ExpressionSyntaxError(`Expected "${value}"`, this.source, this.peek().position);
+    }
+  }
+}
+
+/**
+ * Parse an expression into an AST. Throws ExpressionSyntaxError.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(source).parse();
+}
+
+/**
+ * Identifier names referenced by an expression (dotted paths and wildcards included)
+ */
+export function collectIdentifiers(node: ExpressionNode, into: Set<string> = new Set()): Set<string> {
+  switch (node.type) {
+    case 'identifier':
+      into.add(node.name);
+      break;
+    case 'unary':
+      collectIdentifiers(node.operand, into);
+      break;
+    case 'binary':
+      collectIdentifiers(node.left, into);
+      collectIdentifiers(node.right, into);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectIdentifiers(arg, into));
+      break;
+  }
+  return into;
+}
+
+// Interpreter
+
+const flatten = (values: unknown[]): unknown[] =>
+  values.flatMap(value => Array.isArray(value) ? flatten(value) : [value]);
+
+const numbers = (values: unknown[]): number[] =>
+  flatten(values)
+    .filter(value => value !== null && value !== undefined && value !== '')
+    .map(Number)
+    .filter(value => !isNaN(value));
+
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+const toText = (value: unknown): string => value === null || value === undefined ? '' : String(value);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Caches keep at most this many entries, dropping the oldest first
+const CACHE_LIMIT = 500;
+
+function remember<T>(cache: Map<string, T>, key: string, value: T): T {
+  if (cache.size >= CACHE_LIMIT) {
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(key, value);
+  return value;
+}
+
+const patternCache: Map<string, RegExp> = new Map();
+
+/**
+ * A MATCHES pattern as a RegExp. Quantified groups (optional ones
+ * included) and backreferences can take exponential time to fail, so
+ * they are refused.
+ */
+function compilePattern(pattern: string): RegExp {
+  const cached = patternCache.get(pattern);
+  if (cached) return cached;
+
+  if (/\)[*+?{]/.test(pattern) || /\\(?:[1-9]|k<)/.test(pattern)) {
+    throw new ExpressionEvaluationError(`Pattern "${pattern}" may not quantify a group or use backreferences`);
+  }
+  try {
+    return remember(patternCache, pattern, new RegExp(pattern));
+  } catch {
+    throw new ExpressionEvaluationError(`Invalid pattern "${pattern}"`);
+  }
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+type ExpressionFunction = (args: unknown[]) => unknown;
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  // Aggregates (array arguments are flattened)
+  SUM: args => numbers(args).reduce((sum, value) => sum + value, 0),
+  AVG: args => {
+    const values = numbers(args);
+    return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+  },
+  COUNT: args => flatten(args).filter(value => value !== null && value !== undefined && value !== '').length,
+  MIN: args => {
+    const values = numbers(args);
+    return values.length === 0 ? null : Math.min(...values);
+  },
+  MAX: args => {
+    const values = numbers(args);
+    return values.length === 0 ? null : Math.max(...values);
+  },
+
+  // Math
+  ROUND: ([value, digits]) => {
+    const factor = Math.pow(10, Number(digits ?? 0));
+    return Math.round(Number(value) * factor) / factor;
+  },
+  FLOOR: ([value]) => Math.floor(Number(value)),
+  CEIL: ([value]) => Math.ceil(Number(value)),
+  ABS: ([value]) => Math.abs(Number(value)),
+  POWER: ([value, exponent]) => Math.pow(Number(value), Number(exponent)),
+  SQRT: ([value]) => Math.sqrt(Number(value)),
+
+  // Logic
+  IF: ([condition, whenTrue, whenFalse]) => condition ? whenTrue : (whenFalse ?? null),
+  COALESCE: args => args.find(value => value !== null && value !== undefined && value !== '') ?? null,
+  ISBLANK: ([value]) => value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0),
+
+  // Strings
+  CONCAT: args => flatten(args).map(toText).join(''),
+  UPPER: ([value]) => toText(value).toUpperCase(),
+  LOWER: ([value]) => toText(value).toLowerCase(),
+  TRIM: ([value]) => toText(value).trim(),
+  LEN: ([value]) => Array.isArray(value) ? value.length : toText(value).length,
+  LEFT: ([value, count]) => toText(value).slice(0, Number(count ?? 1)),
+  RIGHT: ([value, count]) => {
+    const text = toText(value);
+    return text.slice(Math.max(0, text.length - Number(count ?? 1)));
+  },
+  CONTAINS: ([value, search]) => Array.isArray(value)
+    ? value.includes(search)
+    : toText(value).toLowerCase().includes(toText(search).toLowerCase()),
+  STARTS_WITH: ([value, prefix]) => toText(value).toLowerCase().startsWith(toText(prefix).toLowerCase()),
+  ENDS_WITH: ([value, suffix]) => toText(value).toLowerCase().endsWith(toText(suffix).toLowerCase()),
+  REPLACE: ([value, search, replacement]) => toText(value).split(toText(search)).join(toText(replacement)),
+  MATCHES: ([value, pattern]) => compilePattern(toText(pattern)).test(toText(value)),
+
+  // Dates
+  TODAY: () => startOfDay(new Date()),
+  NOW: () => new Date(),
+  DATE: ([value]) => toDate(value),
+  YEAR: ([value]) => toDate(value)?.getFullYear() ?? null,
+  MONTH: ([value]) => {
+    const date = toDate(value);
+    return date ? date.getMonth() + 1 : null;
+  },
+  DAY: ([value]) => toDate(value)?.getDate() ?? null,
+  DAYS_BETWEEN: ([from, to]) => {
+    const start = toDate(from);
+    const end = toDate(to);
+    if (!start || !end) return null;
+    return Math.round((startOfDay(end).getTime() - startOfDay(start).getTime()) / MS_PER_DAY);
+  },
+  ADD_DAYS: ([value, days]) => {
+    const date = toDate(value);
+    return date ? new Date(date.getTime() + Number(days) * MS_PER_DAY) : null;
+  }
+};
+
+/**
+ * Names of the built-in functions, for editor hints and documentation
+ */
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// Dates compare by time, everything else by JS semantics
+const comparable = (value: unknown): unknown => value instanceof Date ? value.getTime() : value;
+
+const equals = (left: unknown, right: unknown): boolean => {
+  const a = comparable(left);
+  const b = comparable(right);
+  // Treat numeric strings and numbers as equal, like form inputs expect
+  if (typeof a === 'number' && typeof b === 'string' && b.trim() !== '') return a === Number(b);
+  if (typeof b === 'number' && typeof a === 'string' && a.trim() !== '') return b === Number(a);
+  return a === b || (a == null && b == null);
+};
+
+function evaluateBinary(operator: BinaryOperator, left: unknown, right: unknown): unknown {
+  switch (operator) {
+    case '+':
+      if (typeof left === 'string' || typeof right === 'string') return toText(left) + toText(right);
+      return Number(left ?? 0) + Number(right ?? 0);
+    case '-': return Number(left ?? 0) - Number(right ?? 0);
+    case '*': return Number(left ?? 0) * Number(right ?? 0);
+    case '/': {
+      const divisor = Number(right ?? 0);
+      if (divisor === 0) throw new ExpressionEvaluationError('Division by zero');
+      return Number(left ?? 0) / divisor;
+    }
+    case '%': return Number(left ?? 0) % Number(right ?? 0);
+    case '=': return equals(left, right);
+    case '!=': return !equals(left, right);
+    case '<': return (comparable(left) as number) < (comparable(right) as number);
+    case '<=': return (comparable(left) as number) <= (comparable(right) as number);
+    case '>': return (comparable(left) as number) > (comparable(right) as number);
+    case '>=': return (comparable(left) as number) >= (comparable(right) as number);
+    default:
+      throw new ExpressionEvaluationError(`Unknown operator "${operator}"`);
+  }
+}
+
+/**
+ * Evaluate a parsed expression. Throws ExpressionEvaluationError.
+ */
+export function evaluateExpression(node: ExpressionNode, scope: ExpressionScope): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return scope(node.name);
+
+    case 'unary': {
+      const operand = evaluateExpression(node.operand, scope);
+      if (node.operator === 'not') return !operand;
+      return node.operator === '-' ? -Number(operand ?? 0) : Number(operand ?? 0);
+    }
+
+    case 'binary': {
+      // Short-circuit boolean operators
+      if (node.operator === 'and') {
+        return Boolean(evaluateExpression(node.left, scope)) && Boolean(evaluateExpression(node.right, scope));
+      }
+      if (node.operator === 'or') {
+        return Boolean(evaluateExpression(node.left, scope)) || Boolean(evaluateExpression(node.right, scope));
+      }
+      return evaluateBinary(node.operator, evaluateExpression(node.left, scope), evaluateExpression(node.right, scope));
+    }
+
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      if (!fn) {
+        throw new ExpressionEvaluationError(`Unknown function "${node.name}"`);
+      }
+      // IF only evaluates the branch it returns
+      if (node.name === 'IF') {
+        const condition = evaluateExpression(node.args[0] ?? { type: 'literal', value: false }, scope);
+        const branch = condition ? node.args[1] : node.args[2];
+        return branch ? evaluateExpression(branch, scope) : null;
+      }
+      return fn(node.args.map(arg => evaluateExpression(arg, scope)));
+    }
+  }
+}
+
+export interface CompiledExpression {
+  source: string;
+  ast: ExpressionNode;
+  identifiers: string[];
+  evaluate(scope: ExpressionScope): unknown;
+}
+
+const compiledCache: Map<string, CompiledExpression> = new Map();
+
+/**
+ * Parse once and reuse. Throws ExpressionSyntaxError for invalid source.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const cached = compiledCache.get(source);
+  if (cached) return cached;
+
+  const ast = parseExpression(source);
+  const compiled: CompiledExpression = {
+    source,
+    ast,
+    identifiers: Array.from(collectIdentifiers(ast)),
+    evaluate: scope => evaluateExpression(ast, scope)
+  };
+  return remember(compiledCache, source, compiled);
+}
+
+/**
+ * Scope that reads plain and wildcard field names from a data object
+ */
+export function createRecordScope(data: Record<string, unknown>, fieldNames: string[] = Object.keys(data)): ExpressionScope {
+  return name => {
+    if (name.includes('*')) {
+      const pattern = new RegExp(`^${name.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+      return fieldNames.filter(field => pattern.test(field)).map(field => data[field]);
+    }
+    return data[name];
+  };
+}
@@ -0,0 +1,124 @@
+// Filter Expression Evaluation
+//
+// Shared by the EntityEngine and the data adapters so every data source
+// interprets FilterConfig operators and AND/OR/NOT groups the same way.
+
+import type { FilterConfig, FilterExpression, FilterGroup } from '../../types/entity';
+
+export type FieldAccessor<T> = (item: T, field: string) => unknown;
+
+const defaultAccessor = <T,>(item: T, field: string): unknown =>
+  (item as Record<string, unknown>)[field];
+
+export function isFilterGroup(expression: FilterExpression): expression is FilterGroup {
+  return 'filters' in expression && Array.isArray(expression.filters);
+}
+
+/**
+ * Combine the legacy flat `filters` list and a `where` tree into one expression.
+ *
+ * In the flat list a filter with `logicalOperator: 'or'` starts a new OR
+ * branch; consecutive filters without it are ANDed, so `A or B and C`
+ * means `A OR (B AND C)`.
+ */
+export function normalizeFilters(filters?: FilterConfig[], where?: FilterExpression): FilterExpression | null {
+  const parts: FilterExpression[] = [];
+
+  if (filters && filters.length > 0) {
+    const branches: FilterConfig[][] = [[]];
+    filters.forEach((filter, index) => {
+      if (index > 0 && filter.logicalOperator === 'or') {
+        branches.push([]);
+      }
+      branches[branches.length - 1].push(filter);
+    });
+
+    const branchExpressions = branches.map(branch =>
+      branch.length === 1 ? branch[0] : { operator: 'and' as const, filters: branch }
+    );
+    parts.push(branchExpressions.length === 1 ? branchExpressions[0] : { operator: 'or', filters: branchExpressions });
+  }
+
+  if (where) {
+    parts.push(where);
+  }
+
+  if (parts.length === 0) return null;
+  return parts.length === 1 ? parts[0] : { operator: 'and', filters: parts };
+}
+
+/**
+ * Leaf filters that every match must satisfy (top-level AND terms).
+ * Used by the query planner to pick an index.
+ */
+export function getRequiredFilters(expression: FilterExpression | null): FilterConfig[] {
+  if (!expression) return [];
+  if (!isFilterGroup(expression)) return [expression];
+  if (expression.operator !== 'and') return [];
+  return expression.filters.flatMap(getRequiredFilters);
+}
+
+/**
+ * Evaluate a single operator against a value
+ */
+export function evaluateFilterCondition(value: FilterConfig['value'], filter: FilterConfig): boolean {
+  switch (filter.operator) {
+    case 'eq': return value === filter.value;
+    case 'ne': return value !== filter.value;
+    case 'gt': return value > filter.value;
+    case 'gte': return value >= filter.value;
+    case 'lt': return value < filter.value;
+    case 'lte': return value <= filter.value;
+    case 'in': return Array.isArray(filter.value) && filter.value.includes(value);
+    case 'not_in': return Array.isArray(filter.value) && !filter.value.includes(value);
+    case 'contains': return String(value).toLowerCase().includes(String(filter.value).toLowerCase());
+    case 'starts_with': return String(value).toLowerCase().startsWith(String(filter.value).toLowerCase());
+    case 'ends_with': return String(value).toLowerCase().endsWith(String(filter.value).toLowerCase());
+    case 'is_null': return value == null;
+    case 'is_not_null': return value != null;
+    case 'between':
+      return Array.isArray(filter.value) &&
+             filter.value.length === 2 &&
+             value >= filter.value[0] &&
+             value <= filter.value[1];
+    default: return true;
+  }
+}
+
+/**
+ * Evaluate a filter expression tree against one item
+ */
+export function matchesFilter<T>(
+  item: T,
+  expression: FilterExpression,
+  getValue: FieldAccessor<T> = defaultAccessor
+): boolean {
+  if (!isFilterGroup(expression)) {
+    return evaluateFilterCondition(getValue(item, expression.field), expression);
+  }
+
+  switch (expression.operator) {
+    case 'and':
+      return expression.filters.every(child => matchesFilter(item, child, getValue));
+    case 'or':
+      // An empty OR group matches nothing, like an empty IN list
+      return expression.filters.some(child => matchesFilter(item, child, getValue));
+    case 'not':
+      return !expression.filters.every(child => matchesFilter(item, child, getValue));
+    default:
+      return true;
+  }
+}
+
+/**
+ * Filter a list with either a flat FilterConfig list or an expression tree
+ */
+export function applyFilterExpression<T>(
+  items: T[],
+  expression: FilterExpression | FilterConfig[] | null | undefined,
+  getValue: FieldAccessor<T> = defaultAccessor
+): T[] {
+  const normalized = Array.isArray(expression) ? normalizeFilters(expression) : expression;
+  if (!normalized) return items;
+  return items.filter(item => matchesFilter(item, normalized, getValue));
+}
@@ -0,0 +1,199 @@
+// Calculated (Formula) Fields for Entity Engine
+
+import type {
+  EntityDefinition,
+  FieldDefinition,
+  RecordData,
+  RelationshipDefinition
+} from '../../types/entity';
+import { ConfigurationError } from './errors';
+import { compileExpression, createRecordScope } from './expression';
+import type { CompiledExpression, ExpressionScope } from './expression';
+import { RelationshipResolver, isSingleValued } from './relationships';
+
+interface PreparedFormula {
+  field: FieldDefinition;
+  expression: CompiledExpression;
+}
+
+export interface FormulaDependency {
+  /** Entity that declares the formula */
+  entity: string;
+  /** Relationship from that entity to the changed entity */
+  relationship: RelationshipDefinition;
+}
+
+export function isFormulaField(field: FieldDefinition): boolean {
+  return field.type === 'formula' && typeof field.formula === 'string';
+}
+
+/**
+ * Compile an entity's formula fields and order them so formulas that read
+ * other formula fields are evaluated after them. Throws on syntax errors
+ * and circular references.
+ */
+export function prepareFormulas(definition: Pick<EntityDefinition, 'name' | 'fields'>): PreparedFormula[] {
+  const formulas = new Map<string, PreparedFormula>();
+  for (const field of definition.fields.filter(isFormulaField)) {
+    formulas.set(field.name, { field, expression: compileExpression(field.formula!) });
+  }
+
+  const ordered: PreparedFormula[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (name: string, path: string[]) => {
+    if (state.get(name) === 'done') return;
+    if (state.get(name) === 'visiting') {
+      throw new ConfigurationError(`Circular formula reference in "${definition.name}": ${[...path, name].join(' -> ')}`);
+    }
+    state.set(name, 'visiting');
+    const formula = formulas.get(name)!;
+    for (const identifier of formula.expression.identifiers) {
+      if (formulas.has(identifier)) visit(identifier, [...path, name]);
+    }
+    state.set(name, 'done');
+    ordered.push(formula);
+  };
+
+  formulas.forEach((_, name) => visit(name, []));
+  return ordered;
+}
+
+/**
+ * Computes formula values for records, resolving `relationship.field`
+ * references through the RelationshipResolver
+ */
+export class FormulaEvaluator {
+  private resolver: RelationshipResolver;
+  private prepared: Map<string, PreparedFormula[]> = new Map();
+  private definitions: Map<string, EntityDefinition> = new Map();
+
+  constructor(resolver: RelationshipResolver) {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Compile and cache an entity's formulas (throws on invalid formulas)
+   */
+  register(definition: EntityDefinition): void {
+    this.prepared.set(definition.name, prepareFormulas(definition));
+    this.definitions.set(definition.name, definition);
+  }
+
+  hasFormulas(entityName: string): boolean {
+    return (this.prepared.get(entityName)?.length ?? 0) > 0;
+  }
+
+  /**
+   * Return data with every formula field recomputed
+   */
+  apply(entityName: string, recordId: string | undefined, data: RecordData): RecordData {
+    const formulas = this.prepared.get(entityName);
+    const definition = this.definitions.get(entityName);
+    if (!formulas || formulas.length === 0 || !definition) return data;
+
+    const result = { ...data };
+    const scope = this.createScope(definition, recordId, result);
+
+    for (const { field, expression } of formulas) {
+      try {
+        result[field.name] = expression.evaluate(scope);
+      } catch (error) {
+        console.warn(`Formula "${definition.name}.${field.name}" failed:`, error);
+        result[field.name] = null;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Formula fields whose values changed between two data snapshots
+   */
+  diff(entityName: string, previous: RecordData, next: RecordData): RecordData {
+    const changes: RecordData = {};
+    for (const { field } of this.prepared.get(entityName) ?? []) {
+      if (!sameValue(previous[field.name], next[field.name])) {
+        changes[field.name] = next[field.name];
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Entities whose formulas read records of `changedEntity` through a relationship
+   */
+  getDependencies(changedEntity: string): FormulaDependency[] {
+    const dependencies: FormulaDependency[] = [];
+
+    this.prepared.forEach((formulas, entityName) => {
+      const definition = this.definitions.get(entityName)!;
+      const relationshipNames = new Set(
+        formulas.flatMap(({ expression }) =>
+          expression.identifiers.filter(id => id.includes('.')).map(id => id.split('.')[0])
+        )
+      );
+
+      for (const relationship of definition.relationships) {
+        if (relationshipNames.has(relationship.name) && relationship.targetEntity === changedEntity) {
+          dependencies.push({ entity: entityName, relationship });
+        }
+      }
+    });
+
+    return dependencies;
+  }
+
+  private createScope(definition: EntityDefinition, recordId: string | undefined, data: RecordData): ExpressionScope {
+    // Formula outputs never feed wildcards, so SUM(tshirt_*_issued) cannot include itself
+    const fieldNames = definition.fields.filter(field => !isFormulaField(field)).map(field => field.name);
+    const local = createRecordScope(data, fieldNames);
+
+    return name => {
+      const dot = name.indexOf('.');
+      const relationship = dot > 0
+        ? definition.relationships.find(rel => rel.name === name.slice(0, dot))
+        : undefined;
+
+      if (!relationship) return local(name);
+
+      const path = name.slice(dot + 1);
+      const targets = this.resolver.getRelatedRecords(definition.name, recordId, data, relationship);
+      const values = targets.map(target => {
+        const targetDefinition = this.definitions.get(target.entity);
+        const targetFields = targetDefinition?.fields.filter(field => !isFormulaField(field)).map(field => field.name);
+        return createRecordScope(target.data, targetFields)(path);
+      });
+
+      return isSingleValued(relationship) ? values[0] ?? null : values;
+    };
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return a === b || (Number.isNaN(a) && Number.isNaN(b));
+}
+
+/**
+ * Compute same-record formulas without an engine, e.g. for view models
+ * that are not stored in the EntityEngine
+ */
+export function computeFormulaFields<T extends Record<string, unknown>>(
+  data: T,
+  definition: Pick<EntityDefinition, 'name' | 'fields'>
+): T {
+  const result: Record<string, unknown> = { ...data };
+  const formulaNames = new Set(definition.fields.filter(isFormulaField).map(field => field.name));
+  const scope = createRecordScope(result, Object.keys(data).filter(name => !formulaNames.has(name)));
+
+  for (const { field, expression } of prepareFormulas(definition)) {
+    try {
+      result[field.name] = expression.evaluate(scope);
+    } catch {
+      result[field.name] = null;
+    }
+  }
+
+  return result as T;
+}
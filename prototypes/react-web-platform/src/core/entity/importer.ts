@@ -0,0 +1,237 @@
+// Import Pipeline for Entity Engine
+//
+// Reads an uploaded CSV, JSON or Excel file into an ImportSource, suggests
+// the field each column holds by header similarity, and converts mapped
+// cells to field types. The engine's `importRecords` validates and applies
+// the rows; rows it rejects can be written back out as CSV, with the
+// reasons, for the user to fix and upload again.
+
+import type {
+  EntityDefinition,
+  FieldDefinition,
+  ImportRowResult,
+  ImportSource,
+  ImportSourceRow,
+  ValidationError
+} from '../../types/entity';
+import { CsvParser, parseCsvValue, stringifyCsv } from './csv';
+import type { CsvRecordRow } from './csv';
+
+export interface ImportColumnSuggestion {
+  column: number;
+  header: string;
+  field: string | null;
+  /** 1 for an exact name or display name match, down to MIN_SIMILARITY */
+  score: number;
+}
+
+// Weakest header/field similarity still suggested
+export const MIN_SIMILARITY = 0.5;
+
+const NUMBER_TYPES = ['number', 'currency', 'percentage'];
+const DATE_TYPES = ['date', 'datetime'];
+
+// Excel counts days from 1899-12-30
+const EXCEL_EPOCH_OFFSET = 25569;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 'firstName', 'first_name' and 'First Name' all become 'firstname'
+const compact = (text: string) =>
+  text.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+function bigrams(text: string): string[] {
+  return Array.from({ length: Math.max(text.length - 1, 0) }, (_, index) => text.slice(index, index + 2));
+}
+
+/**
+ * Dice coefficient over letter pairs, so 'E-mail Address' is close to
+ * 'email' and 'Hrs Logged' to 'hours_logged'
+ */
+function similarity(a: string, b: string): number {
+  const left = compact(a);
+  const right = compact(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const pairs = bigrams(right);
+  let shared = 0;
+  for (const pair of bigrams(left)) {
+    const index = pairs.indexOf(pair);
+    if (index !== -1) {
+      shared++;
+      pairs.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (left.length - 1 + right.length - 1);
+}
+
+/**
+ * Fields a file can provide; formula fields are always computed
+ */
+export function getImportableFields(definition: EntityDefinition): FieldDefinition[] {
+  return definition.fields.filter(field => field.type !== 'formula');
+}
+
+/**
+ * The likeliest field for each column. Best matches are assigned first and
+ * each field to one column at most.
+ */
+export function suggestImportMapping(definition: EntityDefinition, headers: string[]): ImportColumnSuggestion[] {
+  const candidates = headers
+    .flatMap((header, column) => getImportableFields(definition).map(field => ({
+      column,
+      field: field.name,
+      score: Math.max(similarity(header, field.name), similarity(header, field.displayName))
+    })))
+    .filter(candidate => candidate.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+
+  const assigned = new Map<number, { field: string; score: number }>();
+  const used = new Set<string>();
+  for (const candidate of candidates) {
+    if (assigned.has(candidate.column) || used.has(candidate.field)) continue;
+    assigned.set(candidate.column, candidate);
+    used.add(candidate.field);
+  }
+
+  return headers.map((header, column) => ({
+    column,
+    header,
+    field: assigned.get(column)?.field ?? null,
+    score: assigned.get(column)?.score ?? 0
+  }));
+}
+
+// The separator that splits the first line into the most columns
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }));
+  return counts.reduce((best, next) => next.count > best.count ? next : best).delimiter;
+}
+
+/**
+ * A CSV document as an import source; the first row holds the headers
+ */
+export function parseImportCsv(name: string, text: string, delimiter = detectDelimiter(text)): ImportSource {
+  const parser = new CsvParser({ delimiter });
+  const [header, ...rows] = [...parser.push(text), ...parser.end()];
+  return { name, headers: header?.values ?? [], rows: rows.map(({ line, values }) => ({ line, values })) };
+}
+
+/**
+ * A JSON array of objects as an import source, or an entity export from
+ * `exportEntity(name, 'json')`. Headers are every key, in first-seen order.
+ */
+export function parseImportJson(name: string, text: string): ImportSource {
+  const parsed: unknown = JSON.parse(text);
+  const items: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray((parsed as { records?: unknown })?.records) ? (parsed as { records: unknown[] }).records : [];
+
+  const objects = items
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    // Exported records keep their fields under `data`
+    .map(item => typeof item.data === 'object' && item.data !== null && 'id' in item ? item.data as Record<string, unknown> : item);
+
+  const headers = Array.from(new Set(objects.flatMap(item => Object.keys(item))));
+  return {
+    name,
+    headers,
+    rows: objects.map((item, index) => ({ line: index + 1, values: headers.map(header => item[header]) }))
+  };
+}
+
+/**
+ * Headers and rows of a worksheet. The header row is whichever of the first
+ * two rows matches more fields, so exports with a group header row work.
+ */
+export function toImportSource(definition: EntityDefinition, name: string, rows: ImportSourceRow[]): ImportSource {
+  const headerAt = (index: number) => (rows[index]?.values ?? []).map(value => value === undefined || value === null ? '' : String(value));
+  const matches = (headers: string[]) => suggestImportMapping(definition, headers).filter(suggestion => suggestion.score === 1).length;
+  const headerIndex = rows.length > 1 && matches(headerAt(1)) > matches(headerAt(0)) ? 1 : 0;
+  return { name, headers: headerAt(headerIndex), rows: rows.slice(headerIndex + 1) };
+}
+
+/**
+ * Read an uploaded file by extension: .xlsx gives a source per worksheet,
+ * .json and .csv/.tsv/.txt one source
+ */
+export async function readImportFile(file: File, definition: EntityDefinition): Promise<ImportSource[]> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'xlsx') {
+    const { readSheetRows } = await import('./xlsx');
+    const sheets = await readSheetRows(await file.arrayBuffer());
+    return sheets.map(sheet => toImportSource(definition, sheet.name, sheet.rows));
+  }
+
+  const text = await file.text();
+  if (extension === 'json') {
+    return [parseImportJson(file.name, text)];
+  }
+  return [parseImportCsv(file.name, text, extension === 'tsv' ? '\t' : undefined)];
+}
+
+/**
+ * A cell converted to its field's type. Typed cells (from JSON or Excel)
+ * are kept where they fit the field; text goes through the CSV conversion.
+ */
+export function convertImportValue(field: FieldDefinition, value: unknown): { value: unknown } | { error: string } {
+  if (value === undefined || value === null || value === '') return { value: undefined };
+  if (typeof value === 'string') return parseCsvValue(field, value);
+
+  if (NUMBER_TYPES.includes(field.type) && typeof value === 'number') return { value };
+  if (field.type === 'boolean' && typeof value === 'boolean') return { value };
+  if (field.type === 'multiselect' && Array.isArray(value)) return { value };
+  if (DATE_TYPES.includes(field.type)) {
+    if (value instanceof Date) return { value };
+    // An Excel date cell without a date format holds its serial number
+    if (typeof value === 'number') return { value: new Date(Math.round((value - EXCEL_EPOCH_OFFSET) * DAY_MS)) };
+  }
+  return parseCsvValue(field, value instanceof Date ? value.toISOString() : String(value));
+}
+
+/**
+ * Record data for each row, from the columns mapped to a field
+ */
+export function mapImportRows(definition: EntityDefinition, source: ImportSource, mapping: Array<string | null>): CsvRecordRow[] {
+  const fields = mapping.map(name => name ? definition.fields.find(field => field.name === name) : undefined);
+
+  return source.rows.map(({ line, values }) => {
+    const row: CsvRecordRow = { line, data: {}, errors: [] };
+    fields.forEach((field, index) => {
+      if (!field) return;
+      const result = convertImportValue(field, values[index]);
+      if ('error' in result) {
+        const error: ValidationError = { field: field.name, message: result.error, code: 'INVALID_TYPE', value: values[index] };
+        row.errors.push(error);
+      } else if (result.value !== undefined) {
+        row.data[field.name] = result.value;
+      }
+    });
+    return row;
+  });
+}
+
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * The failed rows as they were in the file, plus their line and what was
+ * wrong, so they can be fixed and imported again. Cells that would run as
+ * spreadsheet formulas are written with a leading `'`, which import strips.
+ */
+export function rejectedRowsToCsv(source: ImportSource, results: ImportRowResult[]): string {
+  const failed = new Map(results.filter(result => result.status === 'failed').map(result => [result.line, result]));
+  const rows = source.rows
+    .filter(row => failed.has(row.line))
+    .map(row => [
+      ...source.headers.map((_, index) => cellText(row.values[index])),
+      String(row.line),
+      failed.get(row.line)!.errors.map(error => error.message).join('; ')
+    ]);
+  return stringifyCsv([[...source.headers, 'Line', 'Errors'], ...rows]);
+}
@@ -0,0 +1,342 @@
+// Secondary Indexes and Query Planner for Entity Engine
+
+import type {
+  EntityDefinition,
+  EntityRecord,
+  FieldIndexType,
+  FilterConfig,
+  QueryParams,
+  QueryPlan
+} from '../../types/entity';
+
+type OrderedValue = number | string;
+
+const isOrderedValue = (value: unknown): value is OrderedValue =>
+  (typeof value === 'number' && !isNaN(value)) || typeof value === 'string';
+
+// Numbers sort before strings so mixed columns still have a total order
+const compareOrdered = (a: OrderedValue, b: OrderedValue): number => {
+  if (typeof a !== typeof b) return typeof a === 'number' ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+export interface FieldIndex {
+  readonly field: string;
+  readonly type: FieldIndexType;
+  add(id: string, value: unknown): void;
+  remove(id: string, value: unknown): void;
+  clear(): void;
+  /** Candidate ids for a filter, or null if the index cannot serve it */
+  lookup(filter: FilterConfig): Set<string> | null;
+}
+
+/**
+ * Hash index for `eq` / `in` lookups.
+ *
+ * Array values (multiselect, many-to-many keys) are indexed per element so
+ * membership lookups can use the index too.
+ */
+export class HashIndex implements FieldIndex {
+  readonly type = 'hash' as const;
+  readonly field: string;
+  private buckets: Map<unknown, Set<string>> = new Map();
+
+  constructor(field: string) {
+    this.field = field;
+  }
+
+  add(id: string, value: unknown): void {
+    for (const key of Array.isArray(value) ? value : [value]) {
+      if (!this.buckets.has(key)) {
+        this.buckets.set(key, new Set());
+      }
+      this.buckets.get(key)!.add(id);
+    }
+  }
+
+  remove(id: string, value: unknown): void {
+    for (const key of Array.isArray(value) ? value : [value]) {
+      const bucket = this.buckets.get(key);
+      if (!bucket) continue;
+      bucket.delete(id);
+      if (bucket.size === 0) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.buckets.clear();
+  }
+
+  lookup(filter: FilterConfig): Set<string> | null {
+    switch (filter.operator) {
+      case 'eq':
+        return new Set(this.buckets.get(filter.value) ?? []);
+      case 'in':
+        if (!Array.isArray(filter.value)) return new Set();
+        return new Set(filter.value.flatMap(value => Array.from(this.buckets.get(value) ?? [])));
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * Sorted index for range, `between` and ordered scans.
+ *
+ * Values that are not numbers or strings (null, dates, arrays) are kept in an
+ * unordered side set and always returned as candidates, so range lookups stay
+ * a superset of what the filter evaluator accepts.
+ */
+export class SortedIndex implements FieldIndex {
+  readonly type = 'sorted' as const;
+  readonly field: string;
+  private entries: Array<{ value: OrderedValue; id: string }> = [];
+  private unordered: Set<string> = new Set();
+
+  constructor(field: string) {
+    this.field = field;
+  }
+
+  add(id: string, value: unknown): void {
+    if (!isOrderedValue(value)) {
+      this.unordered.add(id);
+      return;
+    }
+    const position = this.upperBound(value);
+    this.entries.splice(position, 0, { value, id });
+  }
+
+  remove(id: string, value: unknown): void {
+    if (!isOrderedValue(value)) {
+      this.unordered.delete(id);
+      return;
+    }
+    for (let i = this.lowerBound(value); i < this.entries.length; i++) {
+      if (compareOrdered(this.entries[i].value, value) !== 0) break;
+      if (this.entries[i].id === id) {
+        this.entries.splice(i, 1);
+        return;
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.unordered.clear();
+  }
+
+  lookup(filter: FilterConfig): Set<string> | null {
+    const value = filter.value;
+
+    switch (filter.operator) {
+      case 'eq':
+        return isOrderedValue(value) ? this.range(value, true, value, true) : null;
+      case 'in':
+        if (!Array.isArray(value) || !value.every(isOrderedValue)) return null;
+        return new Set(value.flatMap(item => Array.from(this.range(item, true, item, true))));
+      case 'gt':
+      case 'gte':
+        return isOrderedValue(value) ? this.range(value, filter.operator === 'gte', undefined, false) : null;
+      case 'lt':
+      case 'lte':
+        return isOrderedValue(value) ? this.range(undefined, false, value, filter.operator === 'lte') : null;
+      case 'between':
+        if (!Array.isArray(value) || value.length !== 2 || !value.every(isOrderedValue)) return null;
+        return this.range(value[0], true, value[1], true);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Ids in index order, or null if some values cannot be ordered
+   */
+  orderedIds(direction: 'asc' | 'desc'): string[] | null {
+    if (this.unordered.size > 0) return null;
+    if (this.entries.length > 0 && this.entries.some(entry => typeof entry.value !== typeof this.entries[0].value)) {
+      return null;
+    }
+    const ids = this.entries.map(entry => entry.id);
+    return direction === 'desc' ? ids.reverse() : ids;
+  }
+
+  private range(
+    lower: OrderedValue | undefined,
+    lowerInclusive: boolean,
+    upper: OrderedValue | undefined,
+    upperInclusive: boolean
+  ): Set<string> {
+    const bound = lower ?? upper!;
+    const result = new Set(this.unordered);
+
+    // Numbers precede strings, so each primitive type is a contiguous run
+    const numberCount = this.lowerBound('');
+    const [typeStart, typeEnd] = typeof bound === 'number'
+      ? [0, numberCount]
+      : [numberCount, this.entries.length];
+    const [otherStart, otherEnd] = typeof bound === 'number'
+      ? [numberCount, this.entries.length]
+      : [0, numberCount];
+
+    // Loose JS comparisons can match values of the other primitive type,
+    // so those are always treated as candidates
+    for (let i = otherStart; i < otherEnd; i++) {
+      result.add(this.entries[i].id);
+    }
+
+    const start = lower === undefined ? typeStart : lowerInclusive ? this.lowerBound(lower) : this.upperBound(lower);
+    const end = upper === undefined ? typeEnd : upperInclusive ? this.upperBound(upper) : this.lowerBound(upper);
+
+    for (let i = Math.max(start, typeStart); i < Math.min(end, typeEnd); i++) {
+      result.add(this.entries[i].id);
+    }
+
+    return result;
+  }
+
+  private lowerBound(value: OrderedValue): number {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareOrdered(this.entries[mid].value, value) < 0) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  private upperBound(value: OrderedValue): number {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareOrdered(this.entries[mid].value, value) <= 0) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
+
+/**
+ * Primary key map plus the secondary indexes declared on an entity's fields
+ */
+export class EntityIndexes {
+  private byId: Map<string, EntityRecord> = new Map();
+  private indexes: Map<string, FieldIndex> = new Map();
+  // Kept after removal so a rolled back delete returns to its old position
+  private sequence: Map<string, number> = new Map();
+  private nextSequence = 0;
+
+  constructor(definition: EntityDefinition, records: EntityRecord[] = []) {
+    for (const field of definition.fields) {
+      if (field.index === 'hash') {
+        this.indexes.set(field.name, new HashIndex(field.name));
+      } else if (field.index === 'sorted') {
+        this.indexes.set(field.name, new SortedIndex(field.name));
+      }
+    }
+    records.forEach(record => this.add(record));
+  }
+
+  add(record: EntityRecord): void {
+    if (!this.sequence.has(record.id)) {
+      this.sequence.set(record.id, this.nextSequence++);
+    }
+    this.byId.set(record.id, record);
+    this.indexes.forEach(index => index.add(record.id, record.data[index.field]));
+  }
+
+  remove(record: EntityRecord): void {
+    this.byId.delete(record.id);
+    this.indexes.forEach(index => index.remove(record.id, record.data[index.field]));
+  }
+
+  replace(previous: EntityRecord, next: EntityRecord): void {
+    this.remove(previous);
+    this.add(next);
+  }
+
+  getRecord(id: string): EntityRecord | undefined {
+    return this.byId.get(id);
+  }
+
+  inInsertionOrder(ids: Set<string>): EntityRecord[] {
+    return Array.from(ids)
+      .map(id => this.byId.get(id))
+      .filter((record): record is EntityRecord => record !== undefined)
+      .sort((a, b) => this.sequence.get(a.id)! - this.sequence.get(b.id)!);
+  }
+
+  getIndex(field: string): FieldIndex | undefined {
+    return this.indexes.get(field);
+  }
+
+  getIndexedFields(): Array<{ field: string; type: FieldIndexType }> {
+    return Array.from(this.indexes.values()).map(index => ({ field: index.field, type: index.type }));
+  }
+}
+
+export interface PlannedQuery {
+  plan: QueryPlan;
+  /** Candidate records, already in requested order when plan.sortStrategy is 'index' */
+  candidates: EntityRecord[];
+}
+
+/**
+ * Choose the most selective index for the query's filters and, when
+ * possible, an index that already yields the requested sort order.
+ *
+ * Candidates are a superset of the final result: the engine still applies
+ * every filter afterwards, so indexes only narrow the scan.
+ */
+export function planQuery(
+  params: QueryParams,
+  records: EntityRecord[],
+  indexes: EntityIndexes,
+  indexableFilters: FilterConfig[]
+): PlannedQuery {
+  let best: { filter: FilterConfig; index: FieldIndex; ids: Set<string> } | null = null;
+
+  for (const filter of indexableFilters) {
+    const index = indexes.getIndex(filter.field);
+    const ids = index?.lookup(filter);
+    if (index && ids && (!best || ids.size < best.ids.size)) {
+      best = { filter, index, ids };
+    }
+  }
+
+  const sort = params.sort ?? [];
+  const sortIndex = sort.length === 1 ? indexes.getIndex(sort[0].field) : undefined;
+  const orderedIds = sortIndex instanceof SortedIndex ? sortIndex.orderedIds(sort[0].direction) : null;
+
+  let candidates: EntityRecord[];
+  let sortStrategy: QueryPlan['sortStrategy'] = sort.length === 0 ? 'none' : 'in_memory';
+
+  // Prefer an ordered scan when the filter index would not narrow much
+  if (orderedIds && (!best || best.ids.size > records.length / 2)) {
+    const allowed = best?.ids;
+    candidates = orderedIds
+      .filter(id => !allowed || allowed.has(id))
+      .map(id => indexes.getRecord(id)!);
+    sortStrategy = 'index';
+  } else if (best) {
+    // Preserve insertion order so unsorted results match a full scan
+    candidates = indexes.inInsertionOrder(best.ids);
+  } else {
+    candidates = [...records];
+  }
+
+  return {
+    candidates,
+    plan: {
+      strategy: best ? 'index_scan' : 'full_scan',
+      index: best ? { field: best.index.field, type: best.index.type, operator: best.filter.operator } : undefined,
+      sortStrategy,
+      sortIndex: sortStrategy === 'index' ? sort[0].field : undefined,
+      scannedRecords: candidates.length,
+      totalRecords: records.length
+    }
+  };
+}
@@ -0,0 +1,168 @@
+// Schema Migrations for Entity Engine
+//
+// Records remember the schema version they were written with. When a
+// definition with a new `version` is registered, each record's data is run
+// through the chain of MigrationDefinitions between the two versions.
+
+import type {
+  EntityDefinition,
+  FieldType,
+  MigrationDefinition,
+  MigrationStep,
+  RecordData
+} from '../../types/entity';
+import { NotFoundError } from './errors';
+import { compileExpression, createRecordScope } from './expression';
+
+export const DEFAULT_SCHEMA_VERSION = '1.0.0';
+
+export function getSchemaVersion(definition: Pick<EntityDefinition, 'version'>): string {
+  return definition.version ?? DEFAULT_SCHEMA_VERSION;
+}
+
+/**
+ * Migrations leading from one version to another, in order.
+ * Throws when the definition declares no such chain.
+ */
+export function findMigrationPath(
+  definition: Pick<EntityDefinition, 'name' | 'migrations'>,
+  fromVersion: string,
+  toVersion: string
+): MigrationDefinition[] {
+  const path: MigrationDefinition[] = [];
+  const visited = new Set<string>();
+  let current = fromVersion;
+
+  while (current !== toVersion) {
+    const next = definition.migrations?.find(migration => migration.from === current);
+    if (!next || visited.has(current)) {
+      throw new NotFoundError(
+        `No migration path for "${definition.name}" from version ${fromVersion} to ${toVersion}`,
+        { resource: 'migration', id: `${fromVersion} -> ${toVersion}`, entity: definition.name }
+      );
+    }
+    visited.add(current);
+    path.push(next);
+    current = next.to;
+  }
+
+  return path;
+}
+
+const isBlank = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+/**
+ * Default conversion used by `retype` steps without an expression.
+ * Values that cannot be converted are kept so validation can flag them.
+ */
+export function convertFieldValue(value: unknown, type: FieldType): unknown {
+  if (isBlank(value)) return value;
+
+  switch (type) {
+    case 'number':
+    case 'currency':
+    case 'percentage': {
+      // Only formatting comes off: grouping commas, currency and percent signs
+      const text = typeof value === 'string' ? value.replace(/[\s,$€£¥%]/g, '') : undefined;
+      if (text === '') return value;
+      const number = text !== undefined ? Number(text) : Number(value);
+      return isNaN(number) ? value : number;
+    }
+    case 'boolean':
+      if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+        if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+        return value;
+      }
+      return Boolean(value);
+    case 'date':
+    case 'datetime': {
+      const date = value instanceof Date ? value : new Date(value as string | number);
+      return isNaN(date.getTime()) ? value : date;
+    }
+    case 'multiselect':
+      return Array.isArray(value) ? value : String(value).split(',').map(item => item.trim()).filter(Boolean);
+    case 'text':
+    case 'richtext':
+    case 'email':
+    case 'phone':
+    case 'url':
+    case 'select':
+      return Array.isArray(value) ? value.join(', ') : value instanceof Date ? value.toISOString() : String(value);
+    default:
+      return value;
+  }
+}
+
+const evaluateWith = (source: string, data: RecordData, value?: unknown): unknown => {
+  const scope = createRecordScope(data);
+  return compileExpression(source).evaluate(name => (name === 'value' ? value : scope(name)));
+};
+
+/**
+ * Apply one step to a copy of the data
+ */
+export function applyMigrationStep(data: RecordData, step: MigrationStep): RecordData {
+  const result: RecordData = { ...data };
+
+  switch (step.type) {
+    case 'rename':
+      if (step.from in result) {
+        result[step.to] = result[step.from];
+        delete result[step.from];
+      }
+      break;
+
+    case 'retype':
+      result[step.field] = step.convert
+        ? evaluateWith(step.convert, data, data[step.field])
+        : convertFieldValue(data[step.field], step.to);
+      break;
+
+    case 'split': {
+      // The last target receives the remainder, so nothing is lost
+      const separator = step.separator ?? ' ';
+      const parts = isBlank(data[step.field]) ? [] : String(data[step.field]).split(separator);
+      step.into.forEach((field, index) => {
+        const isLast = index === step.into.length - 1;
+        result[field] = (isLast ? parts.slice(index).join(separator) : parts[index]) ?? '';
+      });
+      if (!step.keepSource && !step.into.includes(step.field)) {
+        delete result[step.field];
+      }
+      break;
+    }
+
+    case 'merge':
+      result[step.into] = step.expression
+        ? evaluateWith(step.expression, data)
+        : step.fields.map(field => data[field]).filter(value => !isBlank(value)).join(step.separator ?? ' ');
+      if (!step.keepSources) {
+        step.fields.filter(field => field !== step.into).forEach(field => delete result[field]);
+      }
+      break;
+
+    case 'default':
+      if (isBlank(result[step.field])) {
+        result[step.field] = step.expression ? evaluateWith(step.expression, data) : step.value;
+      }
+      break;
+
+    case 'remove':
+      delete result[step.field];
+      break;
+  }
+
+  return result;
+}
+
+/**
+ * Run record data through every step of the given migrations
+ */
+export function migrateRecordData(data: RecordData, migrations: MigrationDefinition[]): RecordData {
+  return migrations.reduce(
+    (current, migration) => migration.steps.reduce(applyMigrationStep, current),
+    data
+  );
+}
@@ -0,0 +1,298 @@
+// Event Outbox for Entity Engine
+//
+// Delivers events from the engine's event log to sinks: an HTTP endpoint,
+// a BroadcastChannel or a file. Each sink is a consumer of the log with its
+// own offset, so delivery is at-least-once and in order. A batch a sink
+// rejects is retried with exponential backoff until it goes through, and
+// events committed while the app was offline or closed are sent on the next
+// start. Receivers can use each event's `seq` to drop duplicates.
+
+import type { EntityEventPattern, StoredEvent } from '../../types/entity';
+import type { EntityEngine } from './engine';
+import { ApiError, toPlatformError } from '../errors';
+
+export interface OutboxSink {
+  readonly name: string;
+  /** Resolve once the sink has accepted every event in the batch */
+  deliver(events: StoredEvent[]): Promise<void>;
+}
+
+export interface OutboxOptions {
+  /** Events to deliver (default 'record:*') */
+  pattern?: EntityEventPattern;
+  /** Most events per delivery (default 50) */
+  batchSize?: number;
+  /** Wait before the first retry, doubled on each failure (default one second) */
+  retryDelayMs?: number;
+  /** Longest wait between retries (default five minutes) */
+  maxRetryDelayMs?: number;
+}
+
+export interface OutboxSinkStatus {
+  sink: string;
+  offset: number; // Last event the sink accepted
+  pending: number;
+  failures: number; // Consecutive failed deliveries
+  lastError?: string;
+  nextRetryAt?: Date;
+  lastDeliveredAt?: Date;
+}
+
+interface SinkState {
+  sink: OutboxSink;
+  failures: number;
+  lastError?: string;
+  nextRetryAt?: Date;
+  lastDeliveredAt?: Date;
+  retryTimer?: ReturnType<typeof setTimeout>;
+  running?: Promise<void>;
+  next?: Promise<void>;
+}
+
+export class Outbox {
+  private engine: EntityEngine;
+  private sinks: Map<string, SinkState>;
+  private pattern: EntityEventPattern;
+  private batchSize: number;
+  private retryDelayMs: number;
+  private maxRetryDelayMs: number;
+  private unsubscribe?: () => void;
+  private started = false;
+
+  private onOnline = () => {
+    this.retryNow().catch(error => console.error('Outbox delivery failed:', error));
+  };
+
+  constructor(engine: EntityEngine, sinks: OutboxSink[], options: OutboxOptions = {}) {
+    this.engine = engine;
+    this.sinks = new Map(sinks.map(sink => [sink.name, { sink, failures: 0 }]));
+    this.pattern = options.pattern ?? 'record:*';
+    this.batchSize = options.batchSize ?? 50;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 5 * 60 * 1000;
+    const log = engine.getEventLog();
+    log.retain(this.pattern);
+    sinks.forEach(sink => log.register(this.consumer(sink)));
+  }
+
+  /**
+   * Deliver whatever the sinks missed, then deliver new events as they are
+   * published. Returns a function that stops the outbox.
+   */
+  async start(): Promise<() => void> {
+    this.started = true;
+    this.unsubscribe = this.engine.on(this.pattern, () => {
+      this.deliverAll().catch(error => console.error('Outbox delivery failed:', error));
+    });
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.onOnline);
+    }
+
+    await this.deliverAll();
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.started = false;
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onOnline);
+    }
+    for (const state of this.sinks.values()) {
+      clearTimeout(state.retryTimer);
+      state.retryTimer = undefined;
+    }
+  }
+
+  /**
+   * Deliver pending events to every sink that is not waiting to retry
+   */
+  async deliverAll(): Promise<void> {
+    await Promise.all(Array.from(this.sinks.values())
+      .filter(state => !state.retryTimer)
+      .map(state => this.deliver(state)));
+  }
+
+  /**
+   * Skip the backoff and retry failed sinks immediately, e.g. once the
+   * network is back
+   */
+  async retryNow(): Promise<void> {
+    for (const state of this.sinks.values()) {
+      clearTimeout(state.retryTimer);
+      state.retryTimer = undefined;
+    }
+    await this.deliverAll();
+  }
+
+  getStatus(): OutboxSinkStatus[] {
+    const log = this.engine.getEventLog();
+    return Array.from(this.sinks.values()).map(state => ({
+      sink: state.sink.name,
+      offset: log.getOffset(this.consumer(state.sink)),
+      pending: log.readFrom(this.consumer(state.sink), { pattern: this.pattern }).length,
+      failures: state.failures,
+      lastError: state.lastError,
+      nextRetryAt: state.nextRetryAt,
+      lastDeliveredAt: state.lastDeliveredAt
+    }));
+  }
+
+  private consumer(sink: OutboxSink): string {
+    return `outbox:${sink.name}`;
+  }
+
+  /**
+   * One delivery run per sink at a time. Calls made during a run share a
+   * single follow-up run, which picks up the events published meanwhile.
+   */
+  private deliver(state: SinkState): Promise<void> {
+    state.next ??= (state.running ?? Promise.resolve()).then(() => {
+      state.next = undefined;
+      state.running = this.drain(state).finally(() => {
+        state.running = undefined;
+      });
+      return state.running;
+    });
+    return state.next;
+  }
+
+  /**
+   * Send batches until the sink is caught up or fails
+   */
+  private async drain(state: SinkState): Promise<void> {
+    const log = this.engine.getEventLog();
+    const consumer = this.consumer(state.sink);
+
+    for (;;) {
+      // A failed sink waits for its retry
+      if (state.retryTimer) return;
+      const batch = log.readFrom(consumer, { pattern: this.pattern, limit: this.batchSize });
+      if (batch.length === 0) return;
+
+      try {
+        await state.sink.deliver(batch);
+      } catch (error) {
+        this.scheduleRetry(state, error);
+        return;
+      }
+
+      await log.commitOffset(consumer, batch[batch.length - 1].seq);
+      state.failures = 0;
+      state.lastError = undefined;
+      state.nextRetryAt = undefined;
+      state.lastDeliveredAt = new Date();
+    }
+  }
+
+  private scheduleRetry(state: SinkState, error: unknown): void {
+    state.failures++;
+    state.lastError = toPlatformError(error).message;
+    console.error(`Outbox delivery to "${state.sink.name}" failed (attempt ${state.failures}):`, error);
+    if (!this.started) return;
+
+    const delay = Math.min(this.retryDelayMs * 2 ** (state.failures - 1), this.maxRetryDelayMs);
+    state.nextRetryAt = new Date(Date.now() + delay);
+    state.retryTimer = setTimeout(() => {
+      state.retryTimer = undefined;
+      this.deliver(state).catch(retryError => console.error('Outbox delivery failed:', retryError));
+    }, delay);
+  }
+}
+
+export interface HttpSinkOptions {
+  name?: string;
+  url: string;
+  headers?: Record<string, string>;
+  /** Per-request timeout (default 10 seconds) */
+  timeoutMs?: number;
+  /** Defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+/**
+ * POSTs each batch as JSON `{ events }`. Any non-2xx response counts as a
+ * failure and the batch is sent again later.
+ */
+export class HttpSink implements OutboxSink {
+  readonly name: string;
+  private options: HttpSinkOptions;
+
+  constructor(options: HttpSinkOptions) {
+    this.name = options.name ?? options.url;
+    this.options = options;
+  }
+
+  async deliver(events: StoredEvent[]): Promise<void> {
+    const send = this.options.fetch ?? fetch;
+    let response: Response;
+    try {
+      response = await send(this.options.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.options.headers },
+        body: JSON.stringify({ events }),
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? 10000)
+      });
+    } catch (error) {
+      throw toPlatformError(error);
+    }
+
+    if (!response.ok) {
+      throw new ApiError(`HTTP ${response.status}: ${response.statusText}`, {
+        adapter: this.name,
+        status: response.status,
+        statusText: response.statusText
+      });
+    }
+  }
+}
+
+/**
+ * Posts each batch as `{ type: 'events', events }` to a BroadcastChannel,
+ * for other tabs or a worker acting as the integration
+ */
+export class BroadcastChannelSink implements OutboxSink {
+  readonly name: string;
+  private channel: BroadcastChannel;
+
+  constructor(channel: string | BroadcastChannel, name?: string) {
+    this.channel = typeof channel === 'string' ? new BroadcastChannel(channel) : channel;
+    this.name = name ?? `broadcast:${this.channel.name}`;
+  }
+
+  async deliver(events: StoredEvent[]): Promise<void> {
+    this.channel.postMessage({ type: 'events', events });
+  }
+}
+
+/**
+ * Minimal file system surface needed by FileSink.
+ * `fs/promises` from Node satisfies it directly.
+ */
+export interface AppendableFileSystem {
+  appendFile(path: string, data: string, encoding: 'utf-8'): Promise<void>;
+}
+
+/**
+ * Appends each event to a file as one line of JSON (NDJSON)
+ *
+ * @example
+ * import fs from 'node:fs/promises'
+ * new Outbox(engine, [new FileSink('./events.ndjson', fs)])
+ */
+export class FileSink implements OutboxSink {
+  readonly name: string;
+  private path: string;
+  private fs: AppendableFileSystem;
+
+  constructor(path: string, fs: AppendableFileSystem, name?: string) {
+    this.path = path;
+    this.fs = fs;
+    this.name = name ?? `file:${path}`;
+  }
+
+  async deliver(events: StoredEvent[]): Promise<void> {
+    await this.fs.appendFile(this.path, events.map(event => JSON.stringify(event) + '\n').join(''), 'utf-8');
+  }
+}
@@ -0,0 +1,119 @@
+// Permission Evaluation for Entity Engine
+//
+// An entity without PermissionDefinitions is unrestricted. Once any are
+// declared, a user needs a role whose definition grants the action and
+// whose conditions (if any) match the record. A missing user has no roles.
+
+import type {
+  EntityAccess,
+  EntityDefinition,
+  PermissionAction,
+  PermissionCondition,
+  PermissionDefinition,
+  RecordData,
+  UserContext
+} from '../../types/entity';
+import { evaluateFilterCondition } from './filters';
+
+export function isRestricted(definition: EntityDefinition): boolean {
+  return definition.permissions.length > 0;
+}
+
+/**
+ * Permission definitions for the user's roles
+ */
+export function getUserPermissions(definition: EntityDefinition, user: UserContext | undefined): PermissionDefinition[] {
+  if (!user) return [];
+  return definition.permissions.filter(permission => user.roles.includes(permission.role));
+}
+
+/**
+ * Compare a record field against a fixed value or, with `userField`, a
+ * value from the user context (`id` or an attribute)
+ */
+export function matchesPermissionCondition(
+  condition: PermissionCondition,
+  data: RecordData,
+  user: UserContext | undefined
+): boolean {
+  const expected = condition.userField
+    ? (condition.userField === 'id' ? user?.id : user?.attributes?.[condition.userField])
+    : condition.value;
+
+  return evaluateFilterCondition(data[condition.field], {
+    field: condition.field,
+    operator: condition.operator,
+    value: expected
+  });
+}
+
+/**
+ * Whether the user may perform an action, optionally on a specific record
+ */
+export function hasPermission(
+  definition: EntityDefinition,
+  user: UserContext | undefined,
+  action: PermissionAction,
+  data?: RecordData
+): boolean {
+  if (!isRestricted(definition)) return true;
+
+  return getUserPermissions(definition, user).some(permission =>
+    permission.actions.includes(action) &&
+    (!data || (permission.conditions ?? []).every(condition => matchesPermissionCondition(condition, data, user)))
+  );
+}
+
+/**
+ * Fields the user may not perform an action on. A field is restricted only
+ * when every one of the user's roles restricts it.
+ */
+export function getRestrictedFields(
+  definition: EntityDefinition,
+  user: UserContext | undefined,
+  action: PermissionAction,
+  data?: RecordData
+): Set<string> {
+  const restricted = new Set<string>();
+  if (!isRestricted(definition)) return restricted;
+
+  const permissions = getUserPermissions(definition, user);
+
+  for (const field of definition.fields) {
+    const allowed = permissions.some(permission => {
+      const restriction = permission.fieldRestrictions?.find(entry => entry.field === field.name);
+      if (!restriction) return true;
+      const applies = !restriction.condition || !data || matchesPermissionCondition(restriction.condition, data, user);
+      return applies && restriction.actions.includes(action);
+    });
+
+    if (!allowed) restricted.add(field.name);
+  }
+
+  return restricted;
+}
+
+const ALL_ACTIONS: PermissionAction[] = ['create', 'read', 'update', 'delete', 'export', 'import', 'share', 'approve', 'audit'];
+
+/**
+ * Entity-level actions and field restrictions for a user, ignoring row
+ * conditions. Used to hide and disable UI the user cannot use.
+ */
+export function getEntityAccess(definition: EntityDefinition, user: UserContext | undefined): EntityAccess {
+  const hidden = getRestrictedFields(definition, user, 'read');
+  const readOnly = Array.from(getRestrictedFields(definition, user, 'update')).filter(field => !hidden.has(field));
+
+  return {
+    actions: ALL_ACTIONS.filter(action => hasPermission(definition, user, action)),
+    hiddenFields: Array.from(hidden),
+    readOnlyFields: readOnly
+  };
+}
+
+/**
+ * Copy of the data without the given fields
+ */
+export function redactData(data: RecordData, hidden: Set<string>): RecordData {
+  if (hidden.size === 0) return data;
+  return Object.fromEntries(Object.entries(data).filter(([field]) => !hidden.has(field)));
+}
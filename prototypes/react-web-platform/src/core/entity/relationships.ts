@@ -0,0 +1,241 @@
+// Relationship Resolution for Entity Engine
+//
+// Foreign key conventions:
+// - many-to-one, one-to-one, lookup: `foreignKey` is a field on the source
+//   record holding the target record id (defaults to `<name>Id`)
+// - many-to-many: `foreignKey` is a field on the source record holding an
+//   array of target ids (defaults to `<name>Ids`)
+// - one-to-many: `foreignKey` is a field on the target records holding the
+//   source record id (defaults to `<sourceEntity>Id`)
+
+import type {
+  EntityDefinition,
+  EntityRecord,
+  RecordData,
+  RelationshipDefinition,
+  ValidationError
+} from '../../types/entity';
+import { NotFoundError } from './errors';
+
+/**
+ * Read access the resolver needs from the engine
+ */
+export interface RecordSource {
+  getEntityDefinition(entityName: string): EntityDefinition | undefined;
+  getEntities(): string[];
+  get(entityName: string, id: string): EntityRecord | undefined;
+  findByField(entityName: string, field: string, value: unknown): EntityRecord[];
+}
+
+export interface DependentRecord {
+  entity: string;
+  record: EntityRecord;
+  relationship: RelationshipDefinition;
+  cascade: boolean;
+  /** many-to-many references are always detached instead of deleted */
+  detach: boolean;
+}
+
+export function getForeignKey(relationship: RelationshipDefinition, sourceEntity: string): string {
+  if (relationship.foreignKey) return relationship.foreignKey;
+
+  switch (relationship.type) {
+    case 'one-to-many': return `${sourceEntity}Id`;
+    case 'many-to-many': return `${relationship.name}Ids`;
+    default: return `${relationship.name}Id`;
+  }
+}
+
+/**
+ * True when the foreign key lives on the source (declaring) entity
+ */
+export function isOwningSide(relationship: RelationshipDefinition): boolean {
+  return relationship.type !== 'one-to-many';
+}
+
+/**
+ * True when the relationship resolves to at most one record
+ */
+export function isSingleValued(relationship: RelationshipDefinition): boolean {
+  return relationship.type !== 'one-to-many' && relationship.type !== 'many-to-many';
+}
+
+/**
+ * Split `['assignments.event', 'manager']` into top-level names and nested paths
+ */
+export function parseIncludes(include: string[]): Map<string, string[]> {
+  const tree = new Map<string, string[]>();
+
+  for (const path of include) {
+    const [head, ...rest] = path.split('.');
+    if (!tree.has(head)) tree.set(head, []);
+    if (rest.length > 0) tree.get(head)!.push(rest.join('.'));
+  }
+
+  return tree;
+}
+
+const isEmptyReference = (value: unknown): boolean =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+export class RelationshipResolver {
+  private source: RecordSource;
+
+  constructor(source: RecordSource) {
+    this.source = source;
+  }
+
+  /**
+   * Check that every owning-side foreign key points at an existing record
+   */
+  validateReferences(data: RecordData, definition: EntityDefinition): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    for (const relationship of definition.relationships) {
+      if (!isOwningSide(relationship)) continue;
+
+      const field = getForeignKey(relationship, definition.name);
+      const value = data[field];
+
+      if (isEmptyReference(value)) {
+        if (relationship.required) {
+          errors.push({
+            field,
+            message: `${relationship.displayName} is required`,
+            code: 'REFERENCE_REQUIRED',
+            value
+          });
+        }
+        continue;
+      }
+
+      if (!this.source.getEntityDefinition(relationship.targetEntity)) {
+        errors.push({
+          field,
+          message: `${relationship.displayName} references unknown entity "${relationship.targetEntity}"`,
+          code: 'REFERENCE_ENTITY_NOT_FOUND',
+          value
+        });
+        continue;
+      }
+
+      const ids: unknown[] = relationship.type === 'many-to-many'
+        ? (Array.isArray(value) ? value : [value])
+        : [value];
+      const missing = ids.filter(id => !this.source.get(relationship.targetEntity, String(id)));
+
+      if (missing.length > 0) {
+        errors.push({
+          field,
+          message: `${relationship.displayName} references missing ${relationship.targetEntity} record(s): ${missing.join(', ')}`,
+          code: 'REFERENCE_NOT_FOUND',
+          value
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Records that reference the given record, from either side of a relationship
+   */
+  findDependents(entityName: string, recordId: string): DependentRecord[] {
+    const dependents = new Map<string, DependentRecord>();
+    const add = (dependent: DependentRecord) => {
+      const key = `${dependent.entity}:${dependent.record.id}`;
+      const existing = dependents.get(key);
+      // Either side declaring cascadeDelete is enough to cascade
+      dependents.set(key, existing
+        ? { ...existing, cascade: existing.cascade || dependent.cascade }
+        : dependent);
+    };
+
+    // Children declared on this entity (one-to-many)
+    const definition = this.source.getEntityDefinition(entityName);
+    for (const relationship of definition?.relationships ?? []) {
+      if (relationship.type !== 'one-to-many') continue;
+      const field = getForeignKey(relationship, entityName);
+      for (const record of this.source.findByField(relationship.targetEntity, field, recordId)) {
+        add({ entity: relationship.targetEntity, record, relationship, cascade: !!relationship.cascadeDelete, detach: false });
+      }
+    }
+
+    // Records in other entities whose foreign keys point here
+    for (const otherEntity of this.source.getEntities()) {
+      const otherDefinition = this.source.getEntityDefinition(otherEntity)!;
+      for (const relationship of otherDefinition.relationships) {
+        if (relationship.targetEntity !== entityName || !isOwningSide(relationship)) continue;
+        const field = getForeignKey(relationship, otherEntity);
+        for (const record of this.source.findByField(otherEntity, field, recordId)) {
+          add({
+            entity: otherEntity,
+            record,
+            relationship,
+            cascade: !!relationship.cascadeDelete,
+            detach: relationship.type === 'many-to-many'
+          });
+        }
+      }
+    }
+
+    return Array.from(dependents.values());
+  }
+
+  /**
+   * Records on the other side of a relationship. `recordId` may be omitted
+   * for a record that has not been created yet.
+   */
+  getRelatedRecords(
+    entityName: string,
+    recordId: string | undefined,
+    data: RecordData,
+    relationship: RelationshipDefinition
+  ): EntityRecord[] {
+    const field = getForeignKey(relationship, entityName);
+    const value = data[field];
+
+    switch (relationship.type) {
+      case 'one-to-many':
+        return recordId ? this.source.findByField(relationship.targetEntity, field, recordId) : [];
+      case 'many-to-many':
+        return (Array.isArray(value) ? value : [])
+          .map(id => this.source.get(relationship.targetEntity, String(id)))
+          .filter((target): target is EntityRecord => target !== undefined);
+      default: {
+        const target = isEmptyReference(value) ? undefined : this.source.get(relationship.targetEntity, String(value));
+        return target ? [target] : [];
+      }
+    }
+  }
+
+  /**
+   * Return a copy of the record with `related` populated for each include path
+   */
+  hydrate(record: EntityRecord, include: string[]): EntityRecord {
+    if (include.length === 0) return record;
+
+    const definition = this.source.getEntityDefinition(record.entity);
+    if (!definition) return record;
+
+    const related: NonNullable<EntityRecord['related']> = {};
+
+    for (const [name, nested] of parseIncludes(include)) {
+      const relationship = definition.relationships.find(rel => rel.name === name);
+      if (!relationship) {
+        throw new NotFoundError(`Relationship "${name}" not found on entity "${record.entity}"`, {
+          resource: 'relationship',
+          id: name,
+          entity: record.entity
+        });
+      }
+
+      const targets = this.getRelatedRecords(record.entity, record.id, record.data, relationship)
+        .map(target => this.hydrate(target, nested));
+
+      related[name] = isSingleValued(relationship) ? targets[0] ?? null : targets;
+    }
+
+    return { ...record, related };
+  }
+}
@@ -0,0 +1,349 @@
+// Business Rule Runtime for Entity Engine
+//
+// Rules fire in two phases around each write. The "before" phase
+// (before_save, on_create, on_update, on_change, before_delete) runs ahead
+// of validation, and field actions edit the pending data in place. The
+// "after" phase (after_save, after_delete) runs once the change is staged,
+// and the engine writes back field edits as a follow-up update. Record
+// actions run in the same transaction. Notifications and API calls wait
+// until it commits.
+
+import type {
+  ActionDefinition,
+  ActionType,
+  BusinessRuleDefinition,
+  EntityDefinition,
+  RecordData,
+  RuleActionTrace,
+  RuleExecutionTrace,
+  RuleTrigger,
+  UserContext
+} from '../../types/entity';
+import { compileExpression, ExpressionSyntaxError } from './expression';
+import type { ExpressionScope } from './expression';
+import { createConditionScope, evaluateConditions, toExpressionError } from './conditions';
+import { RuleLoopError } from './errors';
+import { ApiError } from '../errors';
+import type { ChangeLog, EntityTransaction } from './transaction';
+
+/** Nested rule executions allowed before a chain is treated as a loop */
+const MAX_RULE_DEPTH = 16;
+
+export interface RuleRunContext {
+  recordId?: string;
+  /** Working copy of the record data; field actions write to it */
+  data: RecordData;
+  /** Data before the write, for on_change rules */
+  previous?: RecordData;
+  user?: UserContext;
+  log: ChangeLog;
+  tx: EntityTransaction;
+}
+
+export interface RuleActionContext extends RuleRunContext {
+  definition: EntityDefinition;
+  rule: BusinessRuleDefinition;
+  trigger: RuleTrigger;
+  scope: ExpressionScope;
+}
+
+export type RuleActionHandler = (
+  action: ActionDefinition,
+  context: RuleActionContext
+) => Promise<Omit<RuleActionTrace, 'type'>> | Omit<RuleActionTrace, 'type'>;
+
+export interface RuleRunResult {
+  data: RecordData;
+  traces: RuleExecutionTrace[];
+}
+
+/**
+ * Replace `{{field}}` placeholders with values from the record
+ */
+export function interpolateTemplate(template: string, scope: ExpressionScope): string {
+  return template.replace(/\{\{\s*([\w.*]+)\s*\}\}/g, (_, name: string) => {
+    const value = scope(name);
+    return value === null || value === undefined ? '' : String(value);
+  });
+}
+
+const evaluate = (source: string, scope: ExpressionScope): unknown => compileExpression(source).evaluate(scope);
+
+/**
+ * Static `data` merged with values computed from `expressions`
+ */
+function buildRecordData(action: ActionDefinition, scope: ExpressionScope): RecordData {
+  const computed = Object.entries(action.config.expressions ?? {})
+    .map(([field, source]) => [field, evaluate(source, scope)]);
+  return { ...(action.config.data ?? {}), ...Object.fromEntries(computed) };
+}
+
+function targetsCurrentRecord(action: ActionDefinition, context: RuleActionContext): boolean {
+  return (action.config.entity ?? context.definition.name) === context.definition.name && !action.config.recordId;
+}
+
+const fieldState = (state: string): RuleActionHandler => action => ({
+  status: 'applied',
+  field: action.config.field,
+  detail: { state }
+});
+
+const DEFAULT_HANDLERS: Record<ActionType, RuleActionHandler> = {
+  set_field_value: (action, context) => {
+    context.data[action.config.field!] = action.config.value;
+    return { status: 'applied', field: action.config.field, detail: action.config.value };
+  },
+
+  calculate_field: (action, context) => {
+    const value = evaluate(action.config.formula ?? '', context.scope);
+    context.data[action.config.field!] = value;
+    return { status: 'applied', field: action.config.field, detail: value };
+  },
+
+  run_script: (action, context) => {
+    const value = evaluate(action.config.script ?? '', context.scope);
+    if (action.config.field) {
+      context.data[action.config.field] = value;
+    }
+    return { status: 'applied', field: action.config.field, detail: value };
+  },
+
+  show_field: fieldState('visible'),
+  hide_field: fieldState('hidden'),
+  enable_field: fieldState('enabled'),
+  disable_field: fieldState('disabled'),
+
+  send_notification: (action, context) => {
+    // before_save notifications are reported by ValidationEngine as errors
+    if (context.trigger === 'before_save') {
+      return { status: 'skipped', detail: 'Reported as a validation error' };
+    }
+
+    const notification = {
+      rule: context.rule.name,
+      message: interpolateTemplate(action.config.message ?? context.rule.displayName, context.scope),
+      recipients: action.config.recipients ?? [],
+      channels: action.config.channels ?? []
+    };
+    context.log.queueEvent({
+      type: 'notification:sent',
+      entity: context.definition.name,
+      recordId: context.recordId,
+      data: notification,
+      timestamp: new Date(),
+      userId: context.user?.id
+    });
+    return { status: 'deferred', detail: notification };
+  },
+
+  create_record: async (action, context) => {
+    const entity = action.config.entity ?? context.definition.name;
+    const record = await context.tx.create(entity, buildRecordData(action, context.scope));
+    return { status: 'applied', detail: { entity, id: record.id } };
+  },
+
+  update_record: async (action, context) => {
+    const updates = buildRecordData(action, context.scope);
+    if (targetsCurrentRecord(action, context)) {
+      Object.assign(context.data, updates);
+      return { status: 'applied', detail: updates };
+    }
+
+    const entity = action.config.entity ?? context.definition.name;
+    const id = String(evaluate(action.config.recordId!, context.scope));
+    await context.tx.update(entity, id, updates);
+    return { status: 'applied', detail: { entity, id, updates } };
+  },
+
+  delete_record: async (action, context) => {
+    const entity = action.config.entity ?? context.definition.name;
+    const id = action.config.recordId ? String(evaluate(action.config.recordId, context.scope)) : context.recordId;
+    if (!id) {
+      return { status: 'skipped', detail: 'No record to delete' };
+    }
+    await context.tx.delete(entity, id);
+    return { status: 'applied', detail: { entity, id } };
+  },
+
+  call_api: (action, context) => {
+    const endpoint = action.config.apiEndpoint;
+    if (!endpoint) {
+      return { status: 'skipped', detail: 'No apiEndpoint configured' };
+    }
+
+    const body = JSON.stringify({
+      rule: context.rule.name,
+      entity: context.definition.name,
+      recordId: context.recordId,
+      data: context.data
+    });
+    context.log.afterCommit(async () => {
+      const response = await fetch(endpoint, {
+        method: action.config.method ?? 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body
+      });
+      if (!response.ok) {
+        throw new ApiError(`Rule "${context.rule.name}" API call failed: ${response.status} ${response.statusText}`, {
+          status: response.status,
+          statusText: response.statusText
+        });
+      }
+    });
+    return { status: 'deferred', detail: { endpoint } };
+  },
+
+  start_workflow: action => ({
+    status: 'skipped',
+    detail: { workflowId: action.config.workflowId, reason: 'No workflow runtime registered' }
+  })
+};
+
+/**
+ * Selects, orders and executes business rules for a write
+ */
+export class RuleEngine {
+  private handlers: Map<ActionType, RuleActionHandler> = new Map(
+    Object.entries(DEFAULT_HANDLERS) as Array<[ActionType, RuleActionHandler]>
+  );
+
+  /**
+   * Replace the handler for an action type (e.g. to plug in a workflow runtime)
+   */
+  registerActionHandler(type: ActionType, handler: RuleActionHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Active rules for the given triggers, lowest priority number first.
+   * `ruleName` narrows the selection to a single rule.
+   */
+  getRules(
+    definition: EntityDefinition,
+    triggers: RuleTrigger[],
+    context: Pick<RuleRunContext, 'data' | 'previous'>,
+    ruleName?: string
+  ): BusinessRuleDefinition[] {
+    return definition.businessRules
+      .filter(rule => rule.active && triggers.includes(rule.trigger) && (!ruleName || rule.name === ruleName))
+      .filter(rule => rule.trigger !== 'on_change' || this.hasRelevantChange(rule, context))
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * Run every matching rule in order. Later rules see the field edits of
+   * earlier ones.
+   */
+  async run(
+    definition: EntityDefinition,
+    triggers: RuleTrigger[],
+    context: RuleRunContext,
+    ruleName?: string
+  ): Promise<RuleRunResult> {
+    const data: RecordData = { ...context.data };
+    const traces: RuleExecutionTrace[] = [];
+
+    for (const rule of this.getRules(definition, triggers, context, ruleName)) {
+      let matched: boolean;
+      try {
+        matched = evaluateConditions(rule.conditions, data, context.user);
+      } catch (error) {
+        console.error(`Error evaluating business rule "${rule.name}":`, error);
+        continue;
+      }
+      if (!matched) continue;
+
+      traces.push(await this.execute(definition, rule, { ...context, data }));
+    }
+
+    return { data, traces };
+  }
+
+  private async execute(
+    definition: EntityDefinition,
+    rule: BusinessRuleDefinition,
+    context: RuleRunContext
+  ): Promise<RuleExecutionTrace> {
+    const { log } = context;
+    const key = `${definition.name}.${rule.name}@${context.recordId ?? 'new'}`;
+    if (log.ruleStack.includes(key) || log.ruleStack.length >= MAX_RULE_DEPTH) {
+      throw new RuleLoopError(definition.name, [...log.ruleStack, key]);
+    }
+
+    const trace: RuleExecutionTrace = {
+      rule: rule.name,
+      entity: definition.name,
+      recordId: context.recordId,
+      trigger: rule.trigger,
+      path: [...log.ruleStack],
+      actions: [],
+      timestamp: new Date()
+    };
+
+    log.ruleStack.push(key);
+    try {
+      for (const action of rule.actions) {
+        const scope = createConditionScope(context.data, context.user);
+        let conditionMet: boolean;
+        try {
+          conditionMet = !action.condition || evaluateConditions([action.condition], context.data, context.user);
+        } catch (error) {
+          // Like an invalid rule condition, an invalid action condition skips instead of failing the save
+          trace.actions.push({
+            type: action.type,
+            status: 'failed',
+            field: action.config.field,
+            detail: error instanceof ExpressionSyntaxError ? toExpressionError(error, action.condition!.field) : undefined,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          continue;
+        }
+        if (!conditionMet) {
+          trace.actions.push({ type: action.type, status: 'skipped', field: action.config.field, detail: 'Condition not met' });
+          continue;
+        }
+
+        const handler = this.handlers.get(action.type);
+        if (!handler) {
+          trace.actions.push({ type: action.type, status: 'skipped', error: `No handler for action "${action.type}"` });
+          continue;
+        }
+
+        try {
+          const result = await handler(action, { ...context, definition, rule, trigger: rule.trigger, scope });
+          trace.actions.push({ type: action.type, ...result });
+        } catch (error) {
+          // Loops and failed record writes abort the whole transaction
+          if (error instanceof RuleLoopError || ['create_record', 'update_record', 'delete_record'].includes(action.type)) {
+            throw error;
+          }
+          trace.actions.push({
+            type: action.type,
+            status: 'failed',
+            field: action.config.field,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    } finally {
+      log.ruleStack.pop();
+    }
+
+    return trace;
+  }
+
+  /**
+   * on_change rules fire only when a field their conditions read has changed
+   * (any field, for rules without conditions). New records count as changed.
+   */
+  private hasRelevantChange(rule: BusinessRuleDefinition, context: Pick<RuleRunContext, 'data' | 'previous'>): boolean {
+    const { previous, data } = context;
+    if (!previous) return true;
+
+    const fields = rule.conditions.length > 0
+      ? rule.conditions.map(condition => condition.field)
+      : Array.from(new Set([...Object.keys(previous), ...Object.keys(data)]));
+
+    return fields.some(field => JSON.stringify(previous[field]) !== JSON.stringify(data[field]));
+  }
+}
@@ -0,0 +1,269 @@
+// Scheduled Rule Runner for Entity Engine
+//
+// Every active rule with trigger 'scheduled' and a `schedule` becomes a job
+// in the 'jobs' system collection, so the next run time survives reloads.
+// On start the scheduler runs whatever came due while the app was closed
+// (per the rule's catchUp policy), then checks for due jobs on an interval.
+// Each run is recorded in 'job_runs'.
+
+import type { JobRun, JobRunQuery, ScheduledJob } from '../../types/entity';
+import type { EntityEngine } from './engine';
+import { getNextRun, getPreviousRun, getRunsBetween, parseCron } from './cron';
+import { NotFoundError } from './errors';
+
+export const JOBS_COLLECTION = 'jobs';
+export const JOB_RUNS_COLLECTION = 'job_runs';
+
+/** Runs kept per job; older ones are pruned */
+const MAX_RUNS_PER_JOB = 100;
+
+/** Most catch-up runs performed for one job at a time with catchUp 'all' */
+const MAX_CATCH_UP_RUNS = 50;
+
+export interface SchedulerOptions {
+  /** How often to check for due jobs (default one minute) */
+  intervalMs?: number;
+  /** Clock, for tests */
+  now?: () => Date;
+}
+
+const reviveJob = (job: ScheduledJob): ScheduledJob => ({
+  ...job,
+  nextRunAt: new Date(job.nextRunAt),
+  lastRunAt: job.lastRunAt ? new Date(job.lastRunAt) : undefined
+});
+
+const reviveRun = (run: JobRun): JobRun => ({
+  ...run,
+  scheduledFor: new Date(run.scheduledFor),
+  startedAt: new Date(run.startedAt),
+  finishedAt: new Date(run.finishedAt)
+});
+
+export class RuleScheduler {
+  private engine: EntityEngine;
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private runs: JobRun[] = [];
+  private intervalMs: number;
+  private now: () => Date;
+  private timer?: ReturnType<typeof setInterval>;
+  private ticking?: Promise<void>;
+  private onRegistered = () => {
+    this.sync().catch(error => console.error('Failed to sync scheduled jobs:', error));
+  };
+
+  constructor(engine: EntityEngine, options: SchedulerOptions = {}) {
+    this.engine = engine;
+    this.intervalMs = options.intervalMs ?? 60 * 1000;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Load jobs and history, catch up on missed runs and start checking for
+   * due jobs. Returns a function that stops the scheduler.
+   */
+  async start(): Promise<() => void> {
+    const storage = this.engine.getStorage();
+    const [jobs, runs] = await Promise.all([
+      storage.loadSystemEntries<ScheduledJob>(JOBS_COLLECTION),
+      storage.loadSystemEntries<JobRun>(JOB_RUNS_COLLECTION)
+    ]);
+    this.jobs = new Map(jobs.map(job => [job.id, reviveJob(job)]));
+    this.runs = runs.map(reviveRun).sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+
+    await this.sync();
+    await this.tick();
+
+    this.engine.on('entity:registered', this.onRegistered);
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Scheduled rule tick failed:', error));
+    }, this.intervalMs);
+
+    return () => this.stop();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    this.engine.off('entity:registered', this.onRegistered);
+  }
+
+  /**
+   * Create jobs for new scheduled rules, update changed schedules and drop
+   * jobs whose rule is gone or inactive
+   */
+  async sync(): Promise<void> {
+    const storage = this.engine.getStorage();
+    const seen = new Set<string>();
+
+    for (const entityName of this.engine.getEntities()) {
+      const definition = this.engine.getEntityDefinition(entityName)!;
+
+      for (const rule of definition.businessRules) {
+        if (rule.trigger !== 'scheduled' || !rule.active || !rule.schedule) continue;
+
+        const id = `${entityName}.${rule.name}`;
+        const existing = this.jobs.get(id);
+        seen.add(id);
+        if (existing?.cron === rule.schedule.cron) continue;
+
+        try {
+          parseCron(rule.schedule.cron);
+        } catch (error) {
+          console.error(`Invalid schedule for rule "${id}":`, error);
+          continue;
+        }
+
+        const job: ScheduledJob = {
+          ...existing,
+          id,
+          entity: entityName,
+          rule: rule.name,
+          cron: rule.schedule.cron,
+          nextRunAt: getNextRun(rule.schedule.cron, existing?.lastRunAt ?? this.now())
+        };
+        this.jobs.set(id, job);
+        await storage.putSystemEntry(JOBS_COLLECTION, id, job);
+      }
+    }
+
+    for (const id of Array.from(this.jobs.keys())) {
+      if (!seen.has(id)) {
+        this.jobs.delete(id);
+        await storage.deleteSystemEntry(JOBS_COLLECTION, id);
+      }
+    }
+  }
+
+  /**
+   * Run every job that is due. Overlapping calls wait for the running one.
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return this.ticking;
+
+    this.ticking = (async () => {
+      const now = this.now();
+      for (const job of Array.from(this.jobs.values())) {
+        if (job.nextRunAt <= now) {
+          await this.runDue(job, now);
+        }
+      }
+    })();
+
+    try {
+      await this.ticking;
+    } finally {
+      this.ticking = undefined;
+    }
+  }
+
+  /**
+   * Run a job immediately, outside its schedule
+   */
+  async runNow(entityName: string, ruleName: string): Promise<JobRun> {
+    const job = this.jobs.get(`${entityName}.${ruleName}`);
+    if (!job) {
+      throw new NotFoundError(`No scheduled job for rule "${ruleName}" in "${entityName}"`, {
+        resource: 'job',
+        id: `${entityName}.${ruleName}`,
+        entity: entityName
+      });
+    }
+    return this.execute(job, this.now(), { catchUp: false, manual: true });
+  }
+
+  getJobs(): ScheduledJob[] {
+    return Array.from(this.jobs.values());
+  }
+
+  /**
+   * Recorded runs, oldest first. `limit` keeps the most recent.
+   */
+  getRunHistory(query: JobRunQuery = {}): JobRun[] {
+    const runs = this.runs.filter(run =>
+      (!query.entity || run.entity === query.entity) &&
+      (!query.rule || run.rule === query.rule) &&
+      (!query.status || run.status === query.status)
+    );
+    return query.limit !== undefined ? runs.slice(-query.limit) : runs;
+  }
+
+  private async runDue(job: ScheduledJob, now: Date): Promise<void> {
+    const rule = this.engine.getEntityDefinition(job.entity)?.businessRules.find(candidate => candidate.name === job.rule);
+    const policy = rule?.schedule?.catchUp ?? 'once';
+
+    // A job is only on time if it comes due within one check interval
+    const isLate = (date: Date) => now.getTime() - date.getTime() > this.intervalMs;
+
+    let due: Date[];
+    let nextRunAt: Date;
+    if (policy === 'all') {
+      // Occurrences after the one that is due, up to now
+      const missed = [job.nextRunAt, ...getRunsBetween(job.cron, job.nextRunAt, now, MAX_CATCH_UP_RUNS)];
+      due = missed;
+      // Anything beyond the cap is picked up on the next tick
+      nextRunAt = missed.length > MAX_CATCH_UP_RUNS ? getNextRun(job.cron, missed[missed.length - 1]) : getNextRun(job.cron, now);
+    } else {
+      // Only the latest occurrence counts, however long the gap
+      const latest = getPreviousRun(job.cron, now);
+      due = policy === 'none' && isLate(latest) ? [] : [latest];
+      nextRunAt = getNextRun(job.cron, now);
+    }
+
+    for (const scheduledFor of due) {
+      await this.execute(job, scheduledFor, { catchUp: isLate(scheduledFor), manual: false });
+    }
+
+    job.nextRunAt = nextRunAt;
+    await this.engine.getStorage().putSystemEntry(JOBS_COLLECTION, job.id, job);
+  }
+
+  private async execute(
+    job: ScheduledJob,
+    scheduledFor: Date,
+    flags: Pick<JobRun, 'catchUp' | 'manual'>
+  ): Promise<JobRun> {
+    const startedAt = this.now();
+    const run: JobRun = {
+      id: `${job.id}:${startedAt.getTime()}:${this.runs.length}`,
+      jobId: job.id,
+      entity: job.entity,
+      rule: job.rule,
+      scheduledFor,
+      startedAt,
+      finishedAt: startedAt,
+      status: 'success',
+      ...flags,
+      recordsMatched: 0,
+      recordsChanged: 0
+    };
+
+    try {
+      const result = await this.engine.runScheduledRule(job.entity, job.rule, { reason: `Scheduled rule ${job.id}` });
+      run.recordsMatched = result.recordsMatched;
+      run.recordsChanged = result.recordsChanged;
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      console.error(`Scheduled rule "${job.id}" failed:`, error);
+    }
+    run.finishedAt = this.now();
+
+    job.lastRunAt = run.startedAt;
+    job.lastStatus = run.status;
+    await this.record(run);
+    return run;
+  }
+
+  private async record(run: JobRun): Promise<void> {
+    const storage = this.engine.getStorage();
+    this.runs.push(run);
+    await storage.putSystemEntry(JOB_RUNS_COLLECTION, run.id, run);
+
+    const forJob = this.runs.filter(entry => entry.jobId === run.jobId);
+    for (const stale of forJob.slice(0, Math.max(0, forJob.length - MAX_RUNS_PER_JOB))) {
+      this.runs.splice(this.runs.indexOf(stale), 1);
+      await storage.deleteSystemEntry(JOB_RUNS_COLLECTION, stale.id);
+    }
+  }
+}
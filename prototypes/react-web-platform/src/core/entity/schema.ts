@@ -0,0 +1,135 @@
+// Zod Schemas for Entity Engine
+//
+// Builds a Zod object schema from an entity definition, for forms (e.g.
+// react-hook-form's zodResolver) and for checking data at the edges. Field
+// types, required flags and select options shape each field; validation
+// rules refine the whole object so their conditions can read other fields.
+// 'unique', entity-backed 'exists_in' and 'remote' rules need records or
+// services, so only the entity engine checks them.
+
+import { z } from 'zod';
+import type { EntityDefinition, FieldDefinition, RecordData, UserContext, ValidationRule } from '../../types/entity';
+import { ExpressionSyntaxError } from './expression';
+import { createConditionScope, evaluateConditionExpression } from './conditions';
+import { isEmptyValue, isValidDateString, isValidEmail, isValidPhone, isValidURL, testValueRule } from './validation';
+
+export interface ZodSchemaOptions {
+  user?: UserContext; // Exposed to rule expressions as `user.*`
+}
+
+export type EntitySchema = z.ZodObject<Record<string, z.ZodType>>;
+
+const ENGINE_ONLY_RULES: ValidationRule['type'][] = ['unique', 'remote'];
+
+/**
+ * Schema for a field's type. Messages match ValidationEngine's.
+ */
+function typeSchema(field: FieldDefinition): z.ZodType {
+  const required = `${field.displayName} is required`;
+  const invalid = (message: string) => ({
+    error: (issue: { input: unknown }) => issue.input === undefined ? required : message
+  });
+  const text = (message: string, check: (value: string) => boolean) =>
+    z.string(invalid(message)).refine(check, message);
+  const values = field.displayOptions.options?.map(option => option.value);
+
+  switch (field.type) {
+    case 'text':
+    case 'richtext':
+      return z.string(invalid(`${field.displayName} must be a string`));
+
+    case 'number':
+    case 'currency':
+    case 'percentage':
+      return z.number(invalid(`${field.displayName} must be a valid number`));
+
+    case 'boolean':
+      return z.boolean(invalid(`${field.displayName} must be a boolean`));
+
+    case 'date':
+    case 'datetime':
+      return z.union([z.date(), z.string().refine(isValidDateString)], invalid(`${field.displayName} must be a valid date`));
+
+    case 'email':
+      return text(`${field.displayName} must be a valid email address`, isValidEmail);
+
+    case 'phone':
+      return text(`${field.displayName} must be a valid phone number`, isValidPhone);
+
+    case 'url':
+      return text(`${field.displayName} must be a valid URL`, isValidURL);
+
+    case 'select':
+      return values
+        ? z.literal(values, invalid(`${field.displayName} must be one of: ${values.join(', ')}`))
+        : z.union([z.string(), z.number()], invalid(`${field.displayName} must be a string or number`));
+
+    case 'multiselect':
+      return z.array(
+        values ? z.literal(values, { error: `${field.displayName} contains invalid values` }) : z.union([z.string(), z.number()]),
+        invalid(`${field.displayName} must be an array`)
+      );
+
+    default:
+      // 'file' and 'formula' values are not constrained
+      return z.unknown().refine(value => value !== undefined, required);
+  }
+}
+
+/**
+ * Empty values (null, '', []) count as missing, as they do for the engine
+ */
+function fieldSchema(field: FieldDefinition): z.ZodType {
+  const schema = typeSchema(field);
+  return z.preprocess(value => isEmptyValue(value) ? undefined : value, field.required ? schema : schema.optional());
+}
+
+/**
+ * Whether a non-empty value passes a rule. As with the engine, a rule that
+ * does not parse fails, and one that fails to evaluate only fails 'custom'.
+ */
+function passesRule(rule: ValidationRule, field: FieldDefinition, value: unknown, data: RecordData, user?: UserContext): boolean {
+  if (rule.severity === 'warning' || ENGINE_ONLY_RULES.includes(rule.type) || (rule.type === 'exists_in' && rule.entity)) {
+    return true;
+  }
+
+  const scope = createConditionScope(data, user, { value, field: field.name });
+  try {
+    if (rule.type === 'custom') {
+      return !rule.condition || evaluateConditionExpression(rule.condition, scope);
+    }
+    if (rule.condition && !evaluateConditionExpression(rule.condition, scope)) {
+      return true;
+    }
+  } catch (error) {
+    return !(error instanceof ExpressionSyntaxError) && rule.type !== 'custom';
+  }
+  return testValueRule(rule, value);
+}
+
+/**
+ * Zod schema for an entity's record data. Each rule is its own refinement,
+ * run even when other fields have issues so a form shows every problem at
+ * once; it is skipped for empty values and for fields whose type is wrong.
+ */
+export function createZodSchema(definition: EntityDefinition, options: ZodSchemaOptions = {}): EntitySchema {
+  const shape = Object.fromEntries(definition.fields.map(field => [field.name, fieldSchema(field)]));
+  let schema: EntitySchema = z.object(shape);
+
+  for (const field of definition.fields) {
+    for (const rule of field.validation) {
+      schema = schema.refine(
+        data => isEmptyValue(data[field.name]) || passesRule(rule, field, data[field.name], data, options.user),
+        {
+          error: rule.message,
+          path: [field.name],
+          when: payload =>
+            typeof payload.value === 'object' && payload.value !== null &&
+            !payload.issues.some(issue => issue.path?.[0] === field.name)
+        }
+      );
+    }
+  }
+
+  return schema;
+}
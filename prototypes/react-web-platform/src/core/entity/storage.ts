@@ -0,0 +1,376 @@
+// Storage Providers for Entity Engine
+
+import type { EntityDefinition, EntityRecord } from '../../types/entity';
+
+/**
+ * Persistence backend used by the EntityEngine.
+ *
+ * The engine keeps a working copy of every record in memory and writes
+ * through to the provider, so providers only need simple key/value style
+ * operations.
+ *
+ * System entries are engine-owned data that is not an entity record, such
+ * as the audit trail, grouped into named collections.
+ */
+export interface StorageProvider {
+  readonly name: string;
+  loadDefinitions(): Promise<EntityDefinition[]>;
+  saveDefinition(definition: EntityDefinition): Promise<void>;
+  loadRecords(entityName: string): Promise<EntityRecord[]>;
+  putRecord(record: EntityRecord): Promise<void>;
+  deleteRecord(entityName: string, id: string): Promise<void>;
+  loadSystemEntries<T>(collection: string): Promise<T[]>;
+  putSystemEntry<T>(collection: string, key: string, value: T): Promise<void>;
+  deleteSystemEntry(collection: string, key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DATE_TYPES = ['date', 'datetime'];
+
+/**
+ * Restore Date instances after a JSON round-trip. With the entity's
+ * definition, date and datetime fields in `data` are restored too; values
+ * that do not parse as a date are left as stored.
+ */
+export function reviveRecord(record: EntityRecord, definition?: EntityDefinition): EntityRecord {
+  const data = { ...record.data };
+  for (const field of definition?.fields ?? []) {
+    const value = data[field.name];
+    if (!DATE_TYPES.includes(field.type) || (typeof value !== 'string' && typeof value !== 'number')) continue;
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) data[field.name] = date;
+  }
+
+  return {
+    ...record,
+    data,
+    createdAt: new Date(record.createdAt),
+    updatedAt: new Date(record.updatedAt),
+    deletedAt: record.deletedAt ? new Date(record.deletedAt) : undefined,
+    workflow: record.workflow
+      ? {
+          ...record.workflow,
+          enteredAt: new Date(record.workflow.enteredAt),
+          dueAt: record.workflow.dueAt ? new Date(record.workflow.dueAt) : undefined,
+          history: record.workflow.history.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+        }
+      : undefined,
+    metadata: record.metadata
+      ? {
+          ...record.metadata,
+          lastSyncAt: record.metadata.lastSyncAt ? new Date(record.metadata.lastSyncAt) : undefined,
+          overrides: record.metadata.overrides?.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+        }
+      : undefined
+  };
+}
+
+/**
+ * Non-persistent provider (default). Data lives only as long as the page.
+ */
+export class MemoryStorageProvider implements StorageProvider {
+  readonly name = 'memory';
+  private definitions: Map<string, EntityDefinition> = new Map();
+  private records: Map<string, Map<string, EntityRecord>> = new Map();
+  private systemEntries: Map<string, Map<string, unknown>> = new Map();
+
+  async loadDefinitions(): Promise<EntityDefinition[]> {
+    return Array.from(this.definitions.values());
+  }
+
+  async saveDefinition(definition: EntityDefinition): Promise<void> {
+    this.definitions.set(definition.name, definition);
+  }
+
+  async loadRecords(entityName: string): Promise<EntityRecord[]> {
+    return Array.from(this.records.get(entityName)?.values() ?? []);
+  }
+
+  async putRecord(record: EntityRecord): Promise<void> {
+    if (!this.records.has(record.entity)) {
+      this.records.set(record.entity, new Map());
+    }
+    this.records.get(record.entity)!.set(record.id, record);
+  }
+
+  async deleteRecord(entityName: string, id: string): Promise<void> {
+    this.records.get(entityName)?.delete(id);
+  }
+
+  async loadSystemEntries<T>(collection: string): Promise<T[]> {
+    return Array.from(this.systemEntries.get(collection)?.values() ?? []) as T[];
+  }
+
+  async putSystemEntry<T>(collection: string, key: string, value: T): Promise<void> {
+    if (!this.systemEntries.has(collection)) {
+      this.systemEntries.set(collection, new Map());
+    }
+    this.systemEntries.get(collection)!.set(key, value);
+  }
+
+  async deleteSystemEntry(collection: string, key: string): Promise<void> {
+    this.systemEntries.get(collection)?.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.definitions.clear();
+    this.records.clear();
+    this.systemEntries.clear();
+  }
+}
+
+/**
+ * Browser provider backed by IndexedDB
+ */
+export class IndexedDBStorageProvider implements StorageProvider {
+  readonly name = 'indexeddb';
+  private static readonly DEFINITIONS_STORE = 'definitions';
+  private static readonly RECORDS_STORE = 'records';
+  private static readonly SYSTEM_STORE = 'system';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private databaseName: string;
+
+  constructor(databaseName: string = 'entity-engine') {
+    this.databaseName = databaseName;
+  }
+
+  async loadDefinitions(): Promise<EntityDefinition[]> {
+    const store = await this.store(IndexedDBStorageProvider.DEFINITIONS_STORE, 'readonly');
+    return this.request<EntityDefinition[]>(store.getAll());
+  }
+
+  async saveDefinition(definition: EntityDefinition): Promise<void> {
+    const store = await this.store(IndexedDBStorageProvider.DEFINITIONS_STORE, 'readwrite');
+    await this.request(store.put(definition));
+  }
+
+  async loadRecords(entityName: string): Promise<EntityRecord[]> {
+    const store = await this.store(IndexedDBStorageProvider.RECORDS_STORE, 'readonly');
+    const records = await this.request<EntityRecord[]>(store.index('entity').getAll(entityName));
+    return records.map(record => reviveRecord(record));
+  }
+
+  async putRecord(record: EntityRecord): Promise<void> {
+    const store = await this.store(IndexedDBStorageProvider.RECORDS_STORE, 'readwrite');
+    await this.request(store.put(record));
+  }
+
+  async deleteRecord(entityName: string, id: string): Promise<void> {
+    const store = await this.store(IndexedDBStorageProvider.RECORDS_STORE, 'readwrite');
+    await this.request(store.delete([entityName, id]));
+  }
+
+  async loadSystemEntries<T>(collection: string): Promise<T[]> {
+    const store = await this.store(IndexedDBStorageProvider.SYSTEM_STORE, 'readonly');
+    const entries = await this.request<Array<{ value: T }>>(store.index('collection').getAll(collection));
+    return entries.map(entry => entry.value);
+  }
+
+  async putSystemEntry<T>(collection: string, key: string, value: T): Promise<void> {
+    const store = await this.store(IndexedDBStorageProvider.SYSTEM_STORE, 'readwrite');
+    await this.request(store.put({ collection, key, value }));
+  }
+
+  async deleteSystemEntry(collection: string, key: string): Promise<void> {
+    const store = await this.store(IndexedDBStorageProvider.SYSTEM_STORE, 'readwrite');
+    await this.request(store.delete([collection, key]));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const storeNames = [
+      IndexedDBStorageProvider.DEFINITIONS_STORE,
+      IndexedDBStorageProvider.RECORDS_STORE,
+      IndexedDBStorageProvider.SYSTEM_STORE
+    ];
+    const tx = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(storeName => tx.objectStore(storeName).clear());
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        // Version 2 added the system entry store
+        const request = indexedDB.open(this.databaseName, 2);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(IndexedDBStorageProvider.DEFINITIONS_STORE)) {
+            db.createObjectStore(IndexedDBStorageProvider.DEFINITIONS_STORE, { keyPath: 'name' });
+          }
+          if (!db.objectStoreNames.contains(IndexedDBStorageProvider.RECORDS_STORE)) {
+            const records = db.createObjectStore(IndexedDBStorageProvider.RECORDS_STORE, {
+              keyPath: ['entity', 'id']
+            });
+            records.createIndex('entity', 'entity', { unique: false });
+          }
+          if (!db.objectStoreNames.contains(IndexedDBStorageProvider.SYSTEM_STORE)) {
+            const system = db.createObjectStore(IndexedDBStorageProvider.SYSTEM_STORE, {
+              keyPath: ['collection', 'key']
+            });
+            system.createIndex('collection', 'collection', { unique: false });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(storeName: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(storeName, mode).objectStore(storeName);
+  }
+
+  private request<T = unknown>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Minimal file system surface needed by JsonFileStorageProvider.
+ * `fs/promises` from Node satisfies it directly.
+ */
+export interface FileSystemLike {
+  readFile(path: string, encoding: 'utf-8'): Promise<string>;
+  writeFile(path: string, data: string, encoding: 'utf-8'): Promise<void>;
+}
+
+interface JsonFileContents {
+  definitions: Record<string, EntityDefinition>;
+  records: Record<string, Record<string, EntityRecord>>;
+  system: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Node provider that keeps everything in a single JSON file.
+ *
+ * @example
+ * import fs from 'node:fs/promises'
+ * const engine = new EntityEngine(new JsonFileStorageProvider('./data.json', fs))
+ */
+export class JsonFileStorageProvider implements StorageProvider {
+  readonly name = 'json-file';
+  private contents: JsonFileContents | null = null;
+  private loading: Promise<JsonFileContents> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private path: string;
+  private fs: FileSystemLike;
+
+  constructor(path: string, fs: FileSystemLike) {
+    this.path = path;
+    this.fs = fs;
+  }
+
+  async loadDefinitions(): Promise<EntityDefinition[]> {
+    const contents = await this.read();
+    return Object.values(contents.definitions);
+  }
+
+  async saveDefinition(definition: EntityDefinition): Promise<void> {
+    const contents = await this.read();
+    contents.definitions[definition.name] = definition;
+    await this.write();
+  }
+
+  async loadRecords(entityName: string): Promise<EntityRecord[]> {
+    const contents = await this.read();
+    return Object.values(contents.records[entityName] ?? {}).map(record => reviveRecord(record));
+  }
+
+  async putRecord(record: EntityRecord): Promise<void> {
+    const contents = await this.read();
+    contents.records[record.entity] = contents.records[record.entity] ?? {};
+    contents.records[record.entity][record.id] = record;
+    await this.write();
+  }
+
+  async deleteRecord(entityName: string, id: string): Promise<void> {
+    const contents = await this.read();
+    delete contents.records[entityName]?.[id];
+    await this.write();
+  }
+
+  async loadSystemEntries<T>(collection: string): Promise<T[]> {
+    const contents = await this.read();
+    return Object.values(contents.system[collection] ?? {}) as T[];
+  }
+
+  async putSystemEntry<T>(collection: string, key: string, value: T): Promise<void> {
+    const contents = await this.read();
+    contents.system[collection] = contents.system[collection] ?? {};
+    contents.system[collection][key] = value;
+    await this.write();
+  }
+
+  async deleteSystemEntry(collection: string, key: string): Promise<void> {
+    const contents = await this.read();
+    delete contents.system[collection]?.[key];
+    await this.write();
+  }
+
+  async clear(): Promise<void> {
+    this.contents = { definitions: {}, records: {}, system: {} };
+    await this.write();
+  }
+
+  private read(): Promise<JsonFileContents> {
+    if (this.contents) return Promise.resolve(this.contents);
+
+    // Concurrent first reads share one load instead of each replacing `contents`
+    if (!this.loading) {
+      this.loading = this.load().then(
+        contents => {
+          // clear() may have replaced the store while the file was loading
+          this.contents = this.contents ?? contents;
+          return this.contents;
+        },
+        error => {
+          this.loading = null;
+          throw error;
+        }
+      );
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<JsonFileContents> {
+    let raw: string;
+    try {
+      raw = await this.fs.readFile(this.path, 'utf-8');
+    } catch (error) {
+      // Only a missing file starts an empty store; anything else must not be overwritten
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return { definitions: {}, records: {}, system: {} };
+      }
+      throw error;
+    }
+
+    // A corrupt file throws rather than being replaced by an empty one
+    const parsed = JSON.parse(raw) as Partial<JsonFileContents>;
+    return {
+      definitions: parsed.definitions ?? {},
+      records: parsed.records ?? {},
+      system: parsed.system ?? {}
+    };
+  }
+
+  private write(): Promise<void> {
+    // Serialize writes so concurrent operations never interleave partial files;
+    // a failed write must not fail every write queued after it
+    const current = this.writeQueue.catch(() => undefined).then(() =>
+      this.fs.writeFile(this.path, JSON.stringify(this.contents, null, 2), 'utf-8')
+    );
+    this.writeQueue = current;
+    return current;
+  }
+}
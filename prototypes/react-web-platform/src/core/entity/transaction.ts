@@ -0,0 +1,86 @@
+// Transaction Support for Entity Engine
+
+import type { DeleteOptions, EntityEvent, EntityRecord, RecordData, WriteOptions } from '../../types/entity';
+import { TransactionClosedError } from './errors';
+
+/**
+ * `before`/`after` are the live record states. `trashed` is the copy held in
+ * the trash: added by a soft delete, removed by a restore ('create') or
+ * a 'purge'.
+ */
+export interface RecordChange {
+  type: 'create' | 'update' | 'delete' | 'purge';
+  entity: string;
+  id: string;
+  before?: EntityRecord;
+  after?: EntityRecord;
+  trashed?: EntityRecord;
+  index: number; // Position of the record in the entity's record list
+  userId?: string;
+  reason?: string;
+}
+
+/**
+ * Who is making the changes in a transaction and why. Operations that do
+ * not pass their own user or reason (e.g. cascades) inherit these.
+ */
+export type TransactionContext = Pick<WriteOptions, 'user' | 'reason'>;
+
+/**
+ * Operations available inside `engine.transaction(async tx => ...)`.
+ * Changes are visible immediately through the engine but are only
+ * persisted, and their events only emitted, once the callback resolves.
+ */
+export interface EntityTransaction {
+  create(entityName: string, data: RecordData, options?: WriteOptions): Promise<EntityRecord>;
+  update(entityName: string, id: string, updates: Partial<RecordData>, options?: WriteOptions): Promise<EntityRecord>;
+  delete(entityName: string, id: string, options?: DeleteOptions): Promise<void>;
+  get(entityName: string, id: string): EntityRecord | undefined;
+}
+
+/**
+ * Ordered log of staged changes and the events they will emit on commit
+ */
+export class ChangeLog {
+  readonly changes: RecordChange[] = [];
+  readonly events: EntityEvent[] = [];
+  /** Side effects (API calls and the like) run only after a successful commit */
+  readonly effects: Array<() => Promise<void> | void> = [];
+  /** Business rules currently executing, for loop detection */
+  readonly ruleStack: string[] = [];
+  readonly context: TransactionContext;
+  private closed = false;
+
+  constructor(context: TransactionContext = {}) {
+    this.context = context;
+  }
+
+  record(change: RecordChange, event: EntityEvent): void {
+    this.assertOpen();
+    this.changes.push(change);
+    this.events.push(event);
+  }
+
+  /**
+   * Queue an event that is not tied to a record change
+   */
+  queueEvent(event: EntityEvent): void {
+    this.assertOpen();
+    this.events.push(event);
+  }
+
+  afterCommit(effect: () => Promise<void> | void): void {
+    this.assertOpen();
+    this.effects.push(effect);
+  }
+
+  assertOpen(): void {
+    if (this.closed) {
+      throw new TransactionClosedError();
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
@@ -1,4 +1,8 @@
 // Entity Validation Engine
+//
+// Most rules check one value. 'unique' and 'exists_in' read other records
+// through the context's lookup, and 'remote' awaits a registered validator;
+// on updates these three only run for fields that changed.
 
 import type { 
   EntityDefinition, 
@@ -6,43 +10,194 @@ import type {
   ValidationRule, 
   ValidationResult, 
   ValidationError, 
-  ValidationWarning
+  ValidationWarning,
+  ValidationContext,
+  ValidationOverride,
+  RecordData,
+  ConditionDefinition,
+  RemoteValidator,
+  UserContext
 } from '../../types/entity';
+import { ExpressionSyntaxError } from './expression';
+import { createConditionScope, evaluateConditionExpression, evaluateConditions, toExpressionError } from './conditions';
+
+/**
+ * Whether the user may save over an error: its rule allows override and
+ * the user has one of its overrideRoles (any user when none are listed)
+ */
+export function canOverride(error: ValidationError, user: UserContext | undefined): boolean {
+  if (!error.overridable || !error.rule?.allowOverride) return false;
+  const roles = error.rule.overrideRoles ?? [];
+  return roles.length === 0 || roles.some(role => user?.roles.includes(role));
+}
+
+function isCoveredBy(error: ValidationError, override: ValidationOverride, user: UserContext | undefined): boolean {
+  return !!override.reason.trim() &&
+    (!override.fields || override.fields.includes(error.field)) &&
+    canOverride(error, user);
+}
+
+const normalize = (value: unknown, ignoreCase?: boolean) =>
+  ignoreCase && typeof value === 'string' ? value.toLowerCase() : value;
+
+export function isEmptyValue(value: unknown): boolean {
+  return value === null ||
+    value === undefined ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+export function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email);
+}
+
+export function isValidPhone(phone: string): boolean {
+  // Basic phone validation - can be enhanced based on requirements
+  const phoneRegex = /^[\+]?[1-9][\d]{0,15}$/;
+  return phoneRegex.test(phone.replace(/[\s\-\(\)]/g, ''));
+}
+
+export function isValidURL(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidDateString(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  const date = new Date(value);
+  return !isNaN(date.getTime());
+}
+
+/**
+ * Whether a value passes a rule that needs nothing but the value: every
+ * type except 'custom', 'unique', 'remote' and entity-backed 'exists_in'
+ * (which pass here)
+ */
+export function testValueRule(rule: ValidationRule, value: unknown): boolean {
+  const size = typeof value === 'number' ? value
+    : typeof value === 'string' || Array.isArray(value) ? value.length
+    : undefined;
+
+  switch (rule.type) {
+    case 'required':
+      return !isEmptyValue(value);
+
+    case 'min':
+      return size === undefined || size >= (rule.value as number);
+
+    case 'max':
+      return size === undefined || size <= (rule.value as number);
+
+    case 'range':
+      if (typeof value === 'number' && Array.isArray(rule.value) && rule.value.length === 2) {
+        return value >= rule.value[0] && value <= rule.value[1];
+      }
+      return true;
+
+    case 'format':
+    case 'pattern':
+      if (typeof value === 'string' && typeof rule.value === 'string') {
+        return new RegExp(rule.value).test(value);
+      }
+      return true;
+
+    case 'email':
+      return typeof value === 'string' && isValidEmail(value);
+
+    case 'phone':
+      return typeof value === 'string' && isValidPhone(value);
+
+    case 'url':
+      return typeof value === 'string' && isValidURL(value);
+
+    case 'exists_in':
+      if (!rule.entity && Array.isArray(rule.value)) {
+        const allowed = rule.value.map(item => normalize(item, rule.ignoreCase));
+        return allowed.includes(normalize(value, rule.ignoreCase));
+      }
+      return true;
+
+    default:
+      return true;
+  }
+}
+
+const CROSS_RECORD_RULES: ValidationRule['type'][] = ['unique', 'exists_in', 'remote'];
 
 export class ValidationEngine {
+  private remoteValidators: Map<string, RemoteValidator> = new Map();
+
   /**
-   * Validate a record against entity definition
+   * Add or replace the validator 'remote' rules name in `validator`
    */
-  async validate(data: Record<string, any>, definition: EntityDefinition): Promise<ValidationResult> {
-    const errors: ValidationError[] = [];
+  registerRemoteValidator(name: string, validator: RemoteValidator): void {
+    this.remoteValidators.set(name, validator);
+  }
+
+  /**
+   * Validate a record against entity definition. Errors from rules with
+   * `allowOverride` are reported apart from the rest, and those the
+   * context's override covers do not make the record invalid.
+   */
+  async validate(
+    data: Record<string, any>,
+    definition: EntityDefinition,
+    context: ValidationContext = {}
+  ): Promise<ValidationResult> {
+    const found: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
 
     // Validate each field
     for (const field of definition.fields) {
       const value = data[field.name];
-      const fieldErrors = await this.validateField(value, field);
-      errors.push(...fieldErrors);
+      const fieldErrors = await this.validateField(value, field, data, context, definition.name);
+      found.push(...fieldErrors);
     }
 
     // Validate business rules (basic validation rules only)
-    const ruleErrors = await this.validateBusinessRules(data, definition);
-    errors.push(...ruleErrors);
+    const ruleErrors = await this.validateBusinessRules(data, definition, context);
+    found.push(...ruleErrors);
+
+    // Rules with severity 'warning' never block the save
+    for (const error of found.filter(error => error.rule?.severity === 'warning')) {
+      warnings.push({ field: error.field, message: error.message, code: error.code, value: error.value });
+      found.splice(found.indexOf(error), 1);
+    }
+
+    const { override } = context;
+    const errors = found.filter(error => !error.overridable);
+    const overridden = override ? found.filter(error => error.overridable && isCoveredBy(error, override, context.user)) : [];
+    const overridable = found.filter(error => error.overridable && !overridden.includes(error));
 
     return {
-      isValid: errors.length === 0,
+      isValid: errors.length === 0 && overridable.length === 0,
       errors,
+      overridable,
+      overridden,
       warnings
     };
   }
 
   /**
-   * Validate a single field
+   * Validate a single field. `data` is the whole record, which rule
+   * conditions can reference; `entityName` is needed by 'unique' rules.
    */
-  async validateField(value: any, field: FieldDefinition): Promise<ValidationError[]> {
+  async validateField(
+    value: any,
+    field: FieldDefinition,
+    data: RecordData = {},
+    context: ValidationContext = {},
+    entityName?: string
+  ): Promise<ValidationError[]> {
     const errors: ValidationError[] = [];
 
     // Check required field
-    if (field.required && this.isEmpty(value)) {
+    if (field.required && isEmptyValue(value)) {
       errors.push({
         field: field.name,
         message: `${field.displayName} is required`,
@@ -53,7 +208,7 @@ export class ValidationEngine {
     }
 
     // Skip further validation if field is empty and not required
-    if (this.isEmpty(value)) {
+    if (isEmptyValue(value)) {
       return errors;
     }
 
@@ -65,7 +220,7 @@ export class ValidationEngine {
 
     // Apply validation rules
     for (const rule of field.validation) {
-      const ruleError = await this.validateRule(value, rule, field);
+      const ruleError = await this.validateRule(value, rule, field, data, context, entityName);
       if (ruleError) {
         errors.push(ruleError);
       }
@@ -117,7 +272,7 @@ export class ValidationEngine {
 
       case 'date':
       case 'datetime':
-        if (!(value instanceof Date) && !this.isValidDateString(value)) {
+        if (!(value instanceof Date) && !isValidDateString(value)) {
           return {
             field: field.name,
             message: `${field.displayName} must be a valid date`,
@@ -128,7 +283,7 @@ export class ValidationEngine {
         break;
 
       case 'email':
-        if (typeof value !== 'string' || !this.isValidEmail(value)) {
+        if (typeof value !== 'string' || !isValidEmail(value)) {
           return {
             field: field.name,
             message: `${field.displayName} must be a valid email address`,
@@ -139,7 +294,7 @@ export class ValidationEngine {
         break;
 
       case 'phone':
-        if (typeof value !== 'string' || !this.isValidPhone(value)) {
+        if (typeof value !== 'string' || !isValidPhone(value)) {
           return {
             field: field.name,
             message: `${field.displayName} must be a valid phone number`,
@@ -150,7 +305,7 @@ export class ValidationEngine {
         break;
 
       case 'url':
-        if (typeof value !== 'string' || !this.isValidURL(value)) {
+        if (typeof value !== 'string' || !isValidURL(value)) {
           return {
             field: field.name,
             message: `${field.displayName} must be a valid URL`,
@@ -204,82 +359,93 @@ export class ValidationEngine {
   /**
    * Validate a single validation rule
    */
-  private async validateRule(value: any, rule: ValidationRule, field: FieldDefinition): Promise<ValidationError | null> {
+  private async validateRule(
+    value: any,
+    rule: ValidationRule,
+    field: FieldDefinition,
+    data: RecordData,
+    context: ValidationContext,
+    entityName?: string
+  ): Promise<ValidationError | null> {
     let isValid = true;
+    let message = rule.message;
+    if (CROSS_RECORD_RULES.includes(rule.type) && !this.isAffected(rule, field, context)) {
+      return null;
+    }
+    const scope = createConditionScope(data, context.user, { value, field: field.name });
+
+    // On other rule types the condition decides whether the rule applies
+    if (rule.condition && rule.type !== 'custom') {
+      try {
+        if (!evaluateConditionExpression(rule.condition, scope)) return null;
+      } catch (error) {
+        if (error instanceof ExpressionSyntaxError) return { ...toExpressionError(error, field.name), rule };
+        console.error('Error evaluating validation condition:', error);
+        return null;
+      }
+    }
 
     switch (rule.type) {
-      case 'required':
-        isValid = !this.isEmpty(value);
-        break;
-
-      case 'min':
-        if (typeof value === 'number') {
-          isValid = value >= (rule.value as number);
-        } else if (typeof value === 'string') {
-          isValid = value.length >= (rule.value as number);
-        } else if (Array.isArray(value)) {
-          isValid = value.length >= (rule.value as number);
+      case 'custom':
+        // The condition is an expression that must hold for the value to be valid
+        if (rule.condition) {
+          try {
+            isValid = evaluateConditionExpression(rule.condition, scope);
+          } catch (error) {
+            if (error instanceof ExpressionSyntaxError) return { ...toExpressionError(error, field.name), rule };
+            console.error('Error evaluating custom validation:', error);
+            isValid = false;
+          }
         }
         break;
 
-      case 'max':
-        if (typeof value === 'number') {
-          isValid = value <= (rule.value as number);
-        } else if (typeof value === 'string') {
-          isValid = value.length <= (rule.value as number);
-        } else if (Array.isArray(value)) {
-          isValid = value.length <= (rule.value as number);
+      case 'unique':
+        if (context.lookup && entityName) {
+          isValid = !this.findDuplicate(value, rule, field, data, context, entityName);
         }
         break;
 
-      case 'range':
-        if (typeof value === 'number' && Array.isArray(rule.value) && rule.value.length === 2) {
-          isValid = value >= rule.value[0] && value <= rule.value[1];
+      case 'exists_in':
+        if (!rule.entity) {
+          isValid = testValueRule(rule, value);
+        } else if (context.lookup) {
+          const matches = context.lookup.findRecords(rule.entity, rule.lookupField ?? 'id', value, { ignoreCase: rule.ignoreCase });
+          isValid = matches.length > 0;
         }
         break;
 
-      case 'format':
-      case 'pattern':
-        if (typeof value === 'string' && typeof rule.value === 'string') {
-          const regex = new RegExp(rule.value);
-          isValid = regex.test(value);
+      case 'remote': {
+        const validator = rule.validator ? this.remoteValidators.get(rule.validator) : undefined;
+        if (!validator) {
+          return this.uncheckedWarning(field, value, rule, `no validator "${rule.validator}" is registered`);
         }
-        break;
-
-      case 'email':
-        isValid = typeof value === 'string' && this.isValidEmail(value);
-        break;
-
-      case 'phone':
-        isValid = typeof value === 'string' && this.isValidPhone(value);
-        break;
-
-      case 'url':
-        isValid = typeof value === 'string' && this.isValidURL(value);
-        break;
-
-      case 'custom':
-        // For custom validation, we would need to evaluate the condition
-        // This is a simplified implementation
-        if (rule.condition) {
-          try {
-            // In a real implementation, this would be safer evaluation
-            isValid = this.evaluateCondition(rule.condition, value, field);
-          } catch (error) {
-            console.error('Error evaluating custom validation:', error);
-            isValid = false;
-          }
+        try {
+          const response = await validator(
+            { entity: entityName ?? '', field: field.name, value, data, recordId: context.recordId, params: rule.value },
+            context.signal
+          );
+          isValid = response.valid;
+          message = response.message ?? message;
+        } catch (error) {
+          context.signal?.throwIfAborted();
+          return this.uncheckedWarning(field, value, rule, error instanceof Error ? error.message : String(error));
         }
+        context.signal?.throwIfAborted();
         break;
+      }
+
+      default:
+        isValid = testValueRule(rule, value);
     }
 
     if (!isValid) {
       return {
         field: field.name,
-        message: rule.message,
+        message,
         code: rule.type.toUpperCase(),
         value,
-        rule
+        rule,
+        ...(rule.allowOverride ? { overridable: true } : {})
       };
     }
 
@@ -289,22 +455,35 @@ export class ValidationEngine {
   /**
    * Validate business rules (simplified)
    */
-  private async validateBusinessRules(data: Record<string, any>, definition: EntityDefinition): Promise<ValidationError[]> {
+  private async validateBusinessRules(
+    data: Record<string, any>,
+    definition: EntityDefinition,
+    context: ValidationContext
+  ): Promise<ValidationError[]> {
     const errors: ValidationError[] = [];
 
     // This is a basic implementation
     // In a full implementation, this would involve a more sophisticated rule engine
     for (const rule of definition.businessRules) {
       if (rule.trigger === 'before_save' && rule.active) {
-        // Evaluate rule conditions
-        const conditionsMet = rule.conditions.every(condition => {
-          const fieldValue = data[condition.field];
-          return this.evaluateRuleCondition(fieldValue, condition);
-        });
+        let conditionsMet: boolean;
+        try {
+          conditionsMet = evaluateConditions(rule.conditions, data, context.user);
+        } catch (error) {
+          if (error instanceof ExpressionSyntaxError) {
+            errors.push(toExpressionError(error, 'general'));
+          } else {
+            console.error(`Error evaluating business rule "${rule.name}":`, error);
+          }
+          continue;
+        }
 
         if (conditionsMet) {
           // Check if any actions are validation errors
-          const validationActions = rule.actions.filter(action => action.type === 'send_notification');
+          const validationActions = rule.actions.filter(action =>
+            action.type === 'send_notification' &&
+            (!action.condition || this.safeConditions([action.condition], data, context))
+          );
           for (const action of validationActions) {
             errors.push({
               field: action.config.field || 'general',
@@ -320,74 +499,52 @@ export class ValidationEngine {
     return errors;
   }
 
-  // Helper methods
-
-  private isEmpty(value: any): boolean {
-    return value === null || 
-           value === undefined || 
-           value === '' || 
-           (Array.isArray(value) && value.length === 0);
-  }
-
-  private isValidEmail(email: string): boolean {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
+  /**
+   * On updates, cross-record rules run when their field (or, for 'unique',
+   * a scope field) changed
+   */
+  private isAffected(rule: ValidationRule, field: FieldDefinition, context: ValidationContext): boolean {
+    if (!context.changedFields) return true;
+    return [field.name, ...(rule.scope ?? [])].some(name => context.changedFields!.includes(name));
   }
 
-  private isValidPhone(phone: string): boolean {
-    // Basic phone validation - can be enhanced based on requirements
-    const phoneRegex = /^[\+]?[1-9][\d]{0,15}$/;
-    return phoneRegex.test(phone.replace(/[\s\-\(\)]/g, ''));
+  private findDuplicate(
+    value: unknown,
+    rule: ValidationRule,
+    field: FieldDefinition,
+    data: RecordData,
+    context: ValidationContext,
+    entityName: string
+  ): boolean {
+    return context.lookup!
+      .findRecords(entityName, field.name, value, { ignoreCase: rule.ignoreCase })
+      .some(record =>
+        record.id !== context.recordId &&
+        (rule.scope ?? []).every(name => normalize(record.data[name], rule.ignoreCase) === normalize(data[name], rule.ignoreCase))
+      );
   }
 
-  private isValidURL(url: string): boolean {
-    try {
-      new URL(url);
-      return true;
-    } catch {
-      return false;
-    }
+  /**
+   * A remote check that could not run is reported as a warning
+   */
+  private uncheckedWarning(field: FieldDefinition, value: unknown, rule: ValidationRule, reason: string): ValidationError {
+    return {
+      field: field.name,
+      message: `${field.displayName} could not be checked: ${reason}`,
+      code: 'REMOTE_UNAVAILABLE',
+      value,
+      rule: { ...rule, severity: 'warning' }
+    };
   }
 
-  private isValidDateString(value: any): boolean {
-    if (typeof value !== 'string') return false;
-    const date = new Date(value);
-    return !isNaN(date.getTime());
-  }
+  // Helper methods
 
-  private evaluateCondition(condition: string, value: any, field: FieldDefinition): boolean {
-    // This is a very basic implementation
-    // In production, you'd want a safer expression evaluator
+  private safeConditions(conditions: ConditionDefinition[], data: RecordData, context: ValidationContext): boolean {
     try {
-      // Create a context object for evaluation
-      const context = { value, field: field.name };
-      
-      // For security, this should use a proper expression parser
-      // This is just a demo implementation
-      const result = eval(`(function(context) { 
-        const { value, field } = context; 
-        return ${condition}; 
-      })(${JSON.stringify(context)})`);
-      
-      return Boolean(result);
-    } catch {
+      return evaluateConditions(conditions, data, context.user);
+    } catch (error) {
+      console.error('Error evaluating rule condition:', error);
       return false;
     }
   }
-
-  private evaluateRuleCondition(value: any, condition: any): boolean {
-    switch (condition.operator) {
-      case 'eq': return value === condition.value;
-      case 'ne': return value !== condition.value;
-      case 'gt': return value > condition.value;
-      case 'gte': return value >= condition.value;
-      case 'lt': return value < condition.value;
-      case 'lte': return value <= condition.value;
-      case 'in': return Array.isArray(condition.value) && condition.value.includes(value);
-      case 'contains': return String(value).includes(String(condition.value));
-      case 'is_null': return value == null;
-      case 'is_not_null': return value != null;
-      default: return true;
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,188 @@
+// Approval Workflows for Entity Engine
+//
+// A workflow moves a record through named states by transitions that are
+// limited to roles and guarded by expressions. The record carries its
+// workflow state, including any update held back until approval, so it is
+// persisted and audited like the rest of the record.
+
+import type {
+  RecordData,
+  RecordWorkflowState,
+  UserContext,
+  WorkflowDefinition,
+  WorkflowStateDefinition,
+  WorkflowTransitionDefinition
+} from '../../types/entity';
+import { compileExpression, createRecordScope } from './expression';
+import type { ExpressionScope } from './expression';
+import { createConditionScope } from './conditions';
+import { ConfigurationError, NotFoundError } from './errors';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function isFinalState(state: WorkflowStateDefinition | undefined): boolean {
+  return !!state?.outcome;
+}
+
+/**
+ * Scope for `startWhen`: the updated data, with `previous.*` reading the
+ * data before the update (wildcards included)
+ */
+function createGateScope(previous: RecordData, next: RecordData, user?: UserContext): ExpressionScope {
+  const current = createConditionScope(next, user);
+  const before = createRecordScope(previous);
+  return name => name.startsWith('previous.') ? before(name.slice('previous.'.length)) : current(name);
+}
+
+/**
+ * Registered workflows and the rules for moving between their states
+ */
+export class WorkflowRegistry {
+  private workflows: Map<string, WorkflowDefinition> = new Map();
+
+  /**
+   * Add or replace a workflow. Throws if it references unknown states or
+   * its expressions do not parse.
+   */
+  register(workflow: WorkflowDefinition): void {
+    const states = new Set(workflow.states.map(state => state.name));
+    const check = (name: string, where: string) => {
+      if (!states.has(name)) {
+        throw new ConfigurationError(`Workflow "${workflow.id}" ${where} refers to unknown state "${name}"`);
+      }
+    };
+
+    check(workflow.initialState, 'initialState');
+    for (const transition of workflow.transitions) {
+      [transition.from].flat().forEach(from => check(from, `transition "${transition.name}"`));
+      check(transition.to, `transition "${transition.name}"`);
+      if (transition.guard) compileExpression(transition.guard);
+    }
+    for (const state of workflow.states) {
+      if (state.sla?.transition && !workflow.transitions.some(t => t.name === state.sla!.transition)) {
+        throw new ConfigurationError(`Workflow "${workflow.id}" state "${state.name}" escalates through unknown transition "${state.sla.transition}"`);
+      }
+    }
+    if (workflow.startWhen) compileExpression(workflow.startWhen);
+
+    this.workflows.set(workflow.id, workflow);
+  }
+
+  get(workflowId: string): WorkflowDefinition | undefined {
+    return this.workflows.get(workflowId);
+  }
+
+  require(workflowId: string): WorkflowDefinition {
+    const workflow = this.workflows.get(workflowId);
+    if (!workflow) {
+      throw new NotFoundError(`Workflow "${workflowId}" not found`, { resource: 'workflow', id: workflowId });
+    }
+    return workflow;
+  }
+
+  forEntity(entityName: string): WorkflowDefinition[] {
+    return Array.from(this.workflows.values()).filter(workflow => workflow.entity === entityName);
+  }
+
+  getState(workflow: WorkflowDefinition, name: string): WorkflowStateDefinition | undefined {
+    return workflow.states.find(state => state.name === name);
+  }
+
+  /**
+   * The first workflow whose `startWhen` matches an update, if any
+   */
+  findGate(entityName: string, previous: RecordData, next: RecordData, user?: UserContext): WorkflowDefinition | undefined {
+    const scope = createGateScope(previous, next, user);
+    return this.forEntity(entityName).find(workflow => {
+      if (!workflow.startWhen) return false;
+      try {
+        return Boolean(compileExpression(workflow.startWhen).evaluate(scope));
+      } catch (error) {
+        console.error(`Error evaluating startWhen of workflow "${workflow.id}":`, error);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Workflow state on entering a state, carrying over history and held changes
+   */
+  enter(
+    workflow: WorkflowDefinition,
+    stateName: string,
+    previous: RecordWorkflowState | undefined,
+    entry: { transition?: string; userId?: string; comment?: string },
+    now: Date = new Date()
+  ): RecordWorkflowState {
+    const state = this.getState(workflow, stateName)!;
+    const starting = !previous || previous.workflowId !== workflow.id || isFinalState(this.getState(workflow, previous.state));
+
+    return {
+      workflowId: workflow.id,
+      state: stateName,
+      enteredAt: now,
+      dueAt: state.sla ? new Date(now.getTime() + state.sla.hours * HOUR_MS) : undefined,
+      startedBy: starting ? entry.userId : previous!.startedBy,
+      pendingChanges: starting ? undefined : previous!.pendingChanges,
+      history: [
+        ...(starting ? [] : previous!.history),
+        { from: starting ? undefined : previous!.state, to: stateName, ...entry, timestamp: now }
+      ]
+    };
+  }
+
+  /**
+   * Roles that act on a record in its current state
+   */
+  getAssigneeRoles(workflow: WorkflowDefinition, current: RecordWorkflowState): string[] {
+    const state = this.getState(workflow, current.state);
+    return [...(state?.assigneeRoles ?? []), ...(current.escalated ? state?.sla?.escalateTo ?? [] : [])];
+  }
+
+  /**
+   * Why the user may not take a transition now, or null if they may.
+   * `ignoreRoles` is for transitions the system takes, such as SLA escalations.
+   */
+  checkTransition(
+    workflow: WorkflowDefinition,
+    current: RecordWorkflowState,
+    transition: WorkflowTransitionDefinition,
+    data: RecordData,
+    user: UserContext | undefined,
+    ignoreRoles: boolean = false
+  ): string | null {
+    if (![transition.from].flat().includes(current.state)) {
+      return `not available from state "${current.state}"`;
+    }
+
+    const roles = transition.roles ?? this.getAssigneeRoles(workflow, current);
+    if (!ignoreRoles && roles.length > 0 && !roles.some(role => user?.roles.includes(role))) {
+      return `requires one of the roles: ${roles.join(', ')}`;
+    }
+
+    if (transition.guard) {
+      const scope = createConditionScope({ ...data, ...current.pendingChanges }, user);
+      try {
+        if (!compileExpression(transition.guard).evaluate(scope)) {
+          return `guard "${transition.guard}" is not met`;
+        }
+      } catch (error) {
+        return `guard failed: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Transitions the user may take from the record's current state
+   */
+  getAvailableTransitions(
+    workflow: WorkflowDefinition,
+    current: RecordWorkflowState,
+    data: RecordData,
+    user: UserContext | undefined
+  ): WorkflowTransitionDefinition[] {
+    return workflow.transitions.filter(transition => this.checkTransition(workflow, current, transition, data, user) === null);
+  }
+}
@@ -0,0 +1,271 @@
+// Excel (XLSX) Import/Export for Entity Engine
+//
+// Writes entities and tables as worksheets whose cells keep their types,
+// with currency, percentage and date number formats taken from each field's
+// type and DisplayOptions. Columns that share a `group` get a merged header
+// cell above their own, and leading frozen columns become frozen panes.
+// Reading maps each worksheet to an entity and converts cells the way CSV
+// import does. exceljs is large, so load this module with `import()`.
+
+import ExcelJS from 'exceljs';
+import type { CellValue, Workbook, Worksheet } from 'exceljs';
+import type { EntityDefinition, EntityRecord, FieldDefinition, ImportSourceRow } from '../../types/entity';
+import { formatCsvValue, mapCsvHeaders } from './csv';
+import type { CsvRecordRow } from './csv';
+import { mapImportRows, toImportSource } from './importer';
+
+export interface XlsxColumn {
+  key: string;
+  header: string;
+  /** Header shared with neighbouring columns of the same group */
+  group?: string;
+  /** Type and display options that decide the cell type and number format */
+  field?: Pick<FieldDefinition, 'type' | 'displayOptions'>;
+  /** In pixels, as in DisplayOptions */
+  width?: number;
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: Array<Record<string, unknown>>;
+  /** Leading columns that stay in view when scrolling sideways */
+  frozenColumns?: number;
+}
+
+export interface XlsxReadOptions {
+  /**
+   * Entity for a sheet, by sheet name. Other sheets are matched to an
+   * entity by name or display name, and skipped when none matches.
+   */
+  sheets?: Record<string, string>;
+}
+
+export interface XlsxSheetRows {
+  name: string;
+  rows: ImportSourceRow[]; // Non-empty rows; `line` is the worksheet row number
+}
+
+export interface XlsxSheetImport {
+  sheet: string;
+  entity: string;
+  rows: CsvRecordRow[]; // `line` is the worksheet row number
+  unmappedHeaders: string[];
+}
+
+// DisplayOptions.format names; anything else is used as an Excel number format
+const FORMAT_NAMES = ['currency', 'percentage', 'percent', 'number', 'date', 'datetime'];
+const NUMBER_TYPES = ['number', 'currency', 'percentage'];
+const DATE_TYPES = ['date', 'datetime'];
+
+const decimals = (count: number) => count > 0 ? `.${'0'.repeat(count)}` : '';
+
+/**
+ * Excel number format for a field. Percentages are stored as whole
+ * percents (45 for 45%), so the format appends a sign instead of scaling.
+ */
+export function getNumberFormat(field: Pick<FieldDefinition, 'type' | 'displayOptions'>): string | undefined {
+  const { format, precision } = field.displayOptions;
+  const kind = format && FORMAT_NAMES.includes(format) ? format : field.type;
+
+  switch (kind) {
+    case 'currency':
+      return `"$"#,##0${decimals(precision ?? 2)}`;
+    case 'percentage':
+    case 'percent':
+      return `0${decimals(precision ?? 0)}"%"`;
+    case 'number':
+      return precision !== undefined ? `#,##0${decimals(precision)}` : undefined;
+    case 'date':
+      return 'yyyy-mm-dd';
+    case 'datetime':
+      return 'yyyy-mm-dd hh:mm';
+  }
+
+  const numeric = NUMBER_TYPES.includes(field.type) || DATE_TYPES.includes(field.type);
+  return numeric && format ? format : undefined;
+}
+
+function toCellValue(column: XlsxColumn, value: unknown): CellValue {
+  if (value === null || value === undefined || value === '') return null;
+  const field = column.field;
+
+  if (field && DATE_TYPES.includes(field.type) && typeof value === 'string') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  if (field && NUMBER_TYPES.includes(field.type) && typeof value === 'string' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (value instanceof Date || typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') {
+    return value;
+  }
+  return field ? formatCsvValue({ ...field, name: column.key, displayName: column.header } as FieldDefinition, value) : String(value);
+}
+
+// Sheet names are at most 31 characters, without : \ / ? * [ ]
+function sheetName(name: string, taken: Set<string>): string {
+  const base = name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let candidate = base;
+  for (let counter = 2; taken.has(candidate.toLowerCase()); counter++) {
+    candidate = `${base.slice(0, 31 - String(counter).length - 1)} ${counter}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function addSheet(workbook: Workbook, sheet: XlsxSheet, name: string): void {
+  const worksheet = workbook.addWorksheet(name);
+  const grouped = sheet.columns.some(column => column.group);
+  const headerRows = grouped ? 2 : 1;
+
+  worksheet.columns = sheet.columns.map(column => ({
+    key: column.key,
+    // Excel widths are in characters, roughly 7 pixels each
+    width: column.width ? Math.round(column.width / 7) : Math.max(10, column.header.length + 2)
+  }));
+
+  // Group headers span their columns; ungrouped headers span both rows
+  sheet.columns.forEach((column, index) => {
+    const col = index + 1;
+    if (!grouped) {
+      worksheet.getCell(1, col).value = column.header;
+      return;
+    }
+    worksheet.getCell(2, col).value = column.header;
+    if (!column.group) {
+      worksheet.getCell(1, col).value = column.header;
+      worksheet.mergeCells(1, col, 2, col);
+    } else if (sheet.columns[index - 1]?.group !== column.group) {
+      let end = index;
+      while (sheet.columns[end + 1]?.group === column.group) end++;
+      worksheet.getCell(1, col).value = column.group;
+      if (end > index) worksheet.mergeCells(1, col, 1, end + 1);
+    }
+  });
+
+  for (let row = 1; row <= headerRows; row++) {
+    worksheet.getRow(row).eachCell(cell => {
+      cell.font = { bold: true };
+      cell.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true };
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFF3F4F6' } };
+    });
+  }
+
+  const formats = sheet.columns.map(column => column.field && getNumberFormat(column.field));
+  sheet.rows.forEach((row, rowIndex) => {
+    const excelRow = worksheet.getRow(headerRows + rowIndex + 1);
+    sheet.columns.forEach((column, index) => {
+      const cell = excelRow.getCell(index + 1);
+      cell.value = toCellValue(column, row[column.key]);
+      if (formats[index]) cell.numFmt = formats[index]!;
+    });
+  });
+
+  worksheet.views = [{ state: 'frozen', xSplit: sheet.frozenColumns ?? 0, ySplit: headerRows }];
+  if (sheet.columns.length > 0) {
+    worksheet.autoFilter = { from: { row: headerRows, column: 1 }, to: { row: headerRows, column: sheet.columns.length } };
+  }
+}
+
+/**
+ * An .xlsx file with one worksheet per sheet
+ */
+export async function writeWorkbook(sheets: XlsxSheet[]): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const taken = new Set<string>();
+  sheets.forEach(sheet => addSheet(workbook, sheet, sheetName(sheet.name, taken)));
+  return workbook.xlsx.writeBuffer();
+}
+
+/**
+ * A worksheet for an entity's records, headed by field display names
+ */
+export function getEntitySheet(definition: EntityDefinition, records: EntityRecord[]): XlsxSheet {
+  return {
+    name: definition.displayName,
+    columns: definition.fields.map(field => ({
+      key: field.name,
+      header: field.displayName,
+      field,
+      width: field.displayOptions.width
+    })),
+    rows: records.map(record => record.data)
+  };
+}
+
+function plainValue(value: CellValue): unknown {
+  if (value === null || value === undefined || value instanceof Date || typeof value !== 'object') return value ?? undefined;
+  if ('result' in value) return plainValue(value.result as CellValue);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return value.text;
+  // Error cells such as #N/A
+  return undefined;
+}
+
+const rowValues = (worksheet: Worksheet, row: number, columns: number) =>
+  Array.from({ length: columns }, (_, index) => plainValue(worksheet.getCell(row, index + 1).value));
+
+function findDefinition(name: string, definitions: EntityDefinition[], options: XlsxReadOptions): EntityDefinition | undefined {
+  const normalize = (text: string) => text.trim().toLowerCase();
+  const mapped = options.sheets?.[name];
+  if (mapped) return definitions.find(definition => definition.name === mapped);
+  return definitions.find(definition =>
+    normalize(definition.name) === normalize(name) || normalize(definition.displayName) === normalize(name)
+  );
+}
+
+/**
+ * The non-empty rows of every worksheet, with cells as plain values
+ */
+export async function readSheetRows(data: ArrayBuffer): Promise<XlsxSheetRows[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+  const sheets: XlsxSheetRows[] = [];
+
+  workbook.eachSheet(worksheet => {
+    const rows: ImportSourceRow[] = [];
+    for (let line = 1; line <= worksheet.rowCount; line++) {
+      const values = rowValues(worksheet, line, worksheet.columnCount);
+      if (values.some(value => value !== undefined && value !== '')) {
+        rows.push({ line, values });
+      }
+    }
+    sheets.push({ name: worksheet.name, rows });
+  });
+
+  return sheets;
+}
+
+/**
+ * Record data from each worksheet of an .xlsx file that maps to an entity.
+ * The header row is whichever of the first two rows names more fields, so
+ * files with a group header row read back too.
+ */
+export async function readWorkbook(
+  data: ArrayBuffer,
+  definitions: EntityDefinition[],
+  options: XlsxReadOptions = {}
+): Promise<XlsxSheetImport[]> {
+  const sheets = await readSheetRows(data);
+
+  return sheets.flatMap(sheet => {
+    const definition = findDefinition(sheet.name, definitions, options);
+    if (!definition || sheet.rows.length === 0) return [];
+
+    const source = toImportSource(definition, sheet.name, sheet.rows);
+    const fields = mapCsvHeaders(definition, source.headers);
+    const rows = mapImportRows(definition, source, fields.map(field => field?.name ?? null)).map(row => ({
+      ...row,
+      errors: row.errors.map(error => ({ ...error, message: `${sheet.name} row ${row.line}: ${error.message}` }))
+    }));
+
+    return [{
+      sheet: sheet.name,
+      entity: definition.name,
+      rows,
+      unmappedHeaders: source.headers.filter((text, index) => text && !fields[index])
+    }];
+  });
+}
@@ -0,0 +1,135 @@
+// Platform Errors
+//
+// Failures the entity engine and data adapters raise on purpose extend
+// PlatformError. `kind` tells the UI how to present one and `retryable`
+// whether trying the same thing again could succeed. `toPlatformError`
+// classifies anything else, such as failed fetches and timeouts.
+
+export type ErrorKind =
+  | 'not_found'
+  | 'validation'
+  | 'permission'
+  | 'conflict'
+  | 'adapter'
+  | 'network'
+  | 'internal';
+
+export class PlatformError extends Error {
+  public kind: ErrorKind;
+  public retryable: boolean;
+
+  constructor(kind: ErrorKind, message: string, options: { retryable?: boolean; cause?: unknown } = {}) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
+    this.name = 'PlatformError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/**
+ * Thrown when an entity, record, field or other named thing does not exist
+ */
+export class NotFoundError extends PlatformError {
+  public resource: string; // e.g. 'entity', 'record', 'workflow'
+  public id: string;
+  public entity?: string;
+
+  constructor(message: string, details: { resource: string; id: string; entity?: string }) {
+    super('not_found', message);
+    this.name = 'NotFoundError';
+    this.resource = details.resource;
+    this.id = details.id;
+    this.entity = details.entity;
+  }
+}
+
+export interface AdapterErrorOptions {
+  adapter?: string;
+  status?: number;
+  statusText?: string;
+  code?: string;
+  details?: unknown;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Thrown when a data adapter's service rejects or cannot serve a request
+ */
+export class AdapterError extends PlatformError {
+  public adapter?: string;
+  public status?: number;
+  public statusText?: string;
+  public code?: string;
+  public details?: unknown;
+
+  constructor(message: string, options: AdapterErrorOptions = {}, kind: ErrorKind = 'adapter') {
+    super(kind, message, { retryable: options.retryable, cause: options.cause });
+    this.name = 'AdapterError';
+    this.adapter = options.adapter;
+    this.status = options.status;
+    this.statusText = options.statusText;
+    this.code = options.code;
+    this.details = options.details;
+  }
+}
+
+/**
+ * Thrown when a request never got an answer: offline, DNS, CORS or timeout.
+ * Retryable unless stated otherwise.
+ */
+export class NetworkError extends AdapterError {
+  constructor(message: string, options: AdapterErrorOptions = {}) {
+    super(message, { ...options, retryable: options.retryable ?? true }, 'network');
+    this.name = 'NetworkError';
+  }
+}
+
+const kindForStatus = (status?: number): ErrorKind => {
+  switch (status) {
+    case 401:
+    case 403:
+      return 'permission';
+    case 404:
+      return 'not_found';
+    case 409:
+    case 412:
+      return 'conflict';
+    default:
+      return 'adapter';
+  }
+};
+
+/**
+ * Thrown when a service answers with an HTTP error status. 401/403, 404 and
+ * 409/412 take the matching kind; 5xx and 429 may be retried.
+ */
+export class ApiError extends AdapterError {
+  constructor(message: string, options: AdapterErrorOptions = {}) {
+    const { status } = options;
+    super(
+      message,
+      { ...options, retryable: options.retryable ?? (status !== undefined && (status >= 500 || status === 429)) },
+      kindForStatus(status)
+    );
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * The error as a PlatformError: fetch failures and timeouts become
+ * NetworkErrors, anything else unexpected is 'internal'
+ */
+export function toPlatformError(error: unknown): PlatformError {
+  if (error instanceof PlatformError) {
+    return error;
+  }
+  if (error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'NetworkError')) {
+    return new NetworkError(error.name === 'TimeoutError' ? 'The request timed out' : error.message, { cause: error });
+  }
+  // fetch rejects with a TypeError when the request cannot be sent
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+    return new NetworkError(error.message, { cause: error });
+  }
+  return new PlatformError('internal', error instanceof Error ? error.message : String(error), { cause: error });
+}
@@ -0,0 +1,6 @@
+import type { EntityDefinition } from '../types/entity'
+import { gitaStudentEntity } from './gita/entity'
+import { volunteerEntity } from './volunteers/entity'
+
+// Definitions that get generated record interfaces (npm run codegen)
+export const entityDefinitions: EntityDefinition[] = [volunteerEntity, gitaStudentEntity]
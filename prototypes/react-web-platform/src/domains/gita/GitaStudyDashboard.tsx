@@ -4,50 +4,23 @@ import type { Column, BulkAction } from '../../components/behaviors/DataTable'
 import { Badge } from '../../components/ui/Badge'
 import { Button } from '../../components/ui/Button'
 import { Mail, BookOpen, Download } from 'lucide-react'
+import type { GitaStudentRecord } from '../../types/entities.generated'
+import { GURUKULAMS, gitaStudentEntity } from './entity'
 
-// Bhagavad Gita Student Progress Data Structure  
-interface GitaStudent extends Record<string, unknown> {
+// Bhagavad Gita Student Progress Data Structure (fields from gitaStudentEntity)
+interface GitaStudent extends Record<string, unknown>, GitaStudentRecord {
   id: string
-  name: string
-  email: string
-  gurukulam: string
-  studyLevel: 'Beginner' | 'Intermediate' | 'Advanced' | 'Scholar'
-  overallGrade: number
-  letterGrade: 'A+' | 'A' | 'B+' | 'B' | 'C+' | 'C' | 'D' | 'F'
-  practiceDays: number
-  maxPracticeDays: number
-  consecutiveDays: number
-  
-  // Chapter scores (simplified - first 3 chapters for testing)
-  ch1_pronunciation: number
-  ch1_memorization: number
-  ch1_fluency: number
-  ch1_chanting: number
-  
-  ch2_pronunciation: number
-  ch2_memorization: number
-  ch2_fluency: number
-  ch2_chanting: number
-  
-  ch3_pronunciation: number
-  ch3_memorization: number
-  ch3_fluency: number
-  ch3_chanting: number
-  
-  versesMemorized: number
-  perfectRecitations: number
-  tuneAccuracy: number
-  teacherComments: string
-  status: 'Active' | 'Paused' | 'Completed' | 'Dropped'
 }
 
+// Type and format of a column's cells in Excel exports
+const fieldOf = (name: string) => gitaStudentEntity.fields.find(field => field.name === name)
+
 // Generate sample data (simplified)
 const generateGitaStudents = (): GitaStudent[] => {
   const names = [
     'Arjun Sharma', 'Krishna Patel', 'Radha Singh', 'Govind Kumar', 'Rukmini Devi'
   ]
   
-  const gurukulams = ['Vrindavan Ashram', 'Haridwar Gurukul', 'Rishikesh Vidyapeeth']
   const levels: GitaStudent['studyLevel'][] = ['Beginner', 'Intermediate', 'Advanced', 'Scholar']
   const statuses: GitaStudent['status'][] = ['Active', 'Paused', 'Completed']
   
@@ -66,7 +39,7 @@ const generateGitaStudents = (): GitaStudent[] => {
       id: `student-${index + 1}`,
       name,
       email: `${name.toLowerCase().replace(' ', '.')}@email.com`,
-      gurukulam: gurukulams[index % gurukulams.length],
+      gurukulam: GURUKULAMS[index % GURUKULAMS.length],
       studyLevel: level,
       overallGrade,
       letterGrade: letterGrade as GitaStudent['letterGrade'],
@@ -171,6 +144,7 @@ export function GitaStudyDashboard() {
     },
     {
       key: 'overallGrade',
+      field: fieldOf('overallGrade'),
       label: 'Overall Grade',
       align: 'center',
       sortable: true,
@@ -210,6 +184,7 @@ export function GitaStudyDashboard() {
     // Chapter 1 - Multi-level headers
     {
       key: 'ch1_pronunciation',
+      field: fieldOf('ch1_pronunciation'),
       label: 'Pronunciation',
       groupHeader: 'Chapter 1 - Arjuna Vishada Yoga',
       align: 'center',
@@ -228,6 +203,7 @@ export function GitaStudyDashboard() {
     },
     {
       key: 'ch1_memorization',
+      field: fieldOf('ch1_memorization'),
       label: 'Memorization',
       groupHeader: 'Chapter 1 - Arjuna Vishada Yoga',
       align: 'center',
@@ -246,6 +222,7 @@ export function GitaStudyDashboard() {
     },
     {
       key: 'ch1_fluency',
+      field: fieldOf('ch1_fluency'),
       label: 'Fluency',
       groupHeader: 'Chapter 1 - Arjuna Vishada Yoga', 
       align: 'center',
@@ -264,6 +241,7 @@ export function GitaStudyDashboard() {
     },
     {
       key: 'ch1_chanting',
+      field: fieldOf('ch1_chanting'),
       label: 'Chanting',
       groupHeader: 'Chapter 1 - Arjuna Vishada Yoga',
       align: 'center', 
@@ -402,7 +380,8 @@ export function GitaStudyDashboard() {
         }}
         export={{ 
           enabled: true, 
-          filename: "gita-study-progress" 
+          filename: "gita-study-progress",
+          formats: ['csv', 'xlsx', 'pdf']
         }}
         
         // Column controls
@@ -0,0 +1,46 @@
+import type { EntityDefinition, FieldDefinition, FieldType, SelectOption, ValidationRule } from '../../types/entity'
+
+export const GURUKULAMS = ['Vrindavan Ashram', 'Haridwar Gurukul', 'Rishikesh Vidyapeeth']
+
+export const CHAPTER_SKILLS = ['pronunciation', 'memorization', 'fluency', 'chanting'] as const
+
+const options = (values: string[]): SelectOption[] => values.map(value => ({ value, label: value }))
+
+const percent: ValidationRule = { type: 'range', value: [0, 100], message: 'Must be between 0 and 100' }
+const asPercent: FieldDefinition['displayOptions'] = { format: 'percentage' }
+
+const field = (
+  name: string,
+  type: FieldType,
+  displayName: string,
+  validation: ValidationRule[] = [],
+  displayOptions: FieldDefinition['displayOptions'] = {}
+): FieldDefinition => ({ name, type, displayName, required: true, validation, displayOptions })
+
+export const gitaStudentEntity: EntityDefinition = {
+  name: 'gita_student',
+  displayName: 'Gita Student',
+  fields: [
+    field('name', 'text', 'Student Name'),
+    field('email', 'email', 'Email', [{ type: 'unique', ignoreCase: true, message: 'Another student already uses this email' }]),
+    field('gurukulam', 'text', 'Gurukulam', [{ type: 'exists_in', value: GURUKULAMS, message: 'Unknown gurukulam' }]),
+    field('studyLevel', 'select', 'Study Level', [], { options: options(['Beginner', 'Intermediate', 'Advanced', 'Scholar']) }),
+    field('overallGrade', 'number', 'Overall Grade', [percent], asPercent),
+    field('letterGrade', 'select', 'Letter Grade', [], { options: options(['A+', 'A', 'B+', 'B', 'C+', 'C', 'D', 'F']) }),
+    field('practiceDays', 'number', 'Practice Days'),
+    field('maxPracticeDays', 'number', 'Max Practice Days'),
+    field('consecutiveDays', 'number', 'Consecutive Days'),
+    // Chapter scores (simplified - first 3 chapters for testing)
+    ...[1, 2, 3].flatMap(chapter => CHAPTER_SKILLS.map(skill =>
+      field(`ch${chapter}_${skill}`, 'number', `Chapter ${chapter} ${skill[0].toUpperCase()}${skill.slice(1)}`, [percent], asPercent)
+    )),
+    field('versesMemorized', 'number', 'Verses Memorized'),
+    field('perfectRecitations', 'number', 'Perfect Recitations'),
+    field('tuneAccuracy', 'number', 'Tune Accuracy', [percent], asPercent),
+    field('teacherComments', 'richtext', 'Teacher Comments'),
+    field('status', 'select', 'Status', [], { options: options(['Active', 'Paused', 'Completed', 'Dropped']) })
+  ],
+  relationships: [],
+  businessRules: [],
+  permissions: []
+}
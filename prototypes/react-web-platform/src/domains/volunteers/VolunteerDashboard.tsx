@@ -1,46 +1,90 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
 import { DataTable } from '../../components/behaviors/DataTable'
 import type { Column, BulkAction } from '../../components/behaviors/DataTable'
 import { Button } from '../../components/ui/Button'
 import { Badge } from '../../components/ui/Badge'
+import { Modal } from '../../components/ui/Modal'
+import { ApprovalsInbox } from '../../components/behaviors/ApprovalsInbox'
+import { ImportWizard } from '../../components/behaviors/ImportWizard'
 import { UnifiedInlineEditor } from '../../components/behaviors/UnifiedInlineEditor'
+import { computeFormulaFields } from '../../core/entity/formulas'
+import type { ApprovalItem, EntityDefinition, FieldDefinition, ImportReport } from '../../types/entity'
+import type { VolunteerRecord } from '../../types/entities.generated'
+import { COORDINATOR_USER, ISSUING_USER, createVolunteerEngine } from './approvals'
+import { TSHIRT_SIZES, volunteerEntity } from './entity'
 
-interface Volunteer extends Record<string, unknown> {
+// Name, email and T-shirt inventory (SGS pattern) come from volunteerEntity
+interface Volunteer extends Record<string, unknown>, VolunteerRecord {
   id: number
-  name: string
-  email: string
   role: string
   status: 'active' | 'inactive' | 'pending'
   
-  // T-shirt inventory tracking (SGS pattern)
-  tshirt_s_max: number
-  tshirt_s_issued: number
-  tshirt_m_max: number
-  tshirt_m_issued: number
-  tshirt_l_max: number
-  tshirt_l_issued: number
-  tshirt_xl_max: number
-  tshirt_xl_issued: number
-  tshirt_xxl_max: number
-  tshirt_xxl_issued: number
-  
   // Calculated fields for display
   preferences: string
+  tshirt_total_max?: number
+  tshirt_total_issued?: number
   
   // Event participation
   events_assigned: number
   hours_logged: number
 }
 
+const formulaField = (name: string, displayName: string, formula: string): FieldDefinition => ({
+  name,
+  type: 'formula',
+  displayName,
+  required: false,
+  validation: [],
+  displayOptions: {},
+  formula
+})
+
+// Totals are formula fields so they stay in sync with every inline edit
+const volunteerFormulas: Pick<EntityDefinition, 'name' | 'fields'> = {
+  name: 'volunteer',
+  fields: [
+    formulaField('tshirt_total_max', 'Total T-Shirts (Max)', 'SUM(tshirt_*_max)'),
+    formulaField('tshirt_total_issued', 'Total T-Shirts (Issued)', 'SUM(tshirt_*_issued)')
+  ]
+}
+
+// Distribution sheets print each size as issued/allowance, totalled per page
+const sumOf = (items: Volunteer[], key: string) => items.reduce((sum, volunteer) => sum + (Number(volunteer[key]) || 0), 0)
+const printIssued = (size: string) => (volunteer: Volunteer) =>
+  `${volunteer[`tshirt_${size}_issued`]}/${volunteer[`tshirt_${size}_max`]}`
+const totalIssued = (issuedKey: string, maxKey: string) => (items: Volunteer[]) =>
+  `${sumOf(items, issuedKey)}/${sumOf(items, maxKey)}`
+
 export function VolunteerDashboard() {
   console.log('VolunteerDashboard: Component starting to render')
   const [loading, setLoading] = useState(false)
   const [volunteers, setVolunteers] = useState<Volunteer[]>([])
+  const rows = useMemo(
+    () => volunteers.map(volunteer => computeFormulaFields(volunteer, volunteerFormulas)),
+    [volunteers]
+  )
+
+  // T-shirt quantities go through the entity engine so over-allowance issues wait for approval
+  const engine = useMemo(createVolunteerEngine, [])
+  const recordIds = useRef(new Map<number, string>())
+  const [approvals, setApprovals] = useState<ApprovalItem[]>([])
+  const [showApprovals, setShowApprovals] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const refreshApprovals = useCallback(() => setApprovals(engine.getApprovalsInbox(COORDINATOR_USER)), [engine])
+
+  useEffect(() => {
+    return engine.on('record:updated', ({ data: { current } }) => {
+      setVolunteers(prev =>
+        prev.map(volunteer => recordIds.current.get(volunteer.id) === current.id ? { ...volunteer, ...current.data } : volunteer)
+      )
+      refreshApprovals()
+    })
+  }, [engine, refreshApprovals])
 
   // Mock data with SGS T-shirt patterns
   useEffect(() => {
     setLoading(true)
-    setTimeout(() => {
+    const timer = setTimeout(() => {
       const mockVolunteers: Volunteer[] = [
         {
           id: 1,
@@ -195,24 +239,56 @@ export function VolunteerDashboard() {
       ]
       setVolunteers(mockVolunteers)
       setLoading(false)
+      Promise.all(mockVolunteers.map(volunteer => {
+        const data = Object.fromEntries(
+          ['name', 'email', ...TSHIRT_SIZES.flatMap(size => [`tshirt_${size}_max`, `tshirt_${size}_issued`])].map(key => [key, volunteer[key]])
+        )
+        return engine.create('volunteer', data).then(record => recordIds.current.set(volunteer.id, record.id))
+      })).catch(error => console.error('Failed to load volunteers into the engine:', error))
     }, 800)
-  }, [])
+    return () => clearTimeout(timer)
+  }, [engine])
+
+  // Imported volunteers join the table; updated ones arrive through 'record:updated'
+  const handleImportComplete = (report: ImportReport) => {
+    let nextId = Math.max(0, ...volunteers.map(volunteer => volunteer.id))
+    const imported = report.rows
+      .filter(row => row.status === 'success' && row.action === 'insert' && row.id)
+      .map(row => {
+        const id = ++nextId
+        recordIds.current.set(id, row.id!)
+        return {
+          role: 'Volunteer',
+          status: 'pending',
+          preferences: '',
+          events_assigned: 0,
+          hours_logged: 0,
+          ...row.data,
+          id
+        } as Volunteer
+      })
+    setVolunteers(prev => [...prev, ...imported])
+  }
 
   const handleQuantityChange = async (volunteerId: number, field: keyof Volunteer, newValue: number) => {
-    // Simulate API call with delay
-    await new Promise(resolve => setTimeout(resolve, 200))
-    
-    setVolunteers(prev => 
-      prev.map(volunteer => 
-        volunteer.id === volunteerId 
-          ? { ...volunteer, [field]: newValue }
-          : volunteer
-      )
-    )
+    const recordId = recordIds.current.get(volunteerId)
+    if (!recordId) return
+
+    const record = await engine.update('volunteer', recordId, { [field]: newValue }, { user: ISSUING_USER })
+    if (record.workflow?.pendingChanges && field in record.workflow.pendingChanges) {
+      alert('This is over the volunteer\'s allowance and has been sent to a coordinator for approval')
+    }
   }
 
   const handleCellEdit = async (volunteer: Volunteer, column: Column<Volunteer>, newValue: unknown) => {
     const field = column.key as keyof Volunteer
+    if (String(field).startsWith('tshirt_')) {
+      return handleQuantityChange(volunteer.id, field, Number(newValue))
+    }
+    const recordId = recordIds.current.get(volunteer.id)
+    if (field === 'email' && recordId) {
+      await engine.update('volunteer', recordId, { email: newValue }, { user: ISSUING_USER })
+    }
     
     // Update volunteer data with proper type handling
     setVolunteers(prev => 
@@ -224,22 +300,14 @@ export function VolunteerDashboard() {
     )
   }
 
-  const validateTShirtQuantity = (volunteer: Volunteer, column: Column<Volunteer>, value: unknown): { isValid: boolean; error?: string } => {
+  const validateTShirtQuantity = (_volunteer: Volunteer, _column: Column<Volunteer>, value: unknown): { isValid: boolean; error?: string } => {
     const numValue = Number(value)
     
     if (isNaN(numValue) || numValue < 0) {
       return { isValid: false, error: 'Must be a positive number' }
     }
 
-    // Determine max value based on field type
-    if (String(column.key).includes('_issued')) {
-      const sizeKey = String(column.key).replace('_issued', '_max') as keyof Volunteer
-      const maxValue = volunteer[sizeKey] as number
-      
-      if (numValue > maxValue) {
-        return { isValid: false, error: `Cannot exceed maximum of ${maxValue}` }
-      }
-    }
+    // Quantities above the size's max are allowed; the engine holds them for coordinator approval
 
     return { isValid: true }
   }
@@ -256,7 +324,6 @@ export function VolunteerDashboard() {
       <UnifiedInlineEditor
           value={issuedNum}
           type="quantity"
-          max={max}
           min={0}
           showControls={showControls}
           controlsPosition="between"
@@ -266,12 +333,12 @@ export function VolunteerDashboard() {
             await handleQuantityChange(volunteer.id as number, issuedKey, newValue as number)
           }}
           onIncrement={async () => {
-            await handleQuantityChange(volunteer.id as number, issuedKey, Math.min(max, issuedNum + 1))
+            await handleQuantityChange(volunteer.id as number, issuedKey, issuedNum + 1)
           }}
           onDecrement={async () => {
             await handleQuantityChange(volunteer.id as number, issuedKey, Math.max(0, issuedNum - 1))
           }}
-          className="text-lg font-bold font-mono"
+          className={`text-lg font-bold font-mono ${issuedNum > max ? 'text-amber-600' : ''}`}
         />
     )
   }
@@ -326,6 +393,32 @@ export function VolunteerDashboard() {
         </Badge>
       )
     },
+    {
+      key: 'email',
+      label: 'Email',
+      sortable: true,
+      searchable: true,
+      resizable: true,
+      width: 180,
+      minWidth: 140,
+      editable: {
+        enabled: true,
+        type: 'text',
+        maxLength: 254,
+        // Emails are unique across volunteers
+        onValidateAsync: async (value, volunteer, signal) => {
+          const result = await engine.validateField('volunteer', 'email', String(value).trim(), {
+            recordId: recordIds.current.get(volunteer.id),
+            signal
+          })
+          return {
+            isValid: result.isValid,
+            error: [...result.errors, ...result.overridable][0]?.message,
+            warning: result.warnings[0]?.message
+          }
+        }
+      }
+    },
     {
       key: 'status',
       label: 'Status',
@@ -353,22 +446,17 @@ export function VolunteerDashboard() {
       key: 'preferences',
       label: 'PREFS',
       groupHeader: 'T-Shirt Inventory (MAX/ISSUED)',
+      total: totalIssued('tshirt_total_issued', 'tshirt_total_max'),
       align: 'center',
       resizable: true,
       width: 100,
       minWidth: 90,
       maxWidth: 120,
       render: (_, volunteer) => {
-        const totalMax = (volunteer.tshirt_s_max as number) + (volunteer.tshirt_m_max as number) + 
-                        (volunteer.tshirt_l_max as number) + (volunteer.tshirt_xl_max as number) + 
-                        (volunteer.tshirt_xxl_max as number)
-        const totalIssued = (volunteer.tshirt_s_issued as number) + (volunteer.tshirt_m_issued as number) + 
-                           (volunteer.tshirt_l_issued as number) + (volunteer.tshirt_xl_issued as number) + 
-                           (volunteer.tshirt_xxl_issued as number)
         return (
           <div className="flex items-center justify-center h-full w-full">
             <div className="text-xs font-mono font-semibold text-orange-600 dark:text-orange-400 leading-none px-2 py-1 bg-orange-50 dark:bg-orange-900/20 rounded border border-orange-200 dark:border-orange-700 shadow-sm min-w-[44px] text-center">
-              {totalIssued}/{totalMax}
+              {volunteer.tshirt_total_issued}/{volunteer.tshirt_total_max}
             </div>
           </div>
         )
@@ -380,6 +468,8 @@ export function VolunteerDashboard() {
       key: 'tshirt_s_issued',
       label: '👕 S',
       groupHeader: 'T-Shirt Inventory (MAX/ISSUED)',
+      printValue: printIssued('s'),
+      total: totalIssued('tshirt_s_issued', 'tshirt_s_max'),
       align: 'center',
       resizable: true,
       width: 90,
@@ -409,6 +499,8 @@ export function VolunteerDashboard() {
       key: 'tshirt_m_issued',
       label: '👕 M',
       groupHeader: 'T-Shirt Inventory (MAX/ISSUED)',
+      printValue: printIssued('m'),
+      total: totalIssued('tshirt_m_issued', 'tshirt_m_max'),
       align: 'center',
       resizable: true,
       width: 90,
@@ -435,6 +527,8 @@ export function VolunteerDashboard() {
       key: 'tshirt_l_issued',
       label: '👕 L',
       groupHeader: 'T-Shirt Inventory (MAX/ISSUED)',
+      printValue: printIssued('l'),
+      total: totalIssued('tshirt_l_issued', 'tshirt_l_max'),
       align: 'center',
       resizable: true,
       width: 90,
@@ -455,6 +549,8 @@ export function VolunteerDashboard() {
       key: 'tshirt_xl_issued',
       label: '👕 XL',
       groupHeader: 'T-Shirt Inventory (MAX/ISSUED)',
+      printValue: printIssued('xl'),
+      total: totalIssued('tshirt_xl_issued', 'tshirt_xl_max'),
       align: 'center',
       resizable: true,
       width: 90,
@@ -475,6 +571,8 @@ export function VolunteerDashboard() {
       key: 'tshirt_xxl_issued',
       label: '👕 2XL',
       groupHeader: 'T-Shirt Inventory (MAX/ISSUED)',
+      printValue: printIssued('xxl'),
+      total: totalIssued('tshirt_xxl_issued', 'tshirt_xxl_max'),
       align: 'center',
       resizable: true,
       width: 90,
@@ -494,6 +592,7 @@ export function VolunteerDashboard() {
     
     {
       key: 'events_assigned',
+      total: 'sum',
       label: 'Events',
       align: 'center',
       sortable: true,
@@ -509,6 +608,7 @@ export function VolunteerDashboard() {
     },
     {
       key: 'hours_logged',
+      total: 'sum',
       label: 'Hours',
       align: 'center',
       sortable: true,
@@ -581,6 +681,7 @@ export function VolunteerDashboard() {
       id: 'export-list',
       label: 'Export List',
       icon: '📤',
+      permission: 'export',
       action: (selectedVolunteers) => {
         const csv = `Name,Role,Status,Events,Hours\n${selectedVolunteers.map(v => 
           `${v.name},${v.role},${v.status},${v.events_assigned},${v.hours_logged}`
@@ -602,6 +703,7 @@ export function VolunteerDashboard() {
       label: 'Deactivate',
       icon: '🚫',
       variant: 'destructive' as const,
+      permission: 'update',
       action: (selectedVolunteers) => {
         const names = selectedVolunteers.map(v => v.name).join(', ')
         const confirmed = confirm(`Deactivate ${selectedVolunteers.length} volunteers? (${names})`)
@@ -627,23 +729,52 @@ export function VolunteerDashboard() {
             SGS-inspired patterns: Multi-level headers, +/- quantity controls, and real-time inventory tracking
           </span>
         </div>
-        <Button
-          onClick={() => window.location.reload()}
-          variant="secondary"
-          loading={loading}
-        >
-          {loading ? 'Loading...' : 'Refresh Data'}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setShowImport(true)}>
+            Import
+          </Button>
+          <Button variant="outline" onClick={() => { refreshApprovals(); setShowApprovals(true) }}>
+            Approvals{approvals.length > 0 ? ` (${approvals.length})` : ''}
+          </Button>
+          <Button
+            onClick={() => window.location.reload()}
+            variant="secondary"
+            loading={loading}
+          >
+            {loading ? 'Loading...' : 'Refresh Data'}
+          </Button>
+        </div>
       </div>
+
+      <Modal isOpen={showApprovals} onClose={() => setShowApprovals(false)} title="T-shirt approvals">
+        <ApprovalsInbox
+          items={approvals}
+          getRecordLabel={item => String(item.record.data.name)}
+          getFieldLabel={(_, field) => engine.getEntityDefinition('volunteer')?.fields.find(f => f.name === field)?.displayName ?? field}
+          onTransition={async (item, transition, comment) => {
+            await engine.transitionWorkflow('volunteer', item.record.id, transition.name, { user: COORDINATOR_USER, comment })
+          }}
+        />
+      </Modal>
+
+      <Modal isOpen={showImport} onClose={() => setShowImport(false)} title="Import volunteers" size="xl">
+        <ImportWizard
+          definition={volunteerEntity}
+          onImport={(source, options) => engine.importRecords('volunteer', source, options)}
+          onComplete={handleImportComplete}
+          onClose={() => setShowImport(false)}
+        />
+      </Modal>
       
       <DataTable
-        data={volunteers}
+        data={rows}
         columns={columns}
         loading={loading}
         emptyMessage="No volunteers found. Add volunteers to get started."
         onRowClick={(volunteer) => console.log('Selected volunteer:', volunteer)}
         onCellEdit={handleCellEdit}
         cellValidation={validateTShirtQuantity}
+        access={engine.getAccess('volunteer')}
         frozenColumns={[0, 1]} // Freeze the first two columns (name and role)
         frozenHeader={true} // Freeze the header row for scrolling
         maxHeight="calc(100vh - 300px)"
@@ -658,7 +789,9 @@ export function VolunteerDashboard() {
         }}
         export={{
           enabled: true,
-          filename: 'volunteer-tshirt-inventory'
+          filename: 'volunteer-tshirt-inventory',
+          formats: ['csv', 'xlsx', 'pdf'],
+          title: 'Volunteer T-shirt distribution sheet'
         }}
         columnControls={{
           resizable: true,
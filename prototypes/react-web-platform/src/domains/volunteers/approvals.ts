@@ -0,0 +1,37 @@
+import { EntityEngine } from '../../core/entity/engine'
+import type { UserContext, WorkflowDefinition } from '../../types/entity'
+import { TSHIRT_SIZES, volunteerEntity } from './entity'
+
+// Demo users: the desk issues shirts, coordinators approve anything over allowance
+export const ISSUING_USER: UserContext = { id: 'volunteer-desk', roles: ['volunteer_desk'] }
+export const COORDINATOR_USER: UserContext = { id: 'coordinator', roles: ['coordinator'] }
+
+// Issuing more shirts than a volunteer's allowance is held for a coordinator
+export const tshirtAllowanceWorkflow: WorkflowDefinition = {
+  id: 'tshirt-allowance',
+  entity: 'volunteer',
+  displayName: 'T-shirt allowance increase',
+  initialState: 'pending',
+  startWhen: TSHIRT_SIZES.map(size => `tshirt_${size}_issued > tshirt_${size}_max`).join(' OR '),
+  states: [
+    {
+      name: 'pending',
+      displayName: 'Awaiting coordinator',
+      assigneeRoles: ['coordinator'],
+      sla: { hours: 48, escalateTo: ['admin'] }
+    },
+    { name: 'approved', displayName: 'Approved', outcome: 'approved' },
+    { name: 'rejected', displayName: 'Rejected', outcome: 'rejected' }
+  ],
+  transitions: [
+    { name: 'approve', displayName: 'Approve', from: 'pending', to: 'approved' },
+    { name: 'reject', displayName: 'Reject', from: 'pending', to: 'rejected', requireComment: true }
+  ]
+}
+
+export function createVolunteerEngine(): EntityEngine {
+  const engine = new EntityEngine()
+  engine.registerEntity(volunteerEntity)
+  engine.registerWorkflow(tshirtAllowanceWorkflow)
+  return engine
+}
@@ -0,0 +1,35 @@
+import type { EntityDefinition, FieldDefinition } from '../../types/entity'
+
+export const TSHIRT_SIZES = ['s', 'm', 'l', 'xl', 'xxl'] as const
+
+const numberField = (name: string, displayName: string): FieldDefinition => ({
+  name,
+  type: 'number',
+  displayName,
+  required: true,
+  validation: [],
+  displayOptions: {}
+})
+
+export const volunteerEntity: EntityDefinition = {
+  name: 'volunteer',
+  displayName: 'Volunteer',
+  fields: [
+    { name: 'name', type: 'text', displayName: 'Name', required: true, validation: [], displayOptions: {} },
+    {
+      name: 'email',
+      type: 'email',
+      displayName: 'Email',
+      required: true,
+      validation: [{ type: 'unique', ignoreCase: true, message: 'Another volunteer already uses this email' }],
+      displayOptions: {}
+    },
+    ...TSHIRT_SIZES.flatMap(size => [
+      numberField(`tshirt_${size}_max`, `T-Shirt ${size.toUpperCase()} (Max)`),
+      numberField(`tshirt_${size}_issued`, `T-Shirt ${size.toUpperCase()} (Issued)`)
+    ])
+  ],
+  relationships: [],
+  businessRules: [],
+  permissions: []
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react'
+import { NetworkError } from '../../core/errors'
 
 interface OfflineStatus {
   isOnline: boolean
@@ -183,7 +184,7 @@ export function useOffline() {
     if (!status.isOnline) {
       // If offline, queue the request and throw an error
       queueFailedRequest(url, options)
-      throw new Error('Network request failed: Currently offline')
+      throw new NetworkError('Network request failed: Currently offline')
     }
 
     try {
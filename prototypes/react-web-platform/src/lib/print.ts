@@ -0,0 +1,192 @@
+// Print Reports
+//
+// Print-ready reports built as a standalone HTML document. Rows are split
+// into fixed-size pages so every page gets the title block, the column
+// headers, a footer with its page number and the page's totals; the browser's
+// print dialog turns it into paper or a PDF.
+
+import { isValidElement } from 'react'
+import type { ReactNode } from 'react'
+
+export interface PrintColumn<T> {
+  header: string
+  /** Shared header cell above consecutive columns of the same group */
+  group?: string
+  align?: 'left' | 'center' | 'right'
+  text: (item: T) => string
+  /** Summary of a page's (or the whole report's) rows, shown in the footer */
+  total?: (items: T[]) => string
+}
+
+export interface PrintReportOptions<T> {
+  title: string
+  subtitle?: string
+  columns: PrintColumn<T>[]
+  items: T[]
+  /** Rows per printed page (default 25) */
+  rowsPerPage?: number
+  orientation?: 'portrait' | 'landscape'
+}
+
+/**
+ * Text content of rendered cell content: badges and other elements become
+ * their children's text, so a `<Badge>{grade}%</Badge>` prints as "85%".
+ * Components that render from props alone (editors, icons) give ''.
+ */
+export function nodeText(node: ReactNode): string {
+  if (node === null || node === undefined || typeof node === 'boolean') return ''
+  if (typeof node === 'string' || typeof node === 'number' || typeof node === 'bigint') return String(node)
+
+  if (isValidElement(node)) {
+    return nodeText((node.props as { children?: ReactNode }).children)
+  }
+
+  if (typeof node === 'object' && Symbol.iterator in node) {
+    // Text runs join directly ("4", "/", "6"); separate elements get a space
+    let text = ''
+    let previousWasElement = false
+    for (const child of node) {
+      const childText = nodeText(child)
+      if (!childText) continue
+      const isElement = isValidElement(child)
+      text += text && (isElement || previousWasElement) ? ` ${childText}` : childText
+      previousWasElement = isElement
+    }
+    return text.replace(/\s+/g, ' ').trim()
+  }
+  return ''
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 9pt/1.35 system-ui, -apple-system, 'Segoe UI', sans-serif; color: #111827; }
+  .page { break-after: page; }
+  .page:last-child { break-after: auto; }
+  .page-header { display: flex; justify-content: space-between; align-items: flex-end; gap: 12px;
+    border-bottom: 1.5px solid #111827; padding-bottom: 4px; margin-bottom: 8px; }
+  .page-header h1 { margin: 0; font-size: 13pt; }
+  .page-header .subtitle, .page-header .meta { color: #4b5563; font-size: 8pt; }
+  table { width: 100%; border-collapse: collapse; }
+  thead { display: table-header-group; }
+  tfoot { display: table-footer-group; }
+  tr { break-inside: avoid; }
+  th, td { border: 1px solid #d1d5db; padding: 3px 5px; vertical-align: top; }
+  th { background: #f3f4f6; font-weight: 600; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  tfoot td { background: #f9fafb; font-weight: 600; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  tfoot tr.report-total td { border-top: 1.5px solid #111827; }
+  .left { text-align: left; } .center { text-align: center; } .right { text-align: right; }
+  .page-footer { display: flex; justify-content: space-between; margin-top: 6px; color: #4b5563; font-size: 8pt; }
+`
+
+function headerRows<T>(columns: PrintColumn<T>[]): string {
+  const cell = (column: PrintColumn<T>, attributes = '') =>
+    `<th class="${column.align ?? 'left'}"${attributes}>${escapeHtml(column.header)}</th>`
+
+  if (!columns.some(column => column.group)) {
+    return `<tr>${columns.map(column => cell(column)).join('')}</tr>`
+  }
+
+  // Group cells span their columns; ungrouped headers span both rows
+  let groups = ''
+  columns.forEach((column, index) => {
+    if (!column.group) {
+      groups += cell(column, ' rowspan="2"')
+    } else if (columns[index - 1]?.group !== column.group) {
+      let span = 1
+      while (columns[index + span]?.group === column.group) span++
+      groups += `<th class="center" colspan="${span}">${escapeHtml(column.group)}</th>`
+    }
+  })
+  return `<tr>${groups}</tr><tr>${columns.filter(column => column.group).map(column => cell(column)).join('')}</tr>`
+}
+
+function totalRow<T>(columns: PrintColumn<T>[], items: T[], label: string, className: string): string {
+  const cells = columns.map((column, index) => {
+    const total = column.total?.(items) ?? ''
+    const text = index === 0 ? (total ? `${label}: ${total}` : label) : total
+    return `<td class="${column.align ?? 'left'}">${escapeHtml(text)}</td>`
+  })
+  return `<tr class="${className}">${cells.join('')}</tr>`
+}
+
+/**
+ * The report as a complete HTML document
+ */
+export function renderPrintReport<T>({
+  title,
+  subtitle,
+  columns,
+  items,
+  rowsPerPage = 25,
+  orientation = 'landscape'
+}: PrintReportOptions<T>): string {
+  const pageCount = Math.max(1, Math.ceil(items.length / rowsPerPage))
+  const hasTotals = columns.some(column => column.total)
+  const printedAt = new Date().toLocaleString()
+  const head = headerRows(columns)
+
+  const pages = Array.from({ length: pageCount }, (_, pageIndex) => {
+    const start = pageIndex * rowsPerPage
+    const pageItems = items.slice(start, start + rowsPerPage)
+    const isLast = pageIndex === pageCount - 1
+
+    const body = pageItems.map(item =>
+      `<tr>${columns.map(column => `<td class="${column.align ?? 'left'}">${escapeHtml(column.text(item))}</td>`).join('')}</tr>`
+    ).join('')
+
+    const footer = hasTotals ? [
+      pageCount > 1 ? totalRow(columns, pageItems, 'Page total', 'page-total') : '',
+      isLast ? totalRow(columns, items, 'Total', 'report-total') : ''
+    ].join('') : ''
+
+    const range = items.length === 0 ? 'No rows' : `Rows ${start + 1}–${start + pageItems.length} of ${items.length}`
+
+    return `<section class="page">
+  <div class="page-header">
+    <div><h1>${escapeHtml(title)}</h1>${subtitle ? `<div class="subtitle">${escapeHtml(subtitle)}</div>` : ''}</div>
+    <div class="meta">Printed ${escapeHtml(printedAt)}</div>
+  </div>
+  <table>
+    <thead>${head}</thead>
+    <tbody>${body}</tbody>
+    ${footer ? `<tfoot>${footer}</tfoot>` : ''}
+  </table>
+  <div class="page-footer"><span>${range}</span><span>Page ${pageIndex + 1} of ${pageCount}</span></div>
+</section>`
+  })
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>@page { size: A4 ${orientation}; margin: 12mm; }${STYLES}</style>
+</head>
+<body>
+${pages.join('\n')}
+</body>
+</html>`
+}
+
+/**
+ * Open the print dialog for a report without leaving the page. Choosing
+ * "Save as PDF" as the printer gives the PDF version.
+ */
+export function printReport<T>(options: PrintReportOptions<T>): void {
+  const frame = document.createElement('iframe')
+  frame.setAttribute('aria-hidden', 'true')
+  frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;'
+
+  frame.onload = () => {
+    const printWindow = frame.contentWindow
+    if (!printWindow) return
+    printWindow.addEventListener('afterprint', () => frame.remove())
+    printWindow.focus()
+    printWindow.print()
+  }
+  frame.srcdoc = renderPrintReport(options)
+  document.body.appendChild(frame)
+}
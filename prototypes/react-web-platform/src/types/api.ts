@@ -81,15 +81,6 @@ export interface ResponseMetadata {
   };
 }
 
-// Error Types
-export interface ApiError extends Error {
-  status?: number;
-  statusText?: string;
-  code?: string;
-  details?: any;
-  retryable?: boolean;
-}
-
 // Stock Data Types (Alpha Vantage)
 export interface AlphaVantageResponse {
   'Global Quote': {
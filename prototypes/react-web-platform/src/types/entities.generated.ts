@@ -0,0 +1,90 @@
+// Generated by `npm run codegen` from src/domains/entities.ts. Do not edit.
+
+/** Gita Student */
+export interface GitaStudentRecord {
+  /** Student Name */
+  name: string;
+  /** Email */
+  email: string;
+  /** Gurukulam */
+  gurukulam: string;
+  /** Study Level */
+  studyLevel: 'Beginner' | 'Intermediate' | 'Advanced' | 'Scholar';
+  /** Overall Grade */
+  overallGrade: number;
+  /** Letter Grade */
+  letterGrade: 'A+' | 'A' | 'B+' | 'B' | 'C+' | 'C' | 'D' | 'F';
+  /** Practice Days */
+  practiceDays: number;
+  /** Max Practice Days */
+  maxPracticeDays: number;
+  /** Consecutive Days */
+  consecutiveDays: number;
+  /** Chapter 1 Pronunciation */
+  ch1_pronunciation: number;
+  /** Chapter 1 Memorization */
+  ch1_memorization: number;
+  /** Chapter 1 Fluency */
+  ch1_fluency: number;
+  /** Chapter 1 Chanting */
+  ch1_chanting: number;
+  /** Chapter 2 Pronunciation */
+  ch2_pronunciation: number;
+  /** Chapter 2 Memorization */
+  ch2_memorization: number;
+  /** Chapter 2 Fluency */
+  ch2_fluency: number;
+  /** Chapter 2 Chanting */
+  ch2_chanting: number;
+  /** Chapter 3 Pronunciation */
+  ch3_pronunciation: number;
+  /** Chapter 3 Memorization */
+  ch3_memorization: number;
+  /** Chapter 3 Fluency */
+  ch3_fluency: number;
+  /** Chapter 3 Chanting */
+  ch3_chanting: number;
+  /** Verses Memorized */
+  versesMemorized: number;
+  /** Perfect Recitations */
+  perfectRecitations: number;
+  /** Tune Accuracy */
+  tuneAccuracy: number;
+  /** Teacher Comments */
+  teacherComments: string;
+  /** Status */
+  status: 'Active' | 'Paused' | 'Completed' | 'Dropped';
+}
+
+/** Volunteer */
+export interface VolunteerRecord {
+  /** Name */
+  name: string;
+  /** Email */
+  email: string;
+  /** T-Shirt S (Max) */
+  tshirt_s_max: number;
+  /** T-Shirt S (Issued) */
+  tshirt_s_issued: number;
+  /** T-Shirt M (Max) */
+  tshirt_m_max: number;
+  /** T-Shirt M (Issued) */
+  tshirt_m_issued: number;
+  /** T-Shirt L (Max) */
+  tshirt_l_max: number;
+  /** T-Shirt L (Issued) */
+  tshirt_l_issued: number;
+  /** T-Shirt XL (Max) */
+  tshirt_xl_max: number;
+  /** T-Shirt XL (Issued) */
+  tshirt_xl_issued: number;
+  /** T-Shirt XXL (Max) */
+  tshirt_xxl_max: number;
+  /** T-Shirt XXL (Issued) */
+  tshirt_xxl_issued: number;
+}
+
+export interface EntityRecordMap {
+  gita_student: GitaStudentRecord;
+  volunteer: VolunteerRecord;
+}
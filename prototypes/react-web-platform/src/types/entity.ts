@@ -8,9 +8,17 @@ export interface EntityDefinition {
   relationships: RelationshipDefinition[];
   permissions: PermissionDefinition[];
   businessRules: BusinessRuleDefinition[];
+  softDelete?: SoftDeleteConfig;
+  version?: string; // Schema version, defaults to '1.0.0'
+  migrations?: MigrationDefinition[]; // Steps from earlier schema versions
   metadata?: Record<string, any>;
 }
 
+export interface SoftDeleteConfig {
+  enabled: boolean;
+  retentionDays?: number; // Purge trashed records after this many days
+}
+
 export interface FieldDefinition {
   name: string;
   type: FieldType;
@@ -20,9 +28,13 @@ export interface FieldDefinition {
   validation: ValidationRule[];
   defaultValue?: any;
   displayOptions: DisplayOptions;
+  formula?: string; // Expression for 'formula' fields, e.g. "SUM(tshirt_*_issued)"
+  index?: FieldIndexType; // Secondary index maintained by the entity engine
   metadata?: Record<string, any>;
 }
 
+export type FieldIndexType = 'hash' | 'sorted';
+
 export type FieldType = 
   | 'text' 
   | 'number' 
@@ -37,7 +49,8 @@ export type FieldType =
   | 'phone'
   | 'url'
   | 'currency'
-  | 'percentage';
+  | 'percentage'
+  | 'formula';
 
 export interface DisplayOptions {
   width?: number;
@@ -69,9 +82,16 @@ export interface ValidationRule {
   type: ValidationType;
   message: string;
   value?: any;
-  condition?: string;
+  condition?: string; // Expression: the check itself for 'custom' rules, otherwise when the rule applies
   allowOverride?: boolean;
   overrideRoles?: string[];
+  severity?: 'error' | 'warning'; // Warnings are reported but do not block the save (default 'error')
+  // Cross-record and remote rules ('unique', 'exists_in', 'remote')
+  entity?: string; // exists_in: entity whose records hold the allowed values (otherwise `value` is the list)
+  lookupField?: string; // exists_in: field of `entity` to match (default 'id')
+  scope?: string[]; // unique: only records with the same values in these fields count as duplicates
+  ignoreCase?: boolean; // unique / exists_in: compare text case-insensitively
+  validator?: string; // remote: name of a validator registered with registerRemoteValidator
 }
 
 export type ValidationType = 
@@ -84,7 +104,30 @@ export type ValidationType =
   | 'email'
   | 'phone'
   | 'url'
-  | 'pattern';
+  | 'pattern'
+  | 'unique'
+  | 'exists_in'
+  | 'remote';
+
+export interface RemoteValidationRequest {
+  entity: string;
+  field: string;
+  value: unknown;
+  data: RecordData;
+  recordId?: string;
+  params?: unknown; // The rule's `value`
+}
+
+export interface RemoteValidationResponse {
+  valid: boolean;
+  message?: string; // Replaces the rule's message
+}
+
+/**
+ * Check backed by a service, e.g. a data adapter. Should stop work and
+ * reject when the signal aborts.
+ */
+export type RemoteValidator = (request: RemoteValidationRequest, signal?: AbortSignal) => Promise<RemoteValidationResponse>;
 
 export interface RelationshipDefinition {
   name: string;
@@ -119,7 +162,8 @@ export type PermissionAction =
   | 'export'
   | 'import'
   | 'share'
-  | 'approve';
+  | 'approve'
+  | 'audit'; // View record history
 
 export interface PermissionCondition {
   field: string;
@@ -141,8 +185,18 @@ export interface BusinessRuleDefinition {
   trigger: RuleTrigger;
   conditions: ConditionDefinition[];
   actions: ActionDefinition[];
-  priority: number;
+  priority: number; // Lower numbers run first
   active: boolean;
+  schedule?: RuleSchedule; // Required for 'scheduled' rules
+}
+
+export interface RuleSchedule {
+  cron: string; // Five-field cron expression or alias such as '@nightly'
+  /**
+   * Runs missed while the app was closed: 'once' (default) runs a single
+   * catch-up, 'all' runs each missed occurrence, 'none' skips them
+   */
+  catchUp?: 'none' | 'once' | 'all';
 }
 
 export type RuleTrigger = 
@@ -211,6 +265,72 @@ export interface ActionConfig {
   apiEndpoint?: string;
   script?: string;
   workflowId?: string;
+  entity?: string; // Target entity for record actions (defaults to the rule's entity)
+  recordId?: string; // Expression giving the target record id (defaults to the current record)
+  data?: RecordData; // Static field values for create/update actions
+  expressions?: Record<string, string>; // Field values computed from the current record
+  method?: string; // HTTP method for call_api (default POST)
+}
+
+export interface RuleActionTrace {
+  type: ActionType;
+  status: 'applied' | 'deferred' | 'skipped' | 'failed';
+  field?: string;
+  detail?: unknown;
+  error?: string;
+}
+
+/**
+ * What one rule did when it fired, carried by `rule:executed` events
+ */
+export interface RuleExecutionTrace {
+  rule: string;
+  entity: string;
+  recordId?: string;
+  trigger: RuleTrigger;
+  path: string[]; // Rules already running when this one fired, outermost first
+  actions: RuleActionTrace[];
+  timestamp: Date;
+}
+
+// Scheduler Types
+
+export interface ScheduledJob {
+  id: string; // `${entity}.${rule}`
+  entity: string;
+  rule: string;
+  cron: string;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  lastStatus?: JobRun['status'];
+}
+
+export interface JobRun {
+  id: string;
+  jobId: string;
+  entity: string;
+  rule: string;
+  scheduledFor: Date;
+  startedAt: Date;
+  finishedAt: Date;
+  status: 'success' | 'failed';
+  catchUp: boolean; // Run for an occurrence missed while the app was closed
+  manual: boolean;
+  recordsMatched: number;
+  recordsChanged: number;
+  error?: string;
+}
+
+export interface JobRunQuery {
+  entity?: string;
+  rule?: string;
+  status?: JobRun['status'];
+  limit?: number; // Most recent runs only
+}
+
+export interface ScheduledRuleResult {
+  recordsMatched: number;
+  recordsChanged: number;
 }
 
 // Runtime Data Types
@@ -225,6 +345,56 @@ export interface EntityRecord {
   createdBy?: string;
   updatedBy?: string;
   version?: number;
+  schemaVersion?: string; // EntityDefinition version the stored data conforms to
+  deletedAt?: Date; // Set while the record is in the trash
+  deletedBy?: string;
+  workflow?: RecordWorkflowState; // Approval workflow the record is in (or last finished)
+  related?: Record<string, EntityRecord | EntityRecord[] | null>; // Populated by `include`
+}
+
+export type RecordData = EntityRecord['data'];
+
+/**
+ * The user performing an operation, matched against PermissionDefinition roles
+ */
+export interface UserContext {
+  id: string;
+  roles: string[];
+  attributes?: Record<string, unknown>; // Values for PermissionCondition.userField
+}
+
+/**
+ * What a user may do with an entity, for hiding and disabling UI
+ */
+export interface EntityAccess {
+  actions: PermissionAction[];
+  hiddenFields: string[]; // Fields the user may not read
+  readOnlyFields: string[]; // Readable fields the user may not update
+}
+
+export interface ReadOptions {
+  /** Whose permissions apply; defaults to the engine's security context */
+  user?: UserContext;
+}
+
+export interface WriteOptions {
+  /** Reject the write with a ConflictError unless the record is at this version */
+  expectedVersion?: number;
+  /**
+   * Checked against the entity's permissions and recorded as
+   * createdBy/updatedBy and in the audit trail. Defaults to the engine's
+   * security context.
+   */
+  user?: UserContext;
+  /** Why the change was made, stored in the audit trail */
+  reason?: string;
+  /** Save despite overridable validation errors the user's roles may override */
+  override?: ValidationOverride;
+}
+
+export interface DeleteOptions extends WriteOptions {
+  /** Remove the record for good even when the entity uses soft delete */
+  permanent?: boolean;
 }
 
 export interface RecordMetadata {
@@ -235,6 +405,7 @@ export interface RecordMetadata {
   tags?: string[];
   flags?: string[];
   customFields?: Record<string, any>;
+  overrides?: ValidationOverrideEntry[]; // Validation errors saved over, newest last
 }
 
 export interface EntityData {
@@ -259,9 +430,11 @@ export interface QueryParams {
   limit?: number;
   sort?: SortConfig[];
   filters?: FilterConfig[];
+  where?: FilterExpression; // Nested AND/OR/NOT groups, ANDed with `filters`
   search?: string;
   include?: string[];
   fields?: string[];
+  includeDeleted?: boolean; // Also match records in the trash
 }
 
 export interface SortConfig {
@@ -276,6 +449,13 @@ export interface FilterConfig {
   logicalOperator?: 'and' | 'or';
 }
 
+export interface FilterGroup {
+  operator: 'and' | 'or' | 'not';
+  filters: FilterExpression[];
+}
+
+export type FilterExpression = FilterConfig | FilterGroup;
+
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
@@ -290,23 +470,306 @@ export interface PaginatedResponse<T> {
     executionTime: number;
     cacheHit: boolean;
     source: string;
+    plan?: QueryPlan;
+  };
+}
+
+export interface QueryPlan {
+  strategy: 'index_scan' | 'full_scan';
+  index?: {
+    field: string;
+    type: FieldIndexType;
+    operator: ComparisonOperator;
   };
+  sortStrategy: 'index' | 'in_memory' | 'none';
+  sortIndex?: string;
+  scannedRecords: number;
+  totalRecords: number;
+}
+
+// Schema Migration Types
+
+/**
+ * Declarative migration steps. Expressions use the entity expression
+ * language; `value` refers to the field's current value.
+ */
+export type MigrationStep =
+  | { type: 'rename'; from: string; to: string }
+  | { type: 'retype'; field: string; to: FieldType; convert?: string }
+  | { type: 'split'; field: string; into: string[]; separator?: string; keepSource?: boolean }
+  | { type: 'merge'; fields: string[]; into: string; separator?: string; expression?: string; keepSources?: boolean }
+  | { type: 'default'; field: string; value?: unknown; expression?: string }
+  | { type: 'remove'; field: string };
+
+export interface MigrationDefinition {
+  from: string;
+  to: string;
+  description?: string;
+  steps: MigrationStep[];
+}
+
+export type MigrationMode = 'eager' | 'lazy';
+
+export interface CompatibilityReport {
+  entity: string;
+  fromVersion: string;
+  toVersion: string;
+  totalRecords: number;
+  compatibleRecords: number;
+  pendingRecords: number; // Migrated in memory but not yet written back (lazy mode)
+  unknownFields: string[]; // Present in data but not declared on the definition
+  invalidRecords: Array<{ recordId: string; errors: ValidationError[] }>;
+}
+
+// Audit Types
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  entity: string;
+  recordId: string;
+  action: 'create' | 'update' | 'delete' | 'restore' | 'purge';
+  version: number; // Record version after the change (the removed version for deletes)
+  data: RecordData | null; // Full snapshot after the change, null once deleted
+  changes: FieldChange[];
+  userId?: string;
+  reason?: string;
+  timestamp: Date;
+}
+
+export interface AuditQuery {
+  entity?: string;
+  recordId?: string;
+  userId?: string;
+  actions?: AuditEntry['action'][];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  user?: UserContext; // Whose history permissions apply
+}
+
+// Workflow Types
+
+/**
+ * Approval workflow for records of one entity. With `startWhen`, updates
+ * matching the expression are held as pending changes until approved.
+ */
+export interface WorkflowDefinition {
+  id: string;
+  entity: string;
+  displayName: string;
+  description?: string;
+  initialState: string;
+  states: WorkflowStateDefinition[];
+  transitions: WorkflowTransitionDefinition[];
+  startWhen?: string; // Expression over the updated data; `previous.*` reads the data before the update
+}
+
+export interface WorkflowStateDefinition {
+  name: string;
+  displayName: string;
+  assigneeRoles?: string[]; // Roles whose approvals inbox lists records in this state
+  sla?: WorkflowSla;
+  outcome?: 'approved' | 'rejected'; // Marks a final state: approved applies held changes, rejected discards them
+}
+
+export interface WorkflowSla {
+  hours: number;
+  escalateTo?: string[]; // Roles that also become assignees once overdue
+  transition?: string; // Transition taken automatically once overdue
+}
+
+export interface WorkflowTransitionDefinition {
+  name: string;
+  displayName: string;
+  from: string | string[];
+  to: string;
+  roles?: string[]; // Who may take it (defaults to the state's assignees)
+  guard?: string; // Expression over the data with held changes applied, plus `user.*`
+  requireComment?: boolean;
+}
+
+export interface RecordWorkflowState {
+  workflowId: string;
+  state: string;
+  enteredAt: Date;
+  dueAt?: Date;
+  escalated?: boolean;
+  startedBy?: string;
+  pendingChanges?: RecordData;
+  history: WorkflowHistoryEntry[];
+}
+
+export interface WorkflowHistoryEntry {
+  from?: string;
+  to: string;
+  transition?: string;
+  userId?: string;
+  comment?: string;
+  timestamp: Date;
+}
+
+export interface TransitionOptions extends WriteOptions {
+  comment?: string;
+}
+
+/**
+ * A record waiting on the current user, as listed in the approvals inbox
+ */
+export interface ApprovalItem {
+  record: EntityRecord;
+  workflow: WorkflowDefinition;
+  state: WorkflowStateDefinition;
+  transitions: WorkflowTransitionDefinition[]; // Those the user may take now
+  changes: FieldChange[]; // Held changes against the current data
+  dueAt?: Date;
+  overdue: boolean;
+}
+
+// Bulk Operation Types
+
+export interface AtomicBulkOptions {
+  atomic: true;
+}
+
+export interface BulkUpdateInput {
+  id: string;
+  data: Partial<RecordData>;
+  expectedVersion?: number;
+}
+
+export interface BulkRowResult {
+  index: number;
+  id?: string;
+  status: 'success' | 'failed' | 'rolled_back';
+  record?: EntityRecord;
+  errors: ValidationError[];
+}
+
+export interface BulkOperationReport {
+  committed: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  rows: BulkRowResult[];
+}
+
+// Import Types
+
+/**
+ * Rows read from an uploaded file before they are mapped to fields.
+ * Cells keep the type the file gave them (text from CSV, typed from JSON
+ * and Excel).
+ */
+export interface ImportSource {
+  name: string; // File name, or worksheet name for Excel
+  headers: string[];
+  rows: ImportSourceRow[];
+}
+
+export interface ImportSourceRow {
+  line: number; // Line or worksheet row in the file
+  values: unknown[];
+}
+
+/**
+ * - 'insert' creates a record for every row
+ * - 'upsert' updates the record whose key field matches, else creates one
+ * - 'skip_duplicates' creates records only for keys not seen before
+ */
+export type ImportMode = 'insert' | 'upsert' | 'skip_duplicates';
+
+export interface ImportOptions {
+  /** Field for each source column by position; null leaves the column out */
+  mapping: Array<string | null>;
+  mode?: ImportMode;
+  /** Field matched against existing records; required for 'upsert' and 'skip_duplicates' */
+  keyField?: string;
+  /** Validate every row and report what would happen without writing */
+  dryRun?: boolean;
+}
+
+export interface ImportRowResult {
+  line: number;
+  action: 'insert' | 'update' | 'skip';
+  status: 'success' | 'failed';
+  id?: string; // The record created, updated or matched
+  data: RecordData;
+  errors: ValidationError[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  rows: ImportRowResult[];
 }
 
 // Validation Types
 
 export interface ValidationResult {
   isValid: boolean;
-  errors: ValidationError[];
+  errors: ValidationError[]; // Errors nobody can override
+  overridable: ValidationError[]; // From rules with allowOverride, not covered by the override
+  overridden: ValidationError[]; // Covered by the context's override
   warnings: ValidationWarning[];
 }
 
+export interface ValidationContext {
+  user?: UserContext; // Exposed to rule expressions as `user.*`
+  override?: ValidationOverride;
+  recordId?: string; // The record being saved, which 'unique' does not count
+  lookup?: RecordLookup; // Needed by 'unique' and entity-backed 'exists_in'
+  changedFields?: string[]; // Updates: cross-record and remote rules only run for these fields
+  signal?: AbortSignal; // Abandons the check, rejecting with an AbortError
+}
+
+/**
+ * Live records with a field value, for cross-record rules
+ */
+export interface RecordLookup {
+  findRecords(entityName: string, field: string, value: unknown, options?: { ignoreCase?: boolean }): EntityRecord[];
+}
+
+export interface FieldValidationOptions extends ReadOptions {
+  recordId?: string; // Existing record the value belongs to
+  data?: RecordData; // Other values of the record being edited
+  signal?: AbortSignal;
+}
+
 export interface ValidationError {
   field: string;
   message: string;
   code: string;
   value?: any;
   rule?: ValidationRule;
+  overridable?: boolean; // The rule allows override (by its overrideRoles, if any)
+}
+
+/**
+ * Justification for saving over overridable validation errors
+ */
+export interface ValidationOverride {
+  reason: string;
+  fields?: string[]; // Only override errors on these fields (default: all)
+}
+
+export interface ValidationOverrideEntry {
+  field: string;
+  code: string;
+  message: string;
+  value?: unknown;
+  reason: string;
+  userId?: string;
+  timestamp: Date;
 }
 
 export interface ValidationWarning {
@@ -328,26 +791,90 @@ export interface CacheConfig {
 
 // Event Types
 
-export interface EntityEvent {
-  type: EntityEventType;
-  entity: string;
-  recordId?: string;
-  data?: any;
-  metadata?: Record<string, any>;
-  timestamp: Date;
-  userId?: string;
+export interface NotificationPayload {
+  rule: string;
+  message: string;
+  recipients: string[];
+  channels: string[];
 }
 
-export type EntityEventType = 
-  | 'entity:created'
-  | 'entity:updated'
-  | 'entity:deleted'
-  | 'record:created'
-  | 'record:updated'
-  | 'record:deleted'
-  | 'validation:failed'
-  | 'rule:executed'
-  | 'permission:denied';
+/**
+ * `data` carried by each event type
+ */
+export interface EntityEventDataMap {
+  'entity:registered': EntityDefinition;
+  'entity:created': EntityDefinition;
+  'entity:updated': EntityDefinition;
+  'entity:deleted': EntityDefinition;
+  'record:created': EntityRecord;
+  'record:updated': { previous: EntityRecord; current: EntityRecord };
+  'record:deleted': EntityRecord;
+  'validation:failed': ValidationResult;
+  'rule:executed': RuleExecutionTrace;
+  'notification:sent': NotificationPayload;
+  'workflow:started': { workflowId: string; state: string; pendingChanges?: RecordData };
+  'workflow:transitioned': { workflowId: string; transition: string; from: string; to: string; comment?: string };
+  'workflow:overdue': { workflowId: string; state: string; dueAt?: Date; escalateTo: string[] };
+  'permission:denied': { action: PermissionAction; fields?: string[] };
+}
+
+export type EntityEventType = keyof EntityEventDataMap;
+
+/**
+ * An engine event. Narrowing on `type` narrows `data`.
+ */
+export type EntityEvent<T extends EntityEventType = EntityEventType> = {
+  [K in T]: {
+    type: K;
+    entity: string;
+    recordId?: string;
+    data: EntityEventDataMap[K];
+    metadata?: Record<string, any>;
+    timestamp: Date;
+    userId?: string;
+  };
+}[T];
+
+type EventCategory<T> = T extends `${infer Category}:${string}` ? Category : never;
+
+/**
+ * What a listener subscribes to: `*` for every event, an event type
+ * (`record:updated`), every event of a category (`record:*`) or for an
+ * entity (`*:volunteers`), or a type or category for one entity
+ * (`record:updated:volunteers`, `record:*:volunteers`)
+ */
+export type EntityEventPattern =
+  | '*'
+  | EntityEventType
+  | `${EventCategory<EntityEventType>}:*`
+  | `*:${string}`
+  | `${EntityEventType | `${EventCategory<EntityEventType>}:*`}:${string}`;
+
+/**
+ * Event types a pattern can match
+ */
+export type MatchedEventType<P extends string> =
+  P extends EntityEventType ? P
+  : P extends `*:${string}` | '*' ? EntityEventType
+  : P extends `${infer Category}:*` ? Extract<EntityEventType, `${Category}:${string}`>
+  : P extends `${infer Category}:*:${string}` ? Extract<EntityEventType, `${Category}:${string}`>
+  : P extends `${infer Category}:${infer Action}:${string}` ? Extract<EntityEventType, `${Category}:${Action}`>
+  : EntityEventType;
+
+export type EntityEventHandler<P extends string = EntityEventPattern> =
+  (event: EntityEvent<MatchedEventType<P>>) => void | Promise<void>;
+
+/**
+ * An event as kept in the event log. `seq` increases by one per event and
+ * lets consumers resume, and receivers drop events delivered twice.
+ */
+export type StoredEvent<T extends EntityEventType = EntityEventType> = EntityEvent<T> & { seq: number };
+
+export interface EventConsumerOffset {
+  consumer: string;
+  seq: number; // Last event the consumer has processed
+  updatedAt: Date;
+}
 
 // Export all types
 export type * from './entity';
\ No newline at end of file